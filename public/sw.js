@@ -0,0 +1,163 @@
+// Service worker for offline use and for evacuation and new fire push alerts
+
+// Bump to drop every cache from older deployments
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const DATA_CACHE = `data-${CACHE_VERSION}`;
+
+const STATIC_URLS = ['/manifest.webmanifest', '/icon-192.png', '/icon-512.png'];
+const SHELL_URLS = ['/', ...STATIC_URLS];
+
+// Hazard and air quality data kept for offline use. Other API routes need a
+// connection to mean anything (geocoding, alerts, history).
+const CACHED_API_PATHS = ['/api/fires', '/api/evacuations', '/api/fire-perimeters', '/api/air-quality'];
+
+// When the cached copy was stored. The page treats a response carrying it as
+// offline data.
+const CACHED_AT_HEADER = 'X-SW-Cached-At';
+
+const DEV_HOSTS = ['localhost', '127.0.0.1'];
+
+// A congested network that hasn't failed yet is as bad as none at all
+const NETWORK_TIMEOUT_MS = 10000;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key !== SHELL_CACHE && key !== DATA_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+function fetchWithTimeout(request) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Network timeout')), NETWORK_TIMEOUT_MS);
+    fetch(request).then(
+      (response) => { clearTimeout(timer); resolve(response); },
+      (error) => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+// Copies the response with the time it was cached, since cached responses
+// keep their original Date header
+async function stampResponse(response) {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, String(Date.now()));
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
+
+// Network first so data is always as fresh as the connection allows; the
+// cached copy is only for when the network fails
+async function handleDataRequest(request) {
+  const cache = await caches.open(DATA_CACHE);
+  try {
+    const response = await fetchWithTimeout(request);
+    if (response.ok) {
+      await cache.put(request, await stampResponse(response.clone()));
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Pages are network first too, falling back to the cached app shell
+async function handleNavigation(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetchWithTimeout(request);
+    if (response.ok && new URL(request.url).pathname === '/') {
+      await cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request) || await cache.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Build assets have content hashes in their names, so a cached copy never
+// goes out of date
+async function handleStaticAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  // Development builds reuse asset names, so caching there serves old code
+  if (DEV_HOSTS.includes(url.hostname)) return;
+
+  if (CACHED_API_PATHS.includes(url.pathname)) {
+    event.respondWith(handleDataRequest(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/_next/static/') || STATIC_URLS.includes(url.pathname)) {
+    event.respondWith(handleStaticAsset(request));
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'California Fire Tracker', {
+      body: payload.body || '',
+      tag: payload.tag,
+      // Re-alert when a tagged notification is replaced, e.g. warning -> order
+      renotify: Boolean(payload.tag),
+      data: { url: payload.url || '/' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  // Focus an open tab if there is one rather than opening another
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        existing.navigate(url);
+        return existing.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,136 @@
+// Compares the grid spatial index against the exhaustive nearest-zone and
+// nearest-fire scans on a synthetic California-sized dataset.
+//
+// Run with: npm run bench:spatial -- [zoneCount] [queryCount]
+
+import {
+  createFireIndex,
+  createZoneIndex,
+  findNearestFires,
+  findNearestZones,
+  rankFiresByDistance,
+  rankZonesByDistance
+} from '@/utils/nearby';
+import { countZonePoints } from '@/utils/geometry';
+import type { EvacuationFeature, FireFeature, Position } from '@/types';
+
+const ZONE_COUNT = Number(process.argv[2]) || 3000;
+const QUERY_COUNT = Number(process.argv[3]) || 500;
+const FIRE_COUNT = 150;
+
+// Rough California bounding box
+const BOUNDS = { minLon: -124.4, minLat: 32.5, maxLon: -114.1, maxLat: 42.0 };
+
+// Deterministic PRNG (mulberry32) so runs are comparable
+let seed = 42;
+function random(): number {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function randomPoint(): Position {
+  return [
+    BOUNDS.minLon + random() * (BOUNDS.maxLon - BOUNDS.minLon),
+    BOUNDS.minLat + random() * (BOUNDS.maxLat - BOUNDS.minLat)
+  ];
+}
+
+// Irregular star-shaped polygon, 1-5 miles across, 20-80 vertices
+function syntheticZone(id: number): EvacuationFeature {
+  const [centerLon, centerLat] = randomPoint();
+  const vertexCount = 20 + Math.floor(random() * 60);
+  const radius = 0.01 + random() * 0.03;
+  const ring: Position[] = [];
+  for (let i = 0; i < vertexCount; i++) {
+    const angle = (i / vertexCount) * Math.PI * 2;
+    const r = radius * (0.6 + random() * 0.4);
+    ring.push([centerLon + Math.cos(angle) * r, centerLat + Math.sin(angle) * r]);
+  }
+  ring.push(ring[0]);
+
+  return {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [ring] },
+    properties: {
+      zone_id: `ZONE-${id}`,
+      zone_status: 'Evacuation Order',
+      zone_status_reason: 'Fire',
+      last_updated: Date.now(),
+      county_name: 'Synthetic',
+      status: 'order',
+      hazard: 'fire'
+    }
+  };
+}
+
+function syntheticFire(id: number): FireFeature {
+  const [lon, lat] = randomPoint();
+  return {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [lon, lat] },
+    properties: {
+      Name: `Fire ${id}`,
+      IsActive: true,
+      Final: false,
+      Location: 'Synthetic',
+      AcresBurned: Math.round(random() * 10000),
+      PercentContained: Math.round(random() * 100),
+      Started: new Date().toISOString(),
+      Updated: new Date().toISOString(),
+      County: 'Synthetic',
+      Latitude: lat,
+      Longitude: lon
+    }
+  };
+}
+
+function time<T>(fn: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = fn();
+  return { result, ms: performance.now() - start };
+}
+
+const zones = Array.from({ length: ZONE_COUNT }, (_, i) => syntheticZone(i));
+const fires = Array.from({ length: FIRE_COUNT }, (_, i) => syntheticFire(i));
+const queries = Array.from({ length: QUERY_COUNT }, randomPoint);
+const totalPoints = zones.reduce((sum, zone) => sum + countZonePoints(zone), 0);
+
+console.log(`Zones: ${ZONE_COUNT} (${totalPoints.toLocaleString()} vertices) | Fires: ${FIRE_COUNT} | Queries: ${QUERY_COUNT}`);
+
+const build = time(() => ({ zoneIndex: createZoneIndex(zones), fireIndex: createFireIndex(fires) }));
+const { zoneIndex, fireIndex } = build.result;
+console.log(`Index build: ${build.ms.toFixed(1)}ms`);
+
+const bruteZones = time(() => queries.map(([lon, lat]) => rankZonesByDistance(lat, lon, zones)[0]));
+let measuredZones = 0;
+const indexedZones = time(() =>
+  queries.map(([lon, lat]) =>
+    findNearestZones(lat, lon, zoneIndex, { onMeasure: () => { measuredZones++; } })[0]
+  )
+);
+
+const bruteFires = time(() => queries.map(([lon, lat]) => rankFiresByDistance(lat, lon, fires)[0]));
+const indexedFires = time(() => queries.map(([lon, lat]) => findNearestFires(lat, lon, fireIndex)[0]));
+
+// The index must agree with the exhaustive scan, not just be faster
+let mismatches = 0;
+queries.forEach((_, i) => {
+  if (Math.abs(bruteZones.result[i].distance - indexedZones.result[i].distance) > 1e-9) mismatches++;
+  if (Math.abs(bruteFires.result[i].distance - indexedFires.result[i].distance) > 1e-9) mismatches++;
+});
+
+const report = (label: string, brute: number, indexed: number) =>
+  console.log(
+    `${label}: brute force ${(brute / QUERY_COUNT).toFixed(3)}ms/query | ` +
+    `indexed ${(indexed / QUERY_COUNT).toFixed(3)}ms/query | ${(brute / indexed).toFixed(1)}x`
+  );
+
+report('Nearest zone', bruteZones.ms, indexedZones.ms);
+report('Nearest fire', bruteFires.ms, indexedFires.ms);
+console.log(`Zones measured per query: ${ZONE_COUNT} brute force vs ${(measuredZones / QUERY_COUNT).toFixed(1)} indexed`);
+console.log(mismatches === 0 ? 'Results match' : `MISMATCHES: ${mismatches}`);
+
+if (mismatches > 0) process.exit(1);
@@ -0,0 +1,143 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AirQualityLookup } from '@/utils/airQualityChain';
+
+// Only Date is faked, so the cache and rate limiter (created on first use)
+// follow the test clock while timers still run
+vi.useFakeTimers({ toFake: ['Date'] });
+vi.setSystemTime(new Date('2026-01-15T12:00:00Z'));
+
+const READING = {
+  DateObserved: '2026-01-15',
+  HourObserved: 12,
+  LocalTimeZone: 'PST',
+  ReportingArea: 'Test',
+  StateCode: 'CA',
+  Latitude: 0,
+  Longitude: 0,
+  ParameterName: 'PM2.5',
+  AQI: 42,
+  Category: { Number: 1, Name: 'Good' },
+  Provider: 'airnow'
+};
+
+const chain = {
+  providers: ['airnow'],
+  outage: false,
+  lookup: vi.fn(async (): Promise<AirQualityLookup> => chain.outage
+    ? { readings: [], sources: [], outcomes: [{ provider: 'airnow', outcome: 'failed' }] }
+    : { readings: [READING] as AirQualityLookup['readings'], sources: ['airnow'], outcomes: [{ provider: 'airnow', outcome: 'ok' }] }),
+  forecast: vi.fn(async () => ({ days: [], source: null })),
+  health: () => []
+};
+
+vi.mock('@/utils/airQualityChain', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/airQualityChain')>()),
+  getAirQualityChain: () => chain
+}));
+
+const { GET } = await import('@/app/api/air-quality/route');
+
+let clients = 0;
+function request(lat: number, lng: number, ip = `10.0.0.${++clients % 250}`) {
+  return GET(new NextRequest(`http://localhost/api/air-quality?lat=${lat}&lng=${lng}`, {
+    headers: { 'x-forwarded-for': ip }
+  }));
+}
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('GET /api/air-quality', () => {
+  it('reports MISS, HIT, STALE and a fresh MISS after expiry in the cache headers', async () => {
+    const miss = await request(36.01, -119.01);
+    expect(miss.status).toBe(200);
+    expect(miss.headers.get('X-Cache')).toBe('MISS');
+    expect(miss.headers.get('X-Cache-Age')).toBe('0');
+    const cell = miss.headers.get('X-Cache-Cell');
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    const hit = await request(36.019, -119.019);
+    expect(hit.headers.get('X-Cache')).toBe('HIT');
+    expect(hit.headers.get('X-Cache-Cell')).toBe(cell);
+    expect(hit.headers.get('X-Cache-Age')).toBe('300');
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    const stale = await request(36.01, -119.01);
+    expect(stale.headers.get('X-Cache')).toBe('STALE');
+    expect(stale.headers.get('X-Cache-Age')).toBe('900');
+    // Let the background refresh store its entry before the clock moves on
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect((await request(36.01, -119.01)).headers.get('X-Cache')).toBe('HIT');
+
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+    const expired = await request(36.01, -119.01);
+    expect(expired.headers.get('X-Cache')).toBe('MISS');
+  });
+
+  it('serves the last good answer when every provider is down', async () => {
+    await request(38.01, -121.01);
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+
+    chain.outage = true;
+    const response = await request(38.01, -121.01);
+    chain.outage = false;
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('FALLBACK');
+    expect(response.headers.get('X-Data-Stale')).toBe('true');
+    expect(response.headers.get('CDN-Cache-Control')).toBe('public, s-maxage=60');
+    expect((await response.json()).observations).toHaveLength(1);
+  });
+
+  it('does not charge cache hits to the cell budget', async () => {
+    expect((await request(36.51, -119.51)).headers.get('X-Cache')).toBe('MISS');
+
+    // Well past the cell's burst of 30, each from a different client
+    const responses = await Promise.all(Array.from({ length: 80 }, (_, i) =>
+      request(36.51, -119.51, `10.1.${Math.floor(i / 250)}.${i % 250}`)
+    ));
+    expect(responses.every(({ status }) => status === 200)).toBe(true);
+    expect(responses.every((response) => response.headers.get('X-Cache') === 'HIT')).toBe(true);
+  });
+
+  it('limits lookups that go upstream per cell', async () => {
+    // Outages aren't cached, so every request here is a miss
+    chain.outage = true;
+    const statuses: number[] = [];
+    for (let i = 0; i < 31; i++) {
+      statuses.push((await request(37.01, -120.01, `10.2.0.${i}`)).status);
+    }
+    chain.outage = false;
+
+    expect(statuses.slice(0, 30).every((status) => status === 502)).toBe(true);
+    expect(statuses[30]).toBe(429);
+  });
+
+  it('still limits each client on cache hits', async () => {
+    await request(37.51, -120.51, '10.3.0.1');
+    const statuses: number[] = [];
+    for (let i = 0; i < 60; i++) {
+      statuses.push((await request(37.51, -120.51, '10.3.0.1')).status);
+    }
+
+    expect(statuses.slice(0, 59).every((status) => status === 200)).toBe(true);
+    const limited = await request(37.51, -120.51, '10.3.0.1');
+    expect(statuses[59]).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('2');
+  });
+
+  it('rejects coordinates that are not plain numbers', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/air-quality?lat=34.1%26x%3D1&lng=-118'));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_REQUEST', param: 'lat' });
+  });
+});
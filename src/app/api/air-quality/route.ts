@@ -1,173 +1,129 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Cache duration in seconds (1 hour = 3600 seconds)
-const CACHE_DURATION = 3600;
+import { getAirQualityCache, getGridCell } from '@/utils/airQualityCache';
+import { getAirQualityChain, isProviderOutage } from '@/utils/airQualityChain';
+import { rateLimitResponse, validationErrorResponse } from '@/utils/apiErrors';
+import { RateLimitedError, checkRateLimits, getRateLimitClientKey } from '@/utils/rateLimit';
+import type { RateLimitRule } from '@/utils/rateLimit';
+import { parseCoordinates } from '@/utils/requestValidation';
+import { STALE_MAX_AGE } from '@/utils/upstreamHeaders';
+
+// Cache duration in seconds, matching how long the server cache treats a
+// cell as fresh
+const CACHE_DURATION = 600;
 
 // Add revalidate for Next.js route segment config
 export const revalidate = CACHE_DURATION;
 
 export const runtime = 'edge';
 
-async function fetchAQICNData(latitude: string, longitude: string) {
-  const apiKey = process.env.AQICN_API_KEY;
-  if (!apiKey) {
-    throw new Error('AQICN_API_KEY is not configured');
-  }
-
-  const url = `https://api.waqi.info/feed/geo:${latitude};${longitude}/?token=${apiKey}`;
-  const response = await fetch(url, {
-    headers: {
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`AQICN API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  
-  // Enhanced validation for AQICN data
-  if (
-    data.status === 'error' || 
-    !data.data || 
-    data.data === 'Unknown station' ||
-    typeof data.data.aqi !== 'number' ||
-    isNaN(data.data.aqi)
-  ) {
-    console.log('Invalid or missing AQICN data:', data);
-    return null;
-  }
-
-  // Map AQI value to AirNow category
-  let category = {
-    Number: 1,
-    Name: 'Good'
-  };
-  const aqi = data.data.aqi;
-  if (aqi > 300) {
-    category = { Number: 6, Name: 'Hazardous' };
-  } else if (aqi > 200) {
-    category = { Number: 5, Name: 'Very Unhealthy' };
-  } else if (aqi > 150) {
-    category = { Number: 4, Name: 'Unhealthy' };
-  } else if (aqi > 100) {
-    category = { Number: 3, Name: 'Unhealthy for Sensitive Groups' };
-  } else if (aqi > 50) {
-    category = { Number: 2, Name: 'Moderate' };
-  }
-
-  // Transform AQICN data to match AirNow format
-  return [{
-    DateObserved: data.data.time.iso.split('T')[0],
-    HourObserved: parseInt(data.data.time.iso.split('T')[1].split(':')[0]),
-    LocalTimeZone: data.data.time.tz,
-    ReportingArea: data.data.city?.name || 'Unknown',
-    StateCode: 'INT', // International
-    Latitude: latitude,
-    Longitude: longitude,
-    ParameterName: data.data.dominentpol?.toUpperCase() || 'PM2.5',
-    AQI: data.data.aqi,
-    Category: category
-  }];
-}
+// Each client gets a budget for every request, cached or not. Each cache
+// cell also gets a budget for the lookups that actually go upstream, however
+// many clients ask
+const CLIENT_RATE_LIMIT: RateLimitRule = { capacity: 60, refillPerSecond: 30 / 60 };
+const CELL_RATE_LIMIT: RateLimitRule = { capacity: 30, refillPerSecond: 30 / 60 };
+
+const CACHE_HEADERS = {
+  'Cache-Control': 'public, max-age=0',
+  'CDN-Cache-Control': `public, s-maxage=${CACHE_DURATION}`,
+  'Vercel-CDN-Cache-Control': `public, s-maxage=${CACHE_DURATION}, stale-while-revalidate=60`,
+};
+
+// Last known good answers are cached briefly, so the CDN picks up fresh data
+// soon after the providers recover
+const FALLBACK_CACHE_HEADERS = {
+  'Cache-Control': 'public, max-age=0',
+  'CDN-Cache-Control': `public, s-maxage=${STALE_MAX_AGE}`,
+  'Vercel-CDN-Cache-Control': `public, s-maxage=${STALE_MAX_AGE}`,
+};
 
 export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const latitude = searchParams.get('lat');
-    const longitude = searchParams.get('lng');
-    const requestType = searchParams.get('type') || 'check-cache';
+  const requestId = Math.random().toString(36).substring(7);
+  const startTime = Date.now();
 
-    if (!latitude || !longitude) {
-      return NextResponse.json(
-        { error: 'Latitude and longitude are required' },
-        { status: 400 }
-      );
+  try {
+    // Only parsed, range-checked numbers ever reach the provider URLs
+    const coordinates = parseCoordinates(request.nextUrl.searchParams);
+    if (!coordinates.ok) return validationErrorResponse(coordinates.issue);
+    const { lat: latitude, lng: longitude } = coordinates.value;
+
+    const cell = getGridCell(latitude, longitude);
+    const rateLimit = await checkRateLimits([
+      { key: `air-quality:${await getRateLimitClientKey(request.headers)}`, rule: CLIENT_RATE_LIMIT }
+    ]);
+    if (rateLimit && !rateLimit.allowed) {
+      console.warn(`[Air Quality API] [${requestId}] Rate limited, retry after ${rateLimit.retryAfterSeconds}s`);
+      return rateLimitResponse(rateLimit);
     }
 
-    // Add check for API key
-    const airNowApiKey = process.env.AIR_QUALITY_API_KEY;
-    if (!airNowApiKey) {
-      console.error('AIR_QUALITY_API_KEY is not configured');
+    const chain = getAirQualityChain();
+    if (chain.providers.length === 0) {
+      console.error(`[Air Quality API] [${requestId}] No air quality provider has an API key configured`);
       return NextResponse.json(
         { error: 'API configuration error' },
-        { status: 500 }
+        { status: 503, headers: { 'Cache-Control': 'no-store' } }
       );
     }
 
-    // Fetch from AirNow API
-    const airNowUrl = `https://www.airnowapi.org/aq/observation/latLong/current/?format=application/json&latitude=${latitude}&longitude=${longitude}&distance=25&API_KEY=${airNowApiKey}`;
-    
-    console.log(`Fetching ${requestType} air quality data:`, { latitude, longitude });
-    
-    const airNowResponse = await fetch(airNowUrl, {
-      headers: { 'Content-Type': 'application/json' }
+    // Everyone in the cell shares the lookup at its centre. Only misses and
+    // refreshes reach the loader, so only they spend the cell's budget; a
+    // refused refresh just leaves the stale entry in place.
+    const { value, status, age } = await getAirQualityCache().get(latitude, longitude, async (center) => {
+      const cellLimit = await checkRateLimits([{ key: `air-quality:cell:${center.id}`, rule: CELL_RATE_LIMIT }]);
+      if (cellLimit && !cellLimit.allowed) throw new RateLimitedError(cellLimit);
+
+      console.log(`[Air Quality API] [${requestId}] Fetching cell ${center.id}:`, { lat: center.lat, lng: center.lng });
+      const [lookup, forecast] = await Promise.all([
+        chain.lookup(center.lat, center.lng),
+        chain.forecast(center.lat, center.lng)
+      ]);
+      return { lookup, forecast };
     });
-
-    if (!airNowResponse.ok) {
-      const errorText = await airNowResponse.text();
-      console.error('AirNow API error response:', errorText);
-      throw new Error(`Failed to fetch air quality data: ${airNowResponse.status} ${errorText}`);
-    }
-
-    const airNowData = await airNowResponse.json();
-
-    // If AirNow returns data, use it
-    if (airNowData && airNowData.length > 0) {
-      console.log('Got AirNow data');
-      return new NextResponse(JSON.stringify(airNowData), {
-        status: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          // Cache headers for fresh data (from exact coordinates)
-          ...(requestType === 'fetch-fresh' ? {
-            'Cache-Control': 'public, max-age=0',
-            'CDN-Cache-Control': `public, s-maxage=${CACHE_DURATION}`,
-            'Vercel-CDN-Cache-Control': `public, s-maxage=${CACHE_DURATION}, stale-while-revalidate=60`,
-          } : {
-            'Cache-Control': 'no-store', // Don't cache check-cache responses
-          }),
+    const { lookup, forecast } = value;
+    const { readings, sources, outcomes } = lookup;
+
+    const headers = {
+      // "airnow=ok,aqicn=empty,purpleair=failed"
+      'X-Air-Quality-Providers': outcomes.map(({ provider, outcome }) => `${provider}=${outcome}`).join(','),
+      'X-Cache': status,
+      'X-Cache-Cell': cell.id,
+      'X-Cache-Age': String(age),
+      // Same meaning as on the fire routes: true when serving a last good copy
+      'X-Data-Stale': String(status === 'FALLBACK'),
+      'X-Data-As-Of': new Date(Date.now() - age * 1000).toISOString(),
+      'X-Response-Time': `${Date.now() - startTime}ms`
+    };
+
+    if (readings.length === 0) {
+      const unavailable = isProviderOutage(lookup);
+      console.warn(`[Air Quality API] [${requestId}] No readings: ${headers['X-Air-Quality-Providers']}`);
+      return NextResponse.json(
+        {
+          error: unavailable
+            ? 'Air quality providers are unavailable'
+            : 'No air quality data available for this location'
         },
-      });
+        { status: unavailable ? 502 : 404, headers: { ...headers, 'Cache-Control': 'no-store' } }
+      );
     }
 
-    // If no AirNow data, try AQICN
-    console.log('No AirNow data available, trying AQICN fallback');
-    try {
-      const aqicnData = await fetchAQICNData(latitude, longitude);
-      if (aqicnData) {
-        console.log('Got AQICN data');
-        return new NextResponse(JSON.stringify(aqicnData), {
-          status: 200,
-          headers: {
-            'Content-Type': 'application/json',
-            // Cache headers for fresh data (from exact coordinates)
-            ...(requestType === 'fetch-fresh' ? {
-              'Cache-Control': 'public, max-age=0',
-              'CDN-Cache-Control': `public, s-maxage=${CACHE_DURATION}`,
-              'Vercel-CDN-Cache-Control': `public, s-maxage=${CACHE_DURATION}, stale-while-revalidate=60`,
-            } : {
-              'Cache-Control': 'no-store', // Don't cache check-cache responses
-            }),
-          },
-        });
+    console.log(`[Air Quality API] [${requestId}] Cache ${status} for cell ${cell.id}: ${readings.length} readings from ${sources.join(', ')}, ${forecast.days.length} forecast days from ${forecast.source ?? 'none'}`);
+    return NextResponse.json({ observations: readings, forecast: forecast.days }, {
+      headers: {
+        ...(status === 'FALLBACK' ? FALLBACK_CACHE_HEADERS : CACHE_HEADERS),
+        ...headers,
+        'X-Air-Quality-Sources': sources.join(','),
+        'X-Air-Quality-Forecast-Source': forecast.source ?? 'none'
       }
-    } catch (aqicnError) {
-      console.error('AQICN fallback failed:', aqicnError);
-    }
-
-    // No data from any source
-    return NextResponse.json(
-      { error: 'No air quality data available for this location' },
-      { status: 404 }
-    );
-
+    });
   } catch (error) {
-    console.error('Error fetching air quality data:', error);
+    if (error instanceof RateLimitedError) {
+      console.warn(`[Air Quality API] [${requestId}] Cell rate limited, retry after ${error.result.retryAfterSeconds}s`);
+      return rateLimitResponse(error.result);
+    }
+    console.error(`[Air Quality API] [${requestId}] Error:`, error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to fetch air quality data' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getAlertServices, runAlertCheck } from '@/utils/alerts';
+import { errorResponse } from '@/utils/apiErrors';
+import { fetchActiveFires, fetchEvacuations } from '@/utils/upstream';
+
+// Called on a schedule by the cron in vercel.json. web-push needs Node crypto.
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+export async function GET(request: Request) {
+  const startTime = Date.now();
+  const requestId = Math.random().toString(36).substring(7);
+
+  // Vercel sends CRON_SECRET as a bearer token; without one the job is open
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: NO_STORE });
+  }
+
+  try {
+    console.log(`[Alerts Check] [${requestId}] Started at ${new Date().toISOString()}`);
+
+    // Same data /api/fires and /api/evacuations serve
+    const [fires, evacuations] = await Promise.all([
+      fetchActiveFires(),
+      fetchEvacuations()
+    ]);
+
+    // Fallback data says nothing new about the world, so there's nothing to do
+    if (fires.stale || evacuations.stale) {
+      console.warn(`[Alerts Check] [${requestId}] Skipped, upstream data is stale`);
+      return NextResponse.json({ skipped: 'stale' }, { headers: NO_STORE });
+    }
+
+    const result = await runAlertCheck(fires.features, evacuations.features, getAlertServices());
+
+    const duration = Math.round(Date.now() - startTime);
+    console.log(`[Alerts Check] [${requestId}] Completed in ${duration}ms | Baseline: ${result.baseline} | Events: ${result.events} | Sent: ${result.sent} | Expired: ${result.expired} | Failed: ${result.failed}`);
+
+    return NextResponse.json(result, { headers: { ...NO_STORE, 'X-Response-Time': duration.toString() } });
+  } catch (error) {
+    console.error(`[Alerts Check] [${requestId}] Error:`, error);
+    return errorResponse(error, 'Alert check failed', NO_STORE);
+  }
+}
@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DELETE, POST } from '@/app/api/alerts/subscribe/route';
+import { getAlertServices } from '@/utils/alerts';
+import { isPushServiceEndpoint } from '@/utils/pushSender';
+
+const P256DH = 'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM';
+const AUTH = 'tBHItJI5svbpez7KI4CCXg';
+
+let clients = 0;
+function subscribe(body: unknown, ip = `10.9.0.${++clients % 250}`) {
+  return POST(new Request('http://localhost/api/alerts/subscribe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': ip },
+    body: JSON.stringify(body)
+  }));
+}
+
+function validBody(overrides: Record<string, unknown> = {}) {
+  return {
+    subscription: { endpoint: 'https://fcm.googleapis.com/fcm/send/abc123', keys: { p256dh: P256DH, auth: AUTH } },
+    placeId: 'home01',
+    name: 'Home',
+    lat: 34.19,
+    lng: -118.13,
+    radius: 25,
+    ...overrides
+  };
+}
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+describe('isPushServiceEndpoint', () => {
+  it.each([
+    ['https://fcm.googleapis.com/fcm/send/abc', true],
+    ['https://updates.push.services.mozilla.com/wpush/v2/abc', true],
+    ['https://web.push.apple.com/QGx', true],
+    ['https://wns2-by3p.notify.windows.com/w/?token=abc', true],
+    ['http://fcm.googleapis.com/fcm/send/abc', false],
+    ['https://fcm.googleapis.com:8443/fcm/send/abc', false],
+    ['https://user@fcm.googleapis.com/fcm/send/abc', false],
+    ['https://fcm.googleapis.com.evil.example/abc', false],
+    ['https://evilpush.apple.com.example/abc', false],
+    ['https://169.254.169.254/latest/meta-data', false],
+    ['not a url', false]
+  ])('%s -> %s', (endpoint, expected) => {
+    expect(isPushServiceEndpoint(endpoint)).toBe(expected);
+  });
+});
+
+describe('POST /api/alerts/subscribe', () => {
+  it('stores a valid subscription and returns the validated radius', async () => {
+    const response = await subscribe(validBody());
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({ radius: 25 });
+  });
+
+  it('rejects endpoints outside the known push services', async () => {
+    const response = await subscribe(validBody({
+      subscription: { endpoint: 'https://internal.example/hook', keys: { p256dh: P256DH, auth: AUTH } }
+    }));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_REQUEST', param: 'subscription' });
+  });
+
+  it.each([
+    ['endpoint that is not a string', { subscription: { endpoint: ['https://fcm.googleapis.com/x'], keys: { p256dh: P256DH, auth: AUTH } } }, 'subscription'],
+    ['keys that are not strings', { subscription: { endpoint: 'https://fcm.googleapis.com/x', keys: { p256dh: 1, auth: AUTH } } }, 'subscription'],
+    ['a placeId with a separator', { placeId: 'a|b' }, 'placeId'],
+    ['a name that is not a string', { name: { first: 'x' } }, 'name'],
+    ['coordinates given as strings', { lat: '34.19' }, 'lat'],
+    ['a radius given as a string', { radius: '25' }, 'radius'],
+    ['a radius over the limit', { radius: 500 }, 'radius']
+  ])('rejects %s', async (_, overrides, param) => {
+    const response = await subscribe(validBody(overrides));
+    expect(response.status).toBe(400);
+    expect((await response.json()).param).toBe(param);
+  });
+
+  it('rejects bodies that are not JSON objects', async () => {
+    expect((await subscribe([1, 2])).status).toBe(400);
+    expect((await subscribe('text')).status).toBe(400);
+  });
+
+  it('caps places per browser but still allows updates', async () => {
+    const endpoint = 'https://updates.push.services.mozilla.com/wpush/v2/capped';
+    const body = (placeId: string, radius = 10) => validBody({
+      subscription: { endpoint, keys: { p256dh: P256DH, auth: AUTH } },
+      placeId,
+      radius
+    });
+
+    for (let i = 0; i < 10; i++) {
+      expect((await subscribe(body(`place${i}`))).status).toBe(201);
+    }
+    expect((await subscribe(body('place10'))).status).toBe(400);
+    expect((await subscribe(body('place3', 50))).status).toBe(201);
+    expect(await getAlertServices().subscriptions.idsForEndpoint(endpoint)).toHaveLength(10);
+
+    const removed = await DELETE(new Request('http://localhost/api/alerts/subscribe', {
+      method: 'DELETE',
+      body: JSON.stringify({ endpoint, placeId: 'place0' })
+    }));
+    expect(removed.status).toBe(204);
+    expect((await subscribe(body('place10'))).status).toBe(201);
+  });
+
+  it('rate limits each client', async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 11; i++) {
+      const subscription = { endpoint: `https://fcm.googleapis.com/fcm/send/limited${i}`, keys: { p256dh: P256DH, auth: AUTH } };
+      statuses.push((await subscribe(validBody({ subscription }), '10.8.0.1')).status);
+    }
+    expect(statuses.slice(0, 10).every((status) => status === 201)).toBe(true);
+    expect(statuses[10]).toBe(429);
+  });
+});
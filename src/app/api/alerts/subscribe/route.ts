@@ -0,0 +1,159 @@
+import { NextResponse } from 'next/server';
+import { rateLimitResponse, validationErrorResponse } from '@/utils/apiErrors';
+import { getAlertServices } from '@/utils/alerts';
+import { subscriptionId } from '@/utils/alertStore';
+import type { AlertSubscription } from '@/utils/alertStore';
+import { isPushServiceEndpoint } from '@/utils/pushSender';
+import { checkRateLimits, getRateLimitClientKey } from '@/utils/rateLimit';
+import type { RateLimitRule } from '@/utils/rateLimit';
+import { validateCoordinates, validateRadius } from '@/utils/requestValidation';
+import { MAX_SAVED_PLACES } from '@/utils/savedPlaces';
+
+// Node runtime so the in-memory fallback store is shared with /api/alerts/check
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Radius in miles
+const DEFAULT_RADIUS = 10;
+const MAX_RADIUS = 100;
+
+// Every subscription is stored and pushed to on each check, so writes are
+// limited per client and the store is capped overall
+const SUBSCRIBE_RATE_LIMIT: RateLimitRule = { capacity: 10, refillPerSecond: 10 / 3600 };
+const MAX_SUBSCRIPTIONS = 50000;
+
+// Push keys are URL-safe base64: a 65-byte P-256 key and a 16-byte secret
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+={0,2}$/;
+const MAX_KEY_LENGTH = 128;
+// Saved place ids are short random strings; "|" would break subscription ids
+const PLACE_ID_PATTERN = /^[\w-]{1,64}$/;
+
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+// Everything arrives as untrusted JSON, so nothing is assumed about types
+interface SubscribeBody {
+  subscription?: { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } };
+  placeId?: unknown;
+  name?: unknown;
+  lat?: unknown;
+  lng?: unknown;
+  radius?: unknown;
+}
+
+function badRequest(param: string, message: string) {
+  return validationErrorResponse({ param, message });
+}
+
+function isPushKey(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_KEY_LENGTH && BASE64URL_PATTERN.test(value);
+}
+
+async function readBody<T>(request: Request): Promise<T | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function POST(request: Request) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  const rateLimit = await checkRateLimits([
+    { key: `alerts-subscribe:${await getRateLimitClientKey(request.headers)}`, rule: SUBSCRIBE_RATE_LIMIT }
+  ]);
+  if (rateLimit && !rateLimit.allowed) {
+    console.warn(`[Alerts API] [${requestId}] Rate limited, retry after ${rateLimit.retryAfterSeconds}s`);
+    return rateLimitResponse(rateLimit);
+  }
+
+  const body = await readBody<SubscribeBody>(request);
+  if (!body) return badRequest('body', 'Request body must be a JSON object');
+
+  const { subscription, placeId, name, lat, lng, radius = DEFAULT_RADIUS } = body;
+  const endpoint = subscription?.endpoint;
+  const p256dh = subscription?.keys?.p256dh;
+  const auth = subscription?.keys?.auth;
+
+  if (typeof endpoint !== 'string' || !isPushKey(p256dh) || !isPushKey(auth)) {
+    return badRequest('subscription', 'A push subscription with endpoint and keys is required');
+  }
+  if (!isPushServiceEndpoint(endpoint)) {
+    return badRequest('subscription', 'Push endpoint must belong to a known push service');
+  }
+  if (typeof placeId !== 'string' || !PLACE_ID_PATTERN.test(placeId)) {
+    return badRequest('placeId', 'placeId is required');
+  }
+  if (name !== undefined && typeof name !== 'string') {
+    return badRequest('name', 'name must be a string');
+  }
+  const coordinates = validateCoordinates(lat, lng);
+  if (!coordinates.ok) return validationErrorResponse(coordinates.issue);
+  const validRadius = validateRadius(radius, MAX_RADIUS);
+  if (!validRadius.ok) return validationErrorResponse(validRadius.issue);
+
+  const id = subscriptionId(endpoint, placeId);
+  const { subscriptions } = getAlertServices();
+
+  const record: AlertSubscription = {
+    id,
+    endpoint,
+    keys: { p256dh, auth },
+    placeId,
+    name: name && name.trim() ? name.trim().slice(0, 60) : 'your saved place',
+    lat: coordinates.value.lat,
+    lng: coordinates.value.lng,
+    radius: validRadius.value,
+    createdAt: Date.now()
+  };
+
+  try {
+    // Updating an existing place is always allowed; new ones count against the caps
+    const existing = await subscriptions.idsForEndpoint(endpoint);
+    if (!existing.includes(id)) {
+      if (existing.length >= MAX_SAVED_PLACES) {
+        return badRequest('placeId', `Alerts can be turned on for at most ${MAX_SAVED_PLACES} places per browser`);
+      }
+      if (await subscriptions.count() >= MAX_SUBSCRIPTIONS) {
+        console.error(`[Alerts API] [${requestId}] Subscription store is full`);
+        return NextResponse.json(
+          { error: 'Alert subscriptions are not available right now' },
+          { status: 503, headers: NO_STORE }
+        );
+      }
+    }
+
+    await subscriptions.save(record);
+    console.log(`[Alerts API] [${requestId}] Subscribed place ${placeId} with radius ${validRadius.value}mi`);
+    return NextResponse.json({ id: record.id, radius: validRadius.value }, { status: 201, headers: NO_STORE });
+  } catch (error) {
+    console.error(`[Alerts API] [${requestId}] Subscribe error:`, error);
+    return NextResponse.json(
+      { error: 'Failed to save alert subscription' },
+      { status: 500, headers: NO_STORE }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  const requestId = Math.random().toString(36).substring(7);
+  const body = await readBody<{ endpoint?: unknown; placeId?: unknown }>(request);
+  const endpoint = typeof body?.endpoint === 'string' ? body.endpoint : '';
+  const placeId = typeof body?.placeId === 'string' ? body.placeId : '';
+  if (!endpoint || !placeId) {
+    return badRequest(endpoint ? 'placeId' : 'endpoint', 'endpoint and placeId are required');
+  }
+
+  try {
+    await getAlertServices().subscriptions.remove(subscriptionId(endpoint, placeId));
+    console.log(`[Alerts API] [${requestId}] Unsubscribed place ${placeId}`);
+    return new NextResponse(null, { status: 204, headers: NO_STORE });
+  } catch (error) {
+    console.error(`[Alerts API] [${requestId}] Unsubscribe error:`, error);
+    return NextResponse.json(
+      { error: 'Failed to remove alert subscription' },
+      { status: 500, headers: NO_STORE }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/changes/route';
+
+function request(query: string) {
+  return GET(new NextRequest(`http://localhost/api/changes?since=${Date.now() - 60 * 60 * 1000}&${query}`));
+}
+
+describe('GET /api/changes', () => {
+  it('rejects a radius without coordinates like the other area routes', async () => {
+    const response = await request('radius=10');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_REQUEST', param: 'radius' });
+  });
+
+  it('rejects a malformed bbox', async () => {
+    const response = await request('bbox=-123,37,-121');
+    expect(response.status).toBe(400);
+    expect((await response.json()).param).toBe('bbox');
+  });
+});
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validationErrorResponse } from '@/utils/apiErrors';
+import { filterChangesByArea } from '@/utils/areaFilter';
+import { summarizeChanges } from '@/utils/changes';
+import { HISTORY_RETENTION_MS, getHistoryStore } from '@/utils/history';
+import { parseAreaQuery } from '@/utils/requestValidation';
+
+// Node runtime for the file-backed history store used in local development
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Radius in miles
+const DEFAULT_RADIUS = 25;
+const MAX_RADIUS = 500;
+
+// Accepts epoch milliseconds or anything Date.parse understands
+function parseSince(value: string | null): number | null {
+  if (!value) return null;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = Math.random().toString(36).substring(7);
+
+  const searchParams = request.nextUrl.searchParams;
+  const since = parseSince(searchParams.get('since'));
+
+  if (since === null || since > startTime) {
+    return validationErrorResponse({
+      param: 'since',
+      message: 'since must be a past timestamp (epoch milliseconds or ISO 8601)'
+    });
+  }
+
+  const area = parseAreaQuery(searchParams, { defaultRadius: DEFAULT_RADIUS, maxRadius: MAX_RADIUS });
+  if (!area.ok) return validationErrorResponse(area.issue);
+
+  try {
+    console.log(`[Changes API] [${requestId}] Request received at ${new Date().toISOString()}`);
+
+    // Nothing older than the retention window is kept anyway
+    const from = Math.max(since, startTime - HISTORY_RETENTION_MS);
+    const store = getHistoryStore();
+    const [baseline, latest, recorded] = await Promise.all([
+      store.latestAt(from),
+      store.latestAt(startTime),
+      store.listChangesAfter(from)
+    ]);
+
+    const changes = filterChangesByArea(summarizeChanges(recorded), area.value);
+
+    const duration = Math.round(Date.now() - startTime);
+    console.log(`[Changes API] [${requestId}] Completed in ${duration}ms | Recorded: ${recorded.length} | Changes: ${changes.length}`);
+
+    return NextResponse.json(
+      {
+        since: from,
+        // Null when no snapshot predates `since`, so early changes may be missing
+        baselineAt: baseline ? baseline.takenAt : null,
+        asOf: latest ? latest.takenAt : null,
+        truncated: from > since,
+        changes
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=60',
+          'Vercel-CDN-Cache-Control': 'public, s-maxage=300',
+          'CDN-Cache-Control': 'public, s-maxage=300',
+          'X-Response-Time': duration.toString()
+        }
+      }
+    );
+  } catch (error) {
+    console.error(`[Changes API] [${requestId}] Error:`, error);
+    return NextResponse.json(
+      { error: 'Failed to load change history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,62 +1,78 @@
-import { NextResponse } from 'next/server';
-import type { EvacuationData } from '@/types';
+import { NextRequest, NextResponse } from 'next/server';
+import { EVACUATION_HAZARDS, EVACUATION_STATUSES, parseFilterList } from '@/utils/evacuationStatus';
+import { errorResponse, validationErrorResponse } from '@/utils/apiErrors';
+import { filterPolygonsByArea } from '@/utils/areaFilter';
+import { parseAreaQuery } from '@/utils/requestValidation';
+import { fetchEvacuations, formatIssues } from '@/utils/upstream';
+import { STALE_MAX_AGE, upstreamHeaders } from '@/utils/upstreamHeaders';
 
 // Make this an Edge Function for better latency
 export const runtime = 'edge';
 
-export async function GET(request: Request) {
+// Radius in miles
+const DEFAULT_RADIUS = 25;
+const MAX_RADIUS = 500;
+
+export async function GET(request: NextRequest) {
   const startTime = Date.now();
   const requestId = Math.random().toString(36).substring(7);
 
+  // Optional filters, e.g. ?status=order,warning&hazard=fire&bbox=-123,37,-121,38
+  const searchParams = request.nextUrl.searchParams;
+  const statuses = parseFilterList(searchParams.get('status'), EVACUATION_STATUSES);
+  const hazards = parseFilterList(searchParams.get('hazard'), EVACUATION_HAZARDS);
+
+  if (!statuses) {
+    return validationErrorResponse({
+      param: 'status',
+      message: `Invalid status filter. Allowed values: ${EVACUATION_STATUSES.join(', ')}`
+    });
+  }
+
+  if (!hazards) {
+    return validationErrorResponse({
+      param: 'hazard',
+      message: `Invalid hazard filter. Allowed values: ${EVACUATION_HAZARDS.join(', ')}`
+    });
+  }
+
+  const area = parseAreaQuery(searchParams, { defaultRadius: DEFAULT_RADIUS, maxRadius: MAX_RADIUS });
+  if (!area.ok) return validationErrorResponse(area.issue);
+
   try {
     console.log(`[Evac API] [${requestId}] Request received at ${new Date().toISOString()}`);
-    
-    const response = await fetch(
-      process.env.NEXT_PUBLIC_EVACUATION_API_URL as string,
-      {
-        headers: {
-          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=60',
-          'Vercel-CDN-Cache-Control': 'public, s-maxage=3600',
-          'CDN-Cache-Control': 'public, s-maxage=3600'
-        }
-      }
-    );
 
-    if (!response.ok) {
-      console.error(`[Evac API] [${requestId}] External API error: ${response.status} ${response.statusText}`);
-      throw new Error('Failed to fetch evacuation data');
+    const evacuations = await fetchEvacuations({
+      statuses: statuses.length > 0 ? statuses : undefined,
+      hazards
+    });
+    const { rejected, cacheStatus } = evacuations;
+    const activeEvacuations = filterPolygonsByArea(evacuations.features, area.value);
+    if (rejected > 0) {
+      console.warn(`[Evac API] [${requestId}] Quarantined ${rejected} malformed features: ${formatIssues(evacuations.issues)}`);
     }
 
-    const data: EvacuationData = await response.json();
-    const activeEvacuations = data.features.filter(
-      (zone) => 
-        zone.properties.zone_status === "Evacuation Order" && 
-        zone.properties.zone_status_reason?.toLowerCase().indexOf('flooding') === -1
-    );
-
     // Log performance and cache status
     const endTime = Date.now();
     const duration = Math.round(endTime - startTime);
-    const cacheStatus = response.headers.get('x-vercel-cache') || 'MISS';
-    console.log(`[Evac API] [${requestId}] Completed in ${duration}ms | Cache: ${cacheStatus} | Active Zones: ${activeEvacuations.length}`);
+    console.log(`[Evac API] [${requestId}] Completed in ${duration}ms | Cache: ${cacheStatus} | Zones: ${activeEvacuations.length} | Rejected: ${rejected}`);
 
+    const maxAge = evacuations.stale ? STALE_MAX_AGE : 3600;
     return NextResponse.json(
-      { features: activeEvacuations },
+      { features: activeEvacuations, asOf: evacuations.asOf },
       {
         headers: {
-          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=60',
-          'Vercel-CDN-Cache-Control': 'public, s-maxage=3600',
-          'CDN-Cache-Control': 'public, s-maxage=3600',
+          'Cache-Control': `public, s-maxage=${maxAge}, stale-while-revalidate=60`,
+          'Vercel-CDN-Cache-Control': `public, s-maxage=${maxAge}`,
+          'CDN-Cache-Control': `public, s-maxage=${maxAge}`,
           'X-Response-Time': duration.toString(),
-          'X-Cache-Status': cacheStatus
+          'X-Cache-Status': cacheStatus,
+          ...upstreamHeaders({ evacuations })
         },
       }
     );
   } catch (error) {
     console.error(`[Evac API] [${requestId}] Error:`, error);
-    return NextResponse.json(
-      { error: 'Failed to fetch evacuation data' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to fetch evacuation data');
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, validationErrorResponse } from '@/utils/apiErrors';
+import { filterPolygonsByArea } from '@/utils/areaFilter';
+import { parseAreaQuery } from '@/utils/requestValidation';
+import { fetchFirePerimeters, formatIssues } from '@/utils/upstream';
+import { STALE_MAX_AGE, upstreamHeaders } from '@/utils/upstreamHeaders';
+
+export const runtime = 'edge';
+
+// Radius in miles
+const DEFAULT_RADIUS = 25;
+const MAX_RADIUS = 500;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = Math.random().toString(36).substring(7);
+
+  const area = parseAreaQuery(request.nextUrl.searchParams, { defaultRadius: DEFAULT_RADIUS, maxRadius: MAX_RADIUS });
+  if (!area.ok) return validationErrorResponse(area.issue);
+
+  try {
+    console.log(`[Perimeters API] [${requestId}] Request received at ${new Date().toISOString()}`);
+
+    const result = await fetchFirePerimeters();
+    const { rejected, cacheStatus } = result;
+    const perimeters = filterPolygonsByArea(result.features, area.value);
+    if (rejected > 0) {
+      console.warn(`[Perimeters API] [${requestId}] Quarantined ${rejected} malformed features: ${formatIssues(result.issues)}`);
+    }
+
+    // Log performance and cache status
+    const endTime = Date.now();
+    const duration = Math.round(endTime - startTime);
+    console.log(`[Perimeters API] [${requestId}] Completed in ${duration}ms | Cache: ${cacheStatus} | Perimeters: ${perimeters.length} | Rejected: ${rejected}`);
+
+    const maxAge = result.stale ? STALE_MAX_AGE : 3600;
+    return NextResponse.json(
+      { features: perimeters, asOf: result.asOf },
+      {
+        headers: {
+          'Cache-Control': `public, s-maxage=${maxAge}, stale-while-revalidate=60`,
+          'Vercel-CDN-Cache-Control': `public, s-maxage=${maxAge}`,
+          'CDN-Cache-Control': `public, s-maxage=${maxAge}`,
+          'X-Response-Time': duration.toString(),
+          'X-Cache-Status': cacheStatus,
+          ...upstreamHeaders({ perimeters: result })
+        },
+      }
+    );
+  } catch (error) {
+    console.error(`[Perimeters API] [${requestId}] Error:`, error);
+    return errorResponse(error, 'Failed to fetch fire perimeter data');
+  }
+}
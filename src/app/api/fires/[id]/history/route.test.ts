@@ -0,0 +1,11 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/fires/[id]/history/route';
+
+describe('GET /api/fires/[id]/history', () => {
+  it('answers a malformed escape in the id with a 400', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/fires/50%25/history'), { params: { id: '50%' } });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_REQUEST', param: 'id' });
+  });
+});
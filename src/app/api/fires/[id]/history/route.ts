@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validationErrorResponse } from '@/utils/apiErrors';
+import { computeFireTrendStats, toFireSeries } from '@/utils/fireTrends';
+import { HISTORY_RETENTION_MS, getHistoryStore } from '@/utils/history';
+
+// Node runtime for the file-backed history store used in local development
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const startTime = Date.now();
+  const requestId = Math.random().toString(36).substring(7);
+
+  let fireId: string;
+  try {
+    fireId = decodeURIComponent(params.id).toLowerCase();
+  } catch {
+    // A stray % in the path, e.g. /api/fires/50%/history
+    return validationErrorResponse({ param: 'id', message: 'Fire id is not a valid URL component' });
+  }
+
+  try {
+    console.log(`[Fire History API] [${requestId}] Request received at ${new Date().toISOString()} | Fire: ${fireId}`);
+
+    const store = getHistoryStore();
+    const [stored, latest] = await Promise.all([
+      store.listFirePointsAfter(fireId, startTime - HISTORY_RETENTION_MS),
+      store.latestAt(startTime)
+    ]);
+
+    // A fire still burning is extended to the latest snapshot
+    const current = latest?.fires.find((fire) => fire.id === fireId);
+    const lastStored = stored[stored.length - 1];
+    const firePoints = latest && current && (!lastStored || lastStored.takenAt < latest.takenAt)
+      ? [...stored, { takenAt: latest.takenAt, fire: current }]
+      : stored;
+    const points = toFireSeries(firePoints);
+
+    // The newest record has the current name and start date
+    const record = firePoints.length > 0 ? firePoints[firePoints.length - 1].fire : null;
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'No history recorded for this fire' },
+        { status: 404 }
+      );
+    }
+
+    const duration = Math.round(Date.now() - startTime);
+    console.log(`[Fire History API] [${requestId}] Completed in ${duration}ms | Points: ${points.length}`);
+
+    return NextResponse.json(
+      {
+        fireId,
+        name: record.name,
+        started: record.started,
+        points,
+        stats: computeFireTrendStats(points, record.started, startTime)
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=60',
+          'Vercel-CDN-Cache-Control': 'public, s-maxage=300',
+          'CDN-Cache-Control': 'public, s-maxage=300',
+          'X-Response-Time': duration.toString()
+        }
+      }
+    );
+  } catch (error) {
+    console.error(`[Fire History API] [${requestId}] Error:`, error);
+    return NextResponse.json(
+      { error: 'Failed to load fire history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,60 +1,56 @@
-import { NextResponse } from 'next/server';
-import type { FireData } from '@/types';
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, validationErrorResponse } from '@/utils/apiErrors';
+import { filterFiresByArea } from '@/utils/areaFilter';
+import { parseAreaQuery } from '@/utils/requestValidation';
+import { fetchActiveFires, formatIssues } from '@/utils/upstream';
+import { STALE_MAX_AGE, upstreamHeaders } from '@/utils/upstreamHeaders';
 
 // Add this to make it an Edge Function
 export const runtime = 'edge';
 
-export async function GET(request: Request) {
+// Radius in miles
+const DEFAULT_RADIUS = 25;
+const MAX_RADIUS = 500;
+
+export async function GET(request: NextRequest) {
   const startTime = Date.now();
   const requestId = Math.random().toString(36).substring(7);
 
+  // Optional area, e.g. ?bbox=-123,37,-121,38 or ?lat=37.7&lng=-122.4&radius=50
+  const area = parseAreaQuery(request.nextUrl.searchParams, { defaultRadius: DEFAULT_RADIUS, maxRadius: MAX_RADIUS });
+  if (!area.ok) return validationErrorResponse(area.issue);
+
   try {
     console.log(`[Fires API] [${requestId}] Request received at ${new Date().toISOString()}`);
-    
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_FIRE_API_URL}?inactive=true`,
-      {
-        headers: {
-          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=60',
-          'Vercel-CDN-Cache-Control': 'public, s-maxage=3600',
-          'CDN-Cache-Control': 'public, s-maxage=3600'
-        }
-      }
-    );
 
-    if (!response.ok) {
-      console.error(`[Fires API] [${requestId}] External API error: ${response.status} ${response.statusText}`);
-      throw new Error('Failed to fetch fire data');
+    const fires = await fetchActiveFires();
+    const { cacheStatus } = fires;
+    const activeFires = filterFiresByArea(fires.features, area.value);
+    if (fires.rejected > 0) {
+      console.warn(`[Fires API] [${requestId}] Quarantined ${fires.rejected} malformed features: ${formatIssues(fires.issues)}`);
     }
 
-    const data: FireData = await response.json();
-    const activeFires = data.features.filter(
-      (fire) => fire.properties.IsActive
-    );
-
     // Log performance and cache status
     const endTime = Date.now();
     const duration = Math.round(endTime - startTime);
-    const cacheStatus = response.headers.get('x-vercel-cache') || 'MISS';
-    console.log(`[Fires API] [${requestId}] Completed in ${duration}ms | Cache: ${cacheStatus} | Active Fires: ${activeFires.length}`);
+    console.log(`[Fires API] [${requestId}] Completed in ${duration}ms | Cache: ${cacheStatus} | Active Fires: ${activeFires.length} | Rejected: ${fires.rejected}`);
 
+    const maxAge = fires.stale ? STALE_MAX_AGE : 3600;
     return NextResponse.json(
-      { features: activeFires },
+      { features: activeFires, asOf: fires.asOf },
       {
         headers: {
-          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=60',
-          'Vercel-CDN-Cache-Control': 'public, s-maxage=3600',
-          'CDN-Cache-Control': 'public, s-maxage=3600',
+          'Cache-Control': `public, s-maxage=${maxAge}, stale-while-revalidate=60`,
+          'Vercel-CDN-Cache-Control': `public, s-maxage=${maxAge}`,
+          'CDN-Cache-Control': `public, s-maxage=${maxAge}`,
           'X-Response-Time': duration.toString(),
-          'X-Cache-Status': cacheStatus
+          'X-Cache-Status': cacheStatus,
+          ...upstreamHeaders({ fires })
         },
       }
     );
   } catch (error) {
     console.error(`[Fires API] [${requestId}] Error:`, error);
-    return NextResponse.json(
-      { error: 'Failed to fetch fire data' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to fetch fire data');
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
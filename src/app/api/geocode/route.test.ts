@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/geocode/route';
+
+// Only Date is faked, so the rate limiter follows the test clock
+vi.useFakeTimers({ toFake: ['Date'] });
+vi.setSystemTime(new Date('2026-01-15T12:00:00Z'));
+
+let clients = 0;
+function request(query: string, ip = `10.4.0.${++clients % 250}`) {
+  return GET(new NextRequest(`http://localhost/api/geocode?q=${encodeURIComponent(query)}`, {
+    headers: { 'x-forwarded-for': ip }
+  }));
+}
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('GET /api/geocode', () => {
+  it('limits each client', async () => {
+    vi.stubEnv('GEOCODING_PROVIDER', 'fixture');
+    const statuses: number[] = [];
+    for (let i = 0; i < 11; i++) {
+      statuses.push((await request('altadena', '10.5.0.1')).status);
+    }
+
+    expect(statuses.slice(0, 10).every((status) => status === 200)).toBe(true);
+    expect(statuses[10]).toBe(429);
+  });
+
+  it('answers typed coordinates without spending a token', async () => {
+    for (let i = 0; i < 12; i++) {
+      expect((await request('34.19, -118.13', '10.5.0.2')).status).toBe(200);
+    }
+  });
+
+  it('holds Nominatim to one request a second across clients', async () => {
+    const fetchMock = vi.fn(async () => Response.json([{ lat: '34.19', lon: '-118.13', display_name: 'Altadena' }]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect((await request('altadena')).status).toBe(200);
+    const limited = await request('pasadena');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('1');
+
+    vi.advanceTimersByTime(1000);
+    expect((await request('pasadena')).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up on a slow Nominatim with a 504', async () => {
+    vi.advanceTimersByTime(1000);
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      expect(init.signal).toBeInstanceOf(AbortSignal);
+      throw new DOMException('The operation timed out.', 'TimeoutError');
+    }));
+
+    expect((await request('altadena')).status).toBe(504);
+  });
+});
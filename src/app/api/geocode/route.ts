@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse, validationErrorResponse } from '@/utils/apiErrors';
+import { getGeocodingProvider, parseCoordinates } from '@/utils/geocoding';
+import { checkRateLimits, getRateLimitClientKey } from '@/utils/rateLimit';
+import type { RateLimitRule } from '@/utils/rateLimit';
+import { parseLimit } from '@/utils/requestValidation';
+
+export const runtime = 'edge';
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 10;
+const MAX_QUERY_LENGTH = 200;
+
+// Enough for a search box, with the CDN answering repeated queries
+const CLIENT_RATE_LIMIT: RateLimitRule = { capacity: 10, refillPerSecond: 10 / 60 };
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = Math.random().toString(36).substring(7);
+
+  const searchParams = request.nextUrl.searchParams;
+  const query = (searchParams.get('q') || '').trim();
+
+  if (!query) {
+    return validationErrorResponse({ param: 'q', message: 'A search query is required' });
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return validationErrorResponse({
+      param: 'q',
+      message: `Search query must be at most ${MAX_QUERY_LENGTH} characters`
+    });
+  }
+
+  const limit = parseLimit(searchParams, { defaultLimit: DEFAULT_LIMIT, maxLimit: MAX_LIMIT });
+  if (!limit.ok) return validationErrorResponse(limit.issue);
+
+  // Typed coordinates never need a provider round trip
+  const coordinates = parseCoordinates(query);
+  if (coordinates) {
+    return NextResponse.json(
+      { results: [coordinates] },
+      { headers: { 'X-Geocode-Provider': 'coordinates' } }
+    );
+  }
+
+  const provider = getGeocodingProvider();
+
+  // The client's bucket is checked first, so a client over its own limit
+  // doesn't use up the provider's shared budget
+  const clientLimit = await checkRateLimits([
+    { key: `geocode:${await getRateLimitClientKey(request.headers)}`, rule: CLIENT_RATE_LIMIT }
+  ]);
+  const rateLimit = clientLimit && !clientLimit.allowed
+    ? clientLimit
+    : provider.rateLimit && await checkRateLimits([{ key: `geocode:provider:${provider.name}`, rule: provider.rateLimit }]);
+  if (rateLimit && !rateLimit.allowed) {
+    console.warn(`[Geocode API] [${requestId}] Rate limited, retry after ${rateLimit.retryAfterSeconds}s`);
+    return rateLimitResponse(rateLimit);
+  }
+
+  try {
+    console.log(`[Geocode API] [${requestId}] Request received at ${new Date().toISOString()} | Provider: ${provider.name}`);
+
+    const results = await provider.geocode(query, limit.value);
+
+    const duration = Math.round(Date.now() - startTime);
+    console.log(`[Geocode API] [${requestId}] Completed in ${duration}ms | Results: ${results.length}`);
+
+    return NextResponse.json(
+      { results },
+      {
+        headers: {
+          // Places don't move, so answers can be cached for a day
+          'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=3600',
+          'Vercel-CDN-Cache-Control': 'public, s-maxage=86400',
+          'CDN-Cache-Control': 'public, s-maxage=86400',
+          'X-Response-Time': duration.toString(),
+          'X-Geocode-Provider': provider.name
+        }
+      }
+    );
+  } catch (error) {
+    console.error(`[Geocode API] [${requestId}] Error:`, error);
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      return NextResponse.json(
+        { error: 'Location lookup timed out' },
+        { status: 504 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to look up location' },
+      { status: 500 }
+    );
+  }
+}
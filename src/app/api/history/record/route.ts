@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/utils/apiErrors';
+import { getHistoryStore, recordHistorySnapshot } from '@/utils/history';
+import { fetchActiveFires, fetchEvacuations } from '@/utils/upstream';
+
+// Called on a schedule by the cron in vercel.json. Node runtime for the
+// file-backed history store used in local development.
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+export async function GET(request: Request) {
+  const startTime = Date.now();
+  const requestId = Math.random().toString(36).substring(7);
+
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: NO_STORE });
+  }
+
+  try {
+    console.log(`[History Record] [${requestId}] Started at ${new Date().toISOString()}`);
+
+    const [fires, evacuations] = await Promise.all([
+      fetchActiveFires(),
+      fetchEvacuations()
+    ]);
+
+    // Fallback data says nothing new about the world, so there's nothing to do
+    if (fires.stale || evacuations.stale) {
+      console.warn(`[History Record] [${requestId}] Skipped, upstream data is stale`);
+      return NextResponse.json({ skipped: 'stale' }, { headers: NO_STORE });
+    }
+
+    const result = await recordHistorySnapshot(getHistoryStore(), fires.features, evacuations.features);
+
+    const duration = Math.round(Date.now() - startTime);
+    console.log(`[History Record] [${requestId}] Completed in ${duration}ms | Recorded: ${result.recorded} | Pruned: ${result.pruned}`);
+
+    return NextResponse.json(result, { headers: { ...NO_STORE, 'X-Response-Time': duration.toString() } });
+  } catch (error) {
+    console.error(`[History Record] [${requestId}] Error:`, error);
+    return errorResponse(error, 'Failed to record history snapshot', NO_STORE);
+  }
+}
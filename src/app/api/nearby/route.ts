@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { bearingToCompass } from '@/utils/distance';
+import { isConfidentAssociation } from '@/utils/fireAssociation';
+import { joinPerimetersToFires } from '@/utils/firePerimeters';
+import { createFireIndex, createZoneIndex, findNearbyHazards } from '@/utils/nearby';
+import { errorResponse, validationErrorResponse } from '@/utils/apiErrors';
+import { parseCoordinates, parseLimit, parseRadius } from '@/utils/requestValidation';
+import { fetchActiveFires, fetchEvacuations, fetchFirePerimeters } from '@/utils/upstream';
+import { STALE_MAX_AGE, upstreamHeaders } from '@/utils/upstreamHeaders';
+import type { FireFeature } from '@/types';
+
+export const runtime = 'edge';
+
+// Radius in miles
+const DEFAULT_RADIUS = 25;
+const MAX_RADIUS = 500;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+function summarizeFire(fire: FireFeature) {
+  const { Name, County, Location, AcresBurned, PercentContained, Started, Updated, Latitude, Longitude } = fire.properties;
+  return { Name, County, Location, AcresBurned, PercentContained, Started, Updated, Latitude, Longitude };
+}
+
+function roundDistance(distance: number): number {
+  return Math.round(distance * 100) / 100;
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = Math.random().toString(36).substring(7);
+
+  const searchParams = request.nextUrl.searchParams;
+  const coordinates = parseCoordinates(searchParams);
+  if (!coordinates.ok) return validationErrorResponse(coordinates.issue);
+  const parsedRadius = parseRadius(searchParams, { defaultRadius: DEFAULT_RADIUS, maxRadius: MAX_RADIUS });
+  if (!parsedRadius.ok) return validationErrorResponse(parsedRadius.issue);
+  const parsedLimit = parseLimit(searchParams, { defaultLimit: DEFAULT_LIMIT, maxLimit: MAX_LIMIT });
+  if (!parsedLimit.ok) return validationErrorResponse(parsedLimit.issue);
+
+  const { lat: latitude, lng: longitude } = coordinates.value;
+  const radius = parsedRadius.value;
+  const limit = parsedLimit.value;
+
+  try {
+    console.log(`[Nearby API] [${requestId}] Request received at ${new Date().toISOString()}`);
+
+    // Perimeters only refine distances, so a failure there isn't fatal
+    const [fires, evacuations, perimeters] = await Promise.all([
+      fetchActiveFires(),
+      fetchEvacuations(),
+      fetchFirePerimeters().catch((error) => {
+        console.error(`[Nearby API] [${requestId}] Perimeter fetch failed:`, error);
+        return { features: [], rejected: 0, issues: {}, asOf: Date.now(), stale: false };
+      })
+    ]);
+
+    const nearby = findNearbyHazards(
+      latitude,
+      longitude,
+      createFireIndex(fires.features, joinPerimetersToFires(fires.features, perimeters.features)),
+      createZoneIndex(evacuations.features),
+      { radius, limit }
+    );
+
+    const stale = fires.stale || evacuations.stale || perimeters.stale;
+    const asOf = Math.min(fires.asOf, evacuations.asOf, perimeters.asOf);
+
+    const duration = Math.round(Date.now() - startTime);
+    console.log(`[Nearby API] [${requestId}] Completed in ${duration}ms | Fires: ${nearby.fires.length} | Zones: ${nearby.zones.length}`);
+
+    // Geometry is left out on purpose to keep the payload small
+    return NextResponse.json(
+      {
+        location: { lat: latitude, lng: longitude },
+        radius,
+        asOf,
+        stale,
+        fires: nearby.fires.map(({ fire, distance, measuredTo, inside, bearing }) => ({
+          fire: summarizeFire(fire),
+          distance: roundDistance(distance),
+          measuredTo,
+          inside,
+          bearing: bearing === null ? null : Math.round(bearing),
+          direction: bearing === null ? null : bearingToCompass(bearing)
+        })),
+        zones: nearby.zones.map(({ zone, distance, inside, bearing, association }) => ({
+          zone: zone.properties,
+          distance: roundDistance(distance),
+          inside,
+          bearing: bearing === null ? null : Math.round(bearing),
+          direction: bearing === null ? null : bearingToCompass(bearing),
+          associatedFire: association.fire && isConfidentAssociation(association)
+            ? summarizeFire(association.fire)
+            : null,
+          association: {
+            fireName: association.fire?.properties.Name ?? null,
+            confidence: association.confidence,
+            reasons: association.reasons
+          }
+        }))
+      },
+      {
+        headers: {
+          // Results depend on the exact coordinates, so only cache briefly
+          'Cache-Control': `public, s-maxage=${stale ? STALE_MAX_AGE : 300}, stale-while-revalidate=60`,
+          'X-Response-Time': duration.toString(),
+          ...upstreamHeaders({ fires, evacuations, perimeters })
+        },
+      }
+    );
+  } catch (error) {
+    console.error(`[Nearby API] [${requestId}] Error:`, error);
+    return errorResponse(error, 'Failed to fetch nearby hazards');
+  }
+}
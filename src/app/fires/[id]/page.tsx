@@ -0,0 +1,196 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { cache } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import AirQualityDisplay from '@/components/AirQualityDisplay';
+import { EvacuationStatusBadge } from '@/components/EvacuationStatusBadge';
+import { FireTrends } from '@/components/FireTrends';
+import { ViewerDistance } from '@/components/ViewerDistance';
+import { isConfidentAssociation, scoreFireForZone } from '@/utils/fireAssociation';
+import { joinPerimetersToFires } from '@/utils/firePerimeters';
+import { createZoneIndex, findPriorityZones } from '@/utils/nearby';
+import type { ZoneDistance } from '@/utils/nearby';
+import { fetchEvacuations, fetchFireById, fetchFirePerimeters } from '@/utils/upstream';
+import type { FireFeature, FirePerimeterFeature } from '@/types';
+
+// Matches the s-maxage of /api/fires
+export const revalidate = 3600;
+
+// Miles from the incident point
+const NEARBY_ZONE_RADIUS = 15;
+const MAX_NEARBY_ZONES = 10;
+
+interface FirePageProps {
+  params: { id: string };
+}
+
+function formatDate(value: string): string {
+  const time = Date.parse(value);
+  if (!Number.isFinite(time)) return 'Unknown';
+  return new Date(time).toLocaleString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'America/Los_Angeles',
+    timeZoneName: 'short'
+  });
+}
+
+function describeFire(fire: FireFeature): string {
+  const { AcresBurned, PercentContained, County, Started, IsActive } = fire.properties;
+  const started = Date.parse(Started);
+  return [
+    `${AcresBurned.toLocaleString()} acres`,
+    `${PercentContained}% contained`,
+    `${County} County`,
+    Number.isFinite(started)
+      ? `started ${new Date(started).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`
+      : null,
+    IsActive ? null : 'no longer active'
+  ].filter(Boolean).join(', ');
+}
+
+// generateMetadata and the page both need the fire; cache() makes that one
+// lookup per render. A malformed escape in the id is treated as not found.
+const getFire = cache(async (id: string): Promise<FireFeature | null> => {
+  let fireId: string;
+  try {
+    fireId = decodeURIComponent(id);
+  } catch {
+    return null;
+  }
+  return fetchFireById(fireId);
+});
+
+// Perimeters only sharpen which zones were issued for the fire, so a failed
+// fetch falls back to the incident point
+async function findFirePerimeter(fire: FireFeature): Promise<FirePerimeterFeature | undefined> {
+  try {
+    const { features } = await fetchFirePerimeters();
+    return joinPerimetersToFires([fire], features).get(fire);
+  } catch (error) {
+    console.error('[Fire Page] Failed to load fire perimeters:', error);
+    return undefined;
+  }
+}
+
+// Zones are supporting detail, so the page still renders without them
+async function findZonesNearFire(fire: FireFeature): Promise<ZoneDistance[] | null> {
+  try {
+    const { features } = await fetchEvacuations();
+    return findPriorityZones(fire.properties.Latitude, fire.properties.Longitude, createZoneIndex(features), {
+      limit: MAX_NEARBY_ZONES,
+      maxDistance: NEARBY_ZONE_RADIUS
+    });
+  } catch (error) {
+    console.error('[Fire Page] Failed to load evacuation zones:', error);
+    return null;
+  }
+}
+
+export async function generateMetadata({ params }: FirePageProps): Promise<Metadata> {
+  const fire = await getFire(params.id);
+  if (!fire) return { title: 'Fire not found | California Fire Tracker' };
+
+  const title = `${fire.properties.Name} | California Fire Tracker`;
+  const description = describeFire(fire);
+  return {
+    title,
+    description,
+    alternates: { canonical: `/fires/${params.id}` },
+    openGraph: {
+      title,
+      description,
+      type: 'article',
+      url: `/fires/${params.id}`,
+      siteName: 'California Fire Tracker'
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description
+    }
+  };
+}
+
+export default async function FirePage({ params }: FirePageProps) {
+  const fire = await getFire(params.id);
+  if (!fire) notFound();
+
+  const { properties } = fire;
+  const [zones, perimeter] = await Promise.all([findZonesNearFire(fire), findFirePerimeter(fire)]);
+
+  const details: Array<[string, string]> = [
+    ['Status', properties.IsActive ? 'Active' : 'Inactive'],
+    ['Location', `Near ${properties.Location}`],
+    ['County', properties.County],
+    ['Acres Burned', properties.AcresBurned.toLocaleString()],
+    ['Containment', `${properties.PercentContained}%`],
+    ['Started', formatDate(properties.Started)],
+    ['Last Updated', formatDate(properties.Updated)],
+    ['Coordinates', `${properties.Latitude.toFixed(4)}, ${properties.Longitude.toFixed(4)}`]
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <main className="max-w-2xl mx-auto bg-white rounded-lg shadow-md p-4">
+        <Link href="/" className="flex items-center gap-1 text-sm text-blue-700 hover:underline mb-3">
+          <ArrowLeft className="w-4 h-4" />
+          All fires
+        </Link>
+
+        <h1 className="text-2xl font-bold mb-1">{properties.Name}</h1>
+        <p className="text-sm text-gray-500 mb-4">{describeFire(fire)}</p>
+
+        <div className="bg-gray-100 border border-gray-300 rounded-lg p-3 mb-4">
+          <h2 className="text-xl font-bold mb-3">Details</h2>
+          <div className="space-y-2 text-sm pl-3">
+            {details.map(([label, value]) => (
+              <p key={label} className="flex">
+                <span className="font-bold">{label}:</span>
+                <span className="ml-2">{value}</span>
+              </p>
+            ))}
+            <ViewerDistance lat={properties.Latitude} lng={properties.Longitude} />
+          </div>
+        </div>
+
+        <FireTrends fire={fire} />
+
+        <div className="border border-gray-200 rounded-lg p-3 mb-4">
+          <h2 className="text-lg font-bold mb-1">Nearby Evacuation Zones</h2>
+          <p className="text-xs text-gray-400 mb-2">Within {NEARBY_ZONE_RADIUS} miles of the incident</p>
+          {zones === null ? (
+            <p className="text-sm text-gray-600">Evacuation zones are unavailable right now.</p>
+          ) : zones.length === 0 ? (
+            <p className="text-sm text-gray-600">No evacuation zones nearby.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {zones.map(({ zone, distance, inside }) => (
+                <li key={zone.properties.zone_id} className="flex items-center justify-between gap-3">
+                  <span>
+                    {zone.properties.zone_id}
+                    {isConfidentAssociation(scoreFireForZone(zone, fire, perimeter)) && (
+                      <span className="text-xs text-gray-500 ml-2">issued for this fire</span>
+                    )}
+                  </span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    <span className="text-xs text-gray-500">
+                      {inside ? 'Includes incident' : `${distance.toFixed(1)} mi`}
+                    </span>
+                    <EvacuationStatusBadge status={zone.properties.status} />
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <AirQualityDisplay lat={properties.Latitude} lng={properties.Longitude} />
+      </main>
+    </div>
+  );
+}
@@ -1,14 +1,55 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { RefreshCw, AlertTriangle, Flame } from 'lucide-react';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import AirQualityDisplay from '@/components/AirQualityDisplay';
-import { calculateDistance } from '@/utils/distance';
-import type { FireData, FireFeature, EvacuationData, EvacuationFeature } from '@/types';
+import { ChangeFeed } from '@/components/ChangeFeed';
+import { EVACUATION_STATUS_STYLES, EvacuationStatusBadge } from '@/components/EvacuationStatusBadge';
+import { EvacuationZoneCard } from '@/components/EvacuationZoneCard';
+import { FireCard } from '@/components/FireCard';
+import { FireList } from '@/components/FireList';
+import { FireTrends } from '@/components/FireTrends';
+import HazardMap from '@/components/HazardMap';
+import type { MapFocus, MapSelection } from '@/components/HazardMap';
+import { LocationPicker } from '@/components/LocationPicker';
+import { SavedPlaces } from '@/components/SavedPlaces';
+import { OfflineBanner } from '@/components/OfflineBanner';
+import { StaleDataWarning } from '@/components/StaleDataWarning';
+import { joinPerimetersToFires } from '@/utils/firePerimeters';
+import { countZonePoints, measureZone } from '@/utils/geometry';
+import { associateZoneWithFire } from '@/utils/fireAssociation';
+import { createFireIndex, createZoneIndex, measureFire, summarizeLocation } from '@/utils/nearby';
+import type { FireDistance, NearbyZone, ZoneDistance } from '@/utils/nearby';
+import { isActiveEvacuationStatus } from '@/utils/evacuationStatus';
+import { formatCoordinates } from '@/utils/geocoding';
+import { getOfflineCachedAt, isServiceWorkerSupported, registerServiceWorker } from '@/utils/serviceWorker';
+import type { UpstreamSource } from '@/utils/upstreamClient';
+import type { FireData, FireFeature, EvacuationData, EvacuationFeature, FirePerimeterData, FirePerimeterFeature, SavedPlace, UserLocation } from '@/types';
 import { Analytics } from '@vercel/analytics/react';
 import { SpeedInsights } from '@vercel/speed-insights/react';
 
+// Extra zones listed under the main evacuation card, and how far out to look
+const MAX_LISTED_ZONES = 4;
+const LISTED_ZONE_RADIUS = 25;
+// Map zoom when jumping to a searched location
+const SEARCH_FOCUS_ZOOM = 10;
+// Map zoom when a fire is picked from the list
+const FIRE_FOCUS_ZOOM = 11;
+
+type SourceTimes = Partial<Record<UpstreamSource, number>>;
+
+// Sets or clears one source's timestamp
+function withSourceTime(current: SourceTimes, source: UpstreamSource, time: number | null): SourceTimes {
+  const next = { ...current };
+  if (time) {
+    next[source] = time;
+  } else {
+    delete next[source];
+  }
+  return next;
+}
+
 // Debug function to check if Tailwind classes are being processed
 const debugStyles = () => {
   console.log('Checking Tailwind processing...');
@@ -34,10 +75,12 @@ export default function Home() {
     console.log('Current CSS classes loaded:', document.styleSheets);
   }, []);
 
-  const [location, setLocation] = useState<GeolocationPosition | null>(null);
+  // GPS fixes and manually chosen places are interchangeable from here on
+  const [location, setLocation] = useState<UserLocation | null>(null);
   const [locationError, setLocationError] = useState<string>('');
   const [fireData, setFireData] = useState<FireFeature[]>([]);
   const [evacuationData, setEvacuationData] = useState<EvacuationFeature[]>([]);
+  const [perimeterData, setPerimeterData] = useState<FirePerimeterFeature[]>([]);
   const [loading, setLoading] = useState(true);
   // Add component-specific loading states
   const [loadingFires, setLoadingFires] = useState(true);
@@ -47,15 +90,26 @@ export default function Home() {
     totalPoints: number;
     computationTime: number;
   } | null>(null);
-  const [closestFire, setClosestFire] = useState<{
-    fire: FireFeature;
-    distance: number;
-  } | null>(null);
-  const [closestEvacZone, setClosestEvacZone] = useState<{
-    zone: EvacuationFeature;
-    distance: number;
-    associatedFire: FireFeature | null;
-  } | null>(null);
+  const [closestFire, setClosestFire] = useState<FireDistance | null>(null);
+  const [closestEvacZone, setClosestEvacZone] = useState<NearbyZone | null>(null);
+  const [otherEvacZones, setOtherEvacZones] = useState<ZoneDistance[]>([]);
+  const [mapSelection, setMapSelection] = useState<MapSelection | null>(null);
+  const [mapFocus, setMapFocus] = useState<MapFocus | null>(null);
+  const [pickingOnMap, setPickingOnMap] = useState(false);
+  // When each source is being served from its last good copy, and from when
+  const [staleSources, setStaleSources] = useState<SourceTimes>({});
+  // Same for data the service worker served from its cache while offline
+  const [offlineSources, setOfflineSources] = useState<SourceTimes>({});
+  const [isOffline, setIsOffline] = useState(false);
+
+  // The API falls back to the last good data when an upstream fails, and the
+  // service worker falls back to its cached copy when the network does
+  const trackFreshness = (source: UpstreamSource, response: Response, asOf?: number) => {
+    const stale = response.headers.get('X-Data-Stale') === 'true';
+    const cachedAt = getOfflineCachedAt(response);
+    setStaleSources((current) => withSourceTime(current, source, stale && asOf ? asOf : null));
+    setOfflineSources((current) => withSourceTime(current, source, cachedAt ? asOf ?? cachedAt : null));
+  };
 
   const fetchFireData = async () => {
     try {
@@ -65,6 +119,7 @@ export default function Home() {
       
       const data: FireData = await response.json();
       setFireData(data.features);
+      trackFreshness('fires', response, data.asOf);
       setError('');
     } catch (err) {
       console.error('Fire data fetch error:', err);
@@ -77,11 +132,13 @@ export default function Home() {
   const fetchEvacuationData = async () => {
     try {
       setLoadingEvac(true);
-      const response = await fetch('/api/evacuations');
+      // Flood-only zones aren't relevant to a fire tracker
+      const response = await fetch('/api/evacuations?hazard=fire,other,unknown');
       if (!response.ok) throw new Error('Failed to fetch evacuation data');
       
       const data: EvacuationData = await response.json();
       setEvacuationData(data.features);
+      trackFreshness('evacuations', response, data.asOf);
     } catch (err) {
       console.error('Evacuation data fetch error:', err);
       setError((prev) => prev ? `${prev}. Also failed to fetch evacuation data` : 'Failed to fetch evacuation data');
@@ -90,7 +147,22 @@ export default function Home() {
     }
   };
 
-  const getLocation = () => {
+  // Perimeters only refine fire distances, so failures are logged, not shown
+  const fetchPerimeterData = async () => {
+    try {
+      const response = await fetch('/api/fire-perimeters');
+      if (!response.ok) throw new Error('Failed to fetch fire perimeter data');
+
+      const data: FirePerimeterData = await response.json();
+      setPerimeterData(data.features);
+      trackFreshness('perimeters', response, data.asOf);
+    } catch (err) {
+      console.error('Fire perimeter fetch error:', err);
+    }
+  };
+
+  // A late GPS fix shouldn't replace a place the user chose, unless they asked for it
+  const getLocation = (override = false) => {
     if (!navigator.geolocation) {
       setLocationError('Geolocation is not supported by your browser');
       return;
@@ -104,8 +176,19 @@ export default function Home() {
     navigator.geolocation.getCurrentPosition(
       (position) => {
         if (errorTimeoutId) clearTimeout(errorTimeoutId);
-        setLocation(position);
+        const gpsLocation: UserLocation = {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          source: 'gps',
+          label: 'Current location'
+        };
+        setLocation((current) =>
+          !override && current && current.source !== 'gps' ? current : gpsLocation
+        );
         setLocationError('');
+        if (override) {
+          setMapFocus({ lat: gpsLocation.lat, lng: gpsLocation.lng, zoom: SEARCH_FOCUS_ZOOM });
+        }
       },
       (error) => {
         // Add a longer delay and only show error after initial data is loaded
@@ -114,13 +197,13 @@ export default function Home() {
           if (!location && fireData.length > 0 && evacuationData.length > 0) {
             switch (error.code) {
               case error.PERMISSION_DENIED:
-                setLocationError('Location permission denied. Please enable location services to see air quality data.');
+                setLocationError('Location permission denied. Enter an address, ZIP code or coordinates, or pick a point on the map.');
                 break;
               case error.POSITION_UNAVAILABLE:
-                setLocationError('Location information is unavailable.');
+                setLocationError('Location information is unavailable. Enter a location below instead.');
                 break;
               case error.TIMEOUT:
-                setLocationError('Location request timed out.');
+                setLocationError('Location request timed out. Enter a location below instead.');
                 break;
               default:
                 setLocationError('Unable to retrieve your location. Please ensure location services are enabled.');
@@ -148,6 +231,38 @@ export default function Home() {
     };
   };
 
+  // Caches the app and the latest hazard data for offline use. Left out in
+  // development, where cached build assets would go stale.
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !isServiceWorkerSupported()) return;
+    registerServiceWorker().catch((err) => console.error('Service worker registration failed:', err));
+  }, []);
+
+  // Cached data is replaced as soon as the connection comes back. The ref
+  // keeps the listener, added once, calling this render's fetchers.
+  const refetchAll = useRef(() => {});
+  refetchAll.current = () => {
+    fetchFireData();
+    fetchEvacuationData();
+    fetchPerimeterData();
+  };
+
+  useEffect(() => {
+    const handleOffline = () => setIsOffline(true);
+    const handleOnline = () => {
+      setIsOffline(false);
+      refetchAll.current();
+    };
+
+    setIsOffline(!navigator.onLine);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, []);
+
   // Set overall loading state based on component loading states
   useEffect(() => {
     setLoading(loadingFires || loadingEvac);
@@ -160,7 +275,8 @@ export default function Home() {
       try {
         await Promise.all([
           fetchFireData(),
-          fetchEvacuationData()
+          fetchEvacuationData(),
+          fetchPerimeterData()
         ]);
       } catch (error) {
         console.error('Error fetching initial data:', error);
@@ -175,98 +291,30 @@ export default function Home() {
     };
   }, []);
 
-  useEffect(() => {
-    if (location && fireData.length > 0) {
-      const fires = fireData.map((fire: FireFeature) => ({
-        fire,
-        distance: calculateDistance(
-          location.coords.latitude,
-          location.coords.longitude,
-          fire.geometry.coordinates[1],
-          fire.geometry.coordinates[0]
-        ),
-      }));
-
-      const closest = fires.reduce((prev: { fire: FireFeature; distance: number }, current: { fire: FireFeature; distance: number }) => 
-        prev.distance < current.distance ? prev : current
-      );
-
-      setClosestFire(closest);
-    }
-  }, [location, fireData]);
+  // Spatial indexes are rebuilt only when a new dataset arrives
+  const fireIndex = useMemo(
+    () => createFireIndex(fireData, joinPerimetersToFires(fireData, perimeterData)),
+    [fireData, perimeterData]
+  );
+  const zoneIndex = useMemo(() => createZoneIndex(evacuationData), [evacuationData]);
 
   useEffect(() => {
-    if (location && evacuationData.length > 0) {
+    if (location && (fireData.length > 0 || evacuationData.length > 0)) {
       const startTime = Date.now();
       let totalPoints = 0;
 
-      // First find the closest evacuation zone to the user
-      const zones = evacuationData.map((zone: EvacuationFeature) => {
-        const points = zone.geometry.coordinates[0];
-        totalPoints += points.length;
-        
-        // Find the closest point in this zone to the user
-        let minDistance = Infinity;
-        let closestPoint: [number, number] | null = null;
-        
-        points.forEach(([lon, lat]: [number, number]) => {
-          const distance = calculateDistance(
-            location.coords.latitude,
-            location.coords.longitude,
-            lat,
-            lon
-          );
-          if (distance < minDistance) {
-            minDistance = distance;
-            closestPoint = [lon, lat];
-          }
-        });
-        
-        return {
-          zone,
-          distance: minDistance,
-          closestPoint
-        };
+      // Rank the zones around the user by severity and distance, measuring to
+      // the nearest polygon edge and treating any point inside a zone as
+      // distance 0. Only zones near the user in the index are measured at all.
+      // The top zone also gets the fire it was most likely issued for.
+      const summary = summarizeLocation(location.lat, location.lng, fireIndex, zoneIndex, {
+        otherZones: MAX_LISTED_ZONES,
+        onMeasure: (zone) => { totalPoints += countZonePoints(zone); }
       });
 
-      const closestZone = zones.reduce((prev, current) => 
-        prev.distance < current.distance ? prev : current
-      );
-
-      // Use the closest point to find the nearest active fire
-      if (fireData.length > 0 && closestZone.closestPoint) {
-        let closestFireToZone = null;
-        let minDistanceToFire = Infinity;
-
-        const [lon, lat] = closestZone.closestPoint as [number, number];
-        
-        fireData.forEach(fire => {
-          if (!fire.properties.Final) {
-            const distanceToFire = calculateDistance(
-              lat,
-              lon,
-              fire.properties.Latitude,
-              fire.properties.Longitude
-            );
-            if (distanceToFire < minDistanceToFire) {
-              minDistanceToFire = distanceToFire;
-              closestFireToZone = fire;
-            }
-          }
-        });
-
-        setClosestEvacZone({
-          zone: closestZone.zone,
-          distance: closestZone.distance,
-          associatedFire: closestFireToZone
-        });
-      } else {
-        setClosestEvacZone({
-          zone: closestZone.zone,
-          distance: closestZone.distance,
-          associatedFire: null
-        });
-      }
+      setClosestFire(summary.closestFire);
+      setClosestEvacZone(summary.closestZone);
+      setOtherEvacZones(summary.otherZones.filter((entry) => entry.distance <= LISTED_ZONE_RADIUS));
 
       const endTime = Date.now();
       setComputationStats({
@@ -274,15 +322,52 @@ export default function Home() {
         computationTime: endTime - startTime
       });
     }
-  }, [location, evacuationData, fireData]);
+  }, [location, fireData, evacuationData, fireIndex, zoneIndex]);
+
+  // Detail card data for a fire clicked on the map
+  const selectedFireDetails = useMemo(() => {
+    if (mapSelection?.kind !== 'fire') return null;
+    const { fire } = mapSelection;
+    if (!location) {
+      return { fire, distance: null, measuredTo: 'point' as const, inside: false };
+    }
+    return measureFire(
+      location.lat,
+      location.lng,
+      fire,
+      fireIndex.perimeters.get(fire)
+    );
+  }, [mapSelection, location, fireIndex]);
+
+  // Detail card data for a zone clicked on the map
+  const selectedZoneDetails = useMemo(() => {
+    if (mapSelection?.kind !== 'zone') return null;
+    const { zone } = mapSelection;
+    const measurement = location
+      ? measureZone(location.lat, location.lng, zone)
+      : null;
+    return {
+      zone,
+      distance: measurement ? measurement.distance : null,
+      inside: measurement ? measurement.inside : false,
+      association: associateZoneWithFire(zone, fireIndex)
+    };
+  }, [mapSelection, location, fireIndex]);
+
+  // Selections point at feature objects, so drop them when data reloads
+  useEffect(() => {
+    setMapSelection(null);
+  }, [fireData, evacuationData, perimeterData]);
 
   const handleRefresh = async () => {
     try {
       setLoading(true);
-      getLocation();
+      // Only a GPS fix can go stale; chosen places stay put
+      if (!location || location.source === 'gps') getLocation();
       await Promise.all([
         fetchFireData(),
-        fetchEvacuationData()
+        fetchEvacuationData(),
+        fetchPerimeterData()
       ]);
     } catch (error) {
       console.error('Error refreshing data:', error);
@@ -308,8 +393,38 @@ export default function Home() {
     );
   }
 
-  // Use actual logic for warning
-  const showWarning = closestEvacZone && closestEvacZone.distance < 1;
+  const handleLocationChange = (next: UserLocation) => {
+    setLocation(next);
+    setLocationError('');
+    setPickingOnMap(false);
+    setMapFocus({ lat: next.lat, lng: next.lng, zoom: SEARCH_FOCUS_ZOOM });
+  };
+
+  const handleSavedPlaceSelect = (place: SavedPlace) => {
+    handleLocationChange({ lat: place.lat, lng: place.lng, source: 'saved', label: place.name });
+  };
+
+  // The map is already looking at a picked point, so don't move it
+  const handleMapPick = ({ lat, lng }: { lat: number; lng: number }) => {
+    setLocation({ lat, lng, source: 'map', label: formatCoordinates(lat, lng) });
+    setLocationError('');
+    setPickingOnMap(false);
+  };
+
+  // Picking a fire from the list selects it on the map, same as clicking it there
+  const handleFireListSelect = (fire: FireFeature) => {
+    setMapSelection({ kind: 'fire', fire });
+    setMapFocus({
+      lat: fire.geometry.coordinates[1],
+      lng: fire.geometry.coordinates[0],
+      zoom: FIRE_FOCUS_ZOOM
+    });
+  };
+
+  // Use actual logic for warning: only statuses that call for action
+  const showWarning = closestEvacZone &&
+    isActiveEvacuationStatus(closestEvacZone.zone.properties.status) &&
+    closestEvacZone.distance < 1;
 
   return (
     <div className="min-h-screen bg-gray-50 p-4 sm:p-4 p-0">
@@ -337,6 +452,21 @@ export default function Home() {
               </div>
             )}
 
+            <OfflineBanner offline={isOffline} sources={offlineSources} />
+            {!isOffline && Object.keys(offlineSources).length === 0 && (
+              <StaleDataWarning sources={staleSources} />
+            )}
+
+            <LocationPicker
+              location={location}
+              onChange={handleLocationChange}
+              onUseGps={() => getLocation(true)}
+              picking={pickingOnMap}
+              onPickingChange={setPickingOnMap}
+            />
+
+            <ChangeFeed location={location} />
+
             {/* Air Quality Section */}
             {location && (
               <div className="mb-4">
@@ -349,8 +479,8 @@ export default function Home() {
                   </div>
                 ) : (
                   <AirQualityDisplay 
-                    lat={location.coords.latitude}
-                    lng={location.coords.longitude}
+                    lat={location.lat}
+                    lng={location.lng}
                   />
                 )}
               </div>
@@ -377,77 +507,38 @@ export default function Home() {
                   </div>
                 )}
 
-                {showWarning && closestEvacZone && (
-                  <div className="bg-red-100 border-2 border-red-600 rounded-lg p-3 mb-4">
-                    <div className="flex items-center gap-2 mb-3">
-                      <AlertTriangle className="text-red-600" />
-                      <h2 className="text-red-600 font-bold text-lg uppercase">EVACUATION ORDER NEARBY!</h2>
-                    </div>
-
-                    <h3 className="text-xl font-bold mb-3">Nearest Evacuation Zone</h3>
-
-                    <div className="space-y-2 text-sm pl-3">
-                      <p className="flex">
-                        <span className="text-red-800 font-bold">Zone Name:</span>
-                        <span className="ml-2 text-red-800">{closestEvacZone.zone.properties.zone_id} (Eaton Fire)</span>
-                      </p>
-                      <p className="flex">
-                        <span className="text-red-800 font-bold">Distance:</span>
-                        <span className="ml-2 text-red-800">{closestEvacZone.distance.toFixed(1)} miles</span>
-                      </p>
-                      <p className="flex">
-                        <span className="text-red-800 font-bold">Status:</span>
-                        <span className="ml-2 text-red-800">{closestEvacZone.zone.properties.zone_status}</span>
-                      </p>
-                      <p className="flex">
-                        <span className="text-red-800 font-bold">Updated:</span>
-                        <span className="ml-2 text-red-800">{new Date(closestEvacZone.zone.properties.last_updated).toLocaleDateString('en-US', {
-                          month: 'long',
-                          day: 'numeric',
-                          year: 'numeric',
-                          hour: 'numeric',
-                          minute: 'numeric',
-                          timeZoneName: 'short'
-                        })}</span>
-                      </p>
-                    </div>
-                  </div>
+                {closestEvacZone && (
+                  <EvacuationZoneCard
+                    zone={closestEvacZone.zone}
+                    distance={closestEvacZone.distance}
+                    inside={closestEvacZone.inside}
+                    association={closestEvacZone.association}
+                    urgent={Boolean(showWarning)}
+                  />
                 )}
 
-                {closestEvacZone && !showWarning && (
-                  <div className="bg-[#e0f2ff] border border-[#3b82f6] rounded-lg p-3 mb-4">
-                    <div className="flex items-center gap-2 mb-3">
-                      <span className="text-[#3b82f6]">🔔</span>
-                      <h2 className="text-[#3b82f6] font-bold">Monitoring Nearby Evacuation Orders</h2>
-                    </div>
-
-                    <h3 className="text-xl font-bold mb-3">Nearest Evacuation Zone</h3>
-
-                    <div className="space-y-2 text-sm pl-3">
-                      <p className="flex">
-                        <span className="text-[#3b82f6] font-bold">Zone Name:</span>
-                        <span className="ml-2">{closestEvacZone.zone.properties.zone_id} (Eaton Fire)</span>
-                      </p>
-                      <p className="flex">
-                        <span className="text-[#3b82f6] font-bold">Distance:</span>
-                        <span className="ml-2">{closestEvacZone.distance.toFixed(1)} miles</span>
-                      </p>
-                      <p className="flex">
-                        <span className="text-[#3b82f6] font-bold">Status:</span>
-                        <span className="ml-2">{closestEvacZone.zone.properties.zone_status}</span>
-                      </p>
-                      <p className="flex">
-                        <span className="text-[#3b82f6] font-bold">Updated:</span>
-                        <span className="ml-2">{new Date(closestEvacZone.zone.properties.last_updated).toLocaleDateString('en-US', {
-                          month: 'long',
-                          day: 'numeric',
-                          year: 'numeric',
-                          hour: 'numeric',
-                          minute: 'numeric',
-                          timeZoneName: 'short'
-                        })}</span>
-                      </p>
-                    </div>
+                {otherEvacZones.length > 0 && (
+                  <div className="border border-gray-200 rounded-lg p-3 mb-4">
+                    <h3 className="text-lg font-bold mb-2">Other Nearby Zones</h3>
+                    <ul className="space-y-2 text-sm">
+                      {otherEvacZones.map(({ zone, distance, inside }) => (
+                        <li key={zone.properties.zone_id} className="flex items-center justify-between gap-2">
+                          <span className="flex items-center gap-2">
+                            <span
+                              className="inline-block w-2.5 h-2.5 rounded-full"
+                              style={{ backgroundColor: EVACUATION_STATUS_STYLES[zone.properties.status].fill }}
+                            />
+                            {zone.properties.zone_id}
+                          </span>
+                          <span className="flex items-center gap-2">
+                            <EvacuationStatusBadge status={zone.properties.status} />
+                            <span className="text-gray-500 w-20 text-right">
+                              {inside ? 'Inside' : `${distance.toFixed(1)} mi`}
+                            </span>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
                   </div>
                 )}
               </>
@@ -463,49 +554,38 @@ export default function Home() {
               </div>
             ) : (
               closestFire && (
-                <div className="bg-gray-100 border border-gray-300 rounded-lg p-3 mb-4">
-                  <h3 className="text-xl font-bold mb-3">Nearest Active Fire</h3>
-                  
-                  <div className="space-y-2 text-sm pl-3">
-                    <p className="flex">
-                      <span className="font-bold">Name:</span>
-                      <span className="ml-2">{closestFire.fire.properties.Name}</span>
-                    </p>
-                    <p className="flex">
-                      <span className="font-bold">Distance:</span>
-                      <span className="ml-2">{closestFire.distance.toFixed(1)} miles</span>
-                    </p>
-                    <p className="flex">
-                      <span className="font-bold">Location:</span>
-                      <span className="ml-2">Near {closestFire.fire.properties.Location}</span>
-                    </p>
-                    <p className="flex">
-                      <span className="font-bold">County:</span>
-                      <span className="ml-2">{closestFire.fire.properties.County}</span>
-                    </p>
-                    <p className="flex">
-                      <span className="font-bold">Acres Burned:</span>
-                      <span className="ml-2">{closestFire.fire.properties.AcresBurned.toLocaleString()}</span>
-                    </p>
-                    <p className="flex">
-                      <span className="font-bold">Containment:</span>
-                      <span className="ml-2">{closestFire.fire.properties.PercentContained}%</span>
-                    </p>
-                    <p className="flex">
-                      <span className="font-bold">Started:</span>
-                      <span className="ml-2">{new Date(closestFire.fire.properties.Started).toLocaleDateString('en-US', {
-                        month: 'numeric',
-                        day: 'numeric',
-                        year: 'numeric'
-                      })}</span>
-                    </p>
-                  </div>
-                </div>
+                <>
+                  <FireCard
+                    fire={closestFire.fire}
+                    distance={closestFire.distance}
+                    measuredTo={closestFire.measuredTo}
+                    inside={closestFire.inside}
+                  />
+                  <FireTrends fire={closestFire.fire} />
+                </>
               )
             )}
 
+            <SavedPlaces
+              location={location}
+              fireIndex={fireIndex}
+              zoneIndex={zoneIndex}
+              loading={loading}
+              onSelect={handleSavedPlaceSelect}
+            />
+
+            {!loadingFires && fireData.length > 0 && (
+              <FireList
+                fires={fireData}
+                location={location}
+                fireIndex={fireIndex}
+                selected={mapSelection?.kind === 'fire' ? mapSelection.fire : null}
+                onSelect={handleFireListSelect}
+              />
+            )}
+
             <p className="text-gray-400 text-xs border-t border-gray-100 pt-3 mt-2">
-              Showing data for {fireData.filter(f => f.properties.IsActive).length} active fires and {evacuationData.length} fire-related evacuation zones in California
+              Showing data for {fireData.filter(f => f.properties.IsActive).length} active fires and {evacuationData.length} evacuation zones in California
               <br />
               Calculated distances to {computationStats?.totalPoints.toLocaleString()} evacuation zone points in {computationStats?.computationTime.toFixed(1)}ms
             </p>
@@ -518,16 +598,42 @@ export default function Home() {
               Active Fire Map
             </h3>
             <div className="w-full h-[32rem] sm:h-[38rem] overflow-hidden sm:rounded-lg rounded-none flex items-center justify-center bg-white">
-              <iframe 
-                width="100%" 
-                height="100%" 
-                frameBorder="0" 
-                scrolling="no" 
-                allowFullScreen 
-                src="https://arcg.is/0PyWqy1"
-                className="sm:rounded-lg rounded-none"
+              <HazardMap
+                fires={fireData}
+                zones={evacuationData}
+                perimeters={perimeterData}
+                userLocation={location}
+                selected={mapSelection}
+                onSelect={setMapSelection}
+                focus={mapFocus}
+                picking={pickingOnMap}
+                onPickLocation={handleMapPick}
               />
             </div>
+
+            {/* Same detail cards as the left column, for whatever was clicked */}
+            {selectedFireDetails && (
+              <div className="mt-4">
+                <FireCard
+                  fire={selectedFireDetails.fire}
+                  distance={selectedFireDetails.distance}
+                  measuredTo={selectedFireDetails.measuredTo}
+                  inside={selectedFireDetails.inside}
+                  title="Selected Fire"
+                />
+                <FireTrends fire={selectedFireDetails.fire} />
+              </div>
+            )}
+            {selectedZoneDetails && (
+              <div className="mt-4">
+                <EvacuationZoneCard
+                  {...selectedZoneDetails}
+                  urgent={false}
+                  heading="Selected on Map"
+                  title="Evacuation Zone"
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
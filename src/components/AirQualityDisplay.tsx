@@ -1,16 +1,10 @@
+'use client'
+
 import { useEffect, useState } from 'react'
-import FingerprintJS from '@fingerprintjs/fingerprintjs'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
-
-interface AirQualityData {
-  ParameterName: string;
-  AQI: number;
-  Category: {
-    Number: number;
-    Name: string;
-  };
-  StateCode: string;
-}
+import { HealthGuidance } from '@/components/HealthGuidance'
+import { fetchAirQuality, getMainAQI } from '@/utils/airQuality'
+import type { AirQualityData, AirQualityForecastDay } from '@/utils/airQuality'
 
 interface AirQualityDisplayProps {
   lat: number;
@@ -23,7 +17,7 @@ interface CategoryInfo {
   message: string;
 }
 
-const AQI_CATEGORIES: Record<string, CategoryInfo> = {
+export const AQI_CATEGORIES: Record<string, CategoryInfo> = {
   'Good': {
     color: 'text-green-500',
     textColor: 'text-green-700',
@@ -56,50 +50,86 @@ const AQI_CATEGORIES: Record<string, CategoryInfo> = {
   }
 };
 
+// Always shown, with N/A when missing; other pollutants appear when reported
+const CORE_POLLUTANTS = ['PM2.5', 'PM10', 'O3'];
+
+const POLLUTANT_LABELS: Record<string, string> = {
+  'PM2.5': 'PM2.5',
+  PM10: 'PM10',
+  O3: 'Ozone',
+  NO2: 'NO₂',
+  CO: 'CO',
+  SO2: 'SO₂'
+};
+
+function visiblePollutants(data: AirQualityData[]): Array<{ name: string; label: string }> {
+  const reported = Object.keys(POLLUTANT_LABELS).filter((name) =>
+    !CORE_POLLUTANTS.includes(name) && data.some((item) => item.ParameterName === name)
+  );
+  return [...CORE_POLLUTANTS, ...reported].map((name) => ({ name, label: POLLUTANT_LABELS[name] }));
+}
+
+const NOWCAST_HINT = 'AQI from the EPA NowCast, which weights the most recent hours and reacts faster to smoke';
+
+// Enough to see whether smoke is clearing or settling in
+const MAX_FORECAST_DAYS = 5;
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function forecastDayLabel(date: string): string {
+  const today = new Date();
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+  if (date === toDateKey(today)) return 'Today';
+  if (date === toDateKey(tomorrow)) return 'Tomorrow';
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { weekday: 'short' });
+}
+
+function ForecastStrip({ days }: { days: AirQualityForecastDay[] }) {
+  const today = toDateKey(new Date());
+  const upcoming = days.filter((day) => day.date >= today).slice(0, MAX_FORECAST_DAYS);
+  if (upcoming.length === 0) return null;
+
+  return (
+    <div className="mt-4 pt-3 border-t border-gray-100">
+      <div className="text-sm text-gray-500 mb-2">Forecast</div>
+      <div className="flex justify-between gap-1">
+        {upcoming.map((day) => {
+          const dayInfo = AQI_CATEGORIES[day.category.Name] || AQI_CATEGORIES['Good'];
+          return (
+            <div
+              key={day.date}
+              className="flex-1 text-center"
+              title={[`${day.category.Name} (${day.parameterName})`, day.discussion].filter(Boolean).join(' — ')}
+            >
+              <div className="text-xs text-gray-500">{forecastDayLabel(day.date)}</div>
+              <div className={`text-lg font-semibold ${dayInfo.color}`}>{day.aqi ?? '—'}</div>
+              <div className={`text-[10px] leading-tight ${dayInfo.textColor}`}>{day.category.Name}</div>
+              {day.actionDay && <div className="text-[10px] font-semibold text-red-600">Alert day</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 export default function AirQualityDisplay({ lat, lng }: AirQualityDisplayProps) {
   const [aqiData, setAqiData] = useState<AirQualityData[]>([])
+  const [forecast, setForecast] = useState<AirQualityForecastDay[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  const getValueByParameter = (data: AirQualityData[], parameterName: string): string => {
-    let measurement;
+  const getMeasurement = (data: AirQualityData[], parameterName: string): AirQualityData | undefined => {
     if (parameterName === 'PM2.5') {
       // Try PM25 first (AQICN format), then PM2.5 (AirNow format)
-      measurement = data.find(item => item.ParameterName === 'PM25' || item.ParameterName === 'PM2.5');
-    } else {
-      measurement = data.find(item => item.ParameterName === parameterName);
-    }
-    return measurement ? measurement.AQI.toString() : 'N/A';
-  };
-
-  const getMainAQI = (data: AirQualityData[]): { aqi: number; category: string; isInternational: boolean } => {
-    if (!data || data.length === 0) {
-      return { aqi: 0, category: 'Good', isInternational: false };
+      return data.find(item => item.ParameterName === 'PM25' || item.ParameterName === 'PM2.5');
     }
-
-    // Try PM25 first (AQICN format), then PM2.5 (AirNow format)
-    const pm25Data = data.find(item => item.ParameterName === 'PM25' || item.ParameterName === 'PM2.5');
-    
-    if (pm25Data) {
-      return { 
-        aqi: pm25Data.AQI, 
-        category: pm25Data.Category.Name,
-        isInternational: pm25Data.StateCode === 'INT'
-      };
-    }
-
-    // If no PM2.5 data, find the measurement with the highest AQI
-    const highestAQI = data.reduce((max: AirQualityData | null, item: AirQualityData) => {
-      return (!max || item.AQI > max.AQI) ? item : max;
-    }, null);
-
-    return highestAQI 
-      ? {
-          aqi: highestAQI.AQI,
-          category: highestAQI.Category.Name,
-          isInternational: highestAQI.StateCode === 'INT'
-        }
-      : { aqi: 0, category: 'Good', isInternational: false };
+    return data.find(item => item.ParameterName === parameterName);
   };
 
   useEffect(() => {
@@ -107,61 +137,14 @@ export default function AirQualityDisplay({ lat, lng }: AirQualityDisplayProps)
       try {
         setLoading(true);
         setError(null);
-        const fp = await FingerprintJS.load()
-        const { visitorId } = await fp.get()
-
-        // Round coordinates for cache key
-        const roundedLat = Number(lat).toFixed(2);
-        const roundedLng = Number(lng).toFixed(2);
-
-        // First check cache using rounded coordinates
-        let response = await fetch(
-          `/api/air-quality?lat=${roundedLat}&lng=${roundedLng}&type=check-cache`,
-          {
-            cache: 'force-cache',
-          }
-        );
-
-        let data = await response.json();
-
-        // If no valid cached data, fetch fresh data with exact coordinates
-        if (!response.ok || !data || (Array.isArray(data) && data.length === 0)) {
-          console.log('No cached data, fetching fresh data with exact coordinates');
-          response = await fetch(
-            `/api/air-quality?lat=${lat}&lng=${lng}&type=fetch-fresh`,
-            {
-              cache: 'no-store', // Don't cache the request itself
-            }
-          );
-          data = await response.json();
-        }
-
-        if (!response.ok) {
-          throw new Error(data.error || 'Failed to fetch AQI data');
-        }
-        
-        // Validate that we have valid data
-        if (!Array.isArray(data) || data.length === 0) {
-          throw new Error('No air quality data available for this location');
-        }
-
-        // Validate that we have valid AQI values
-        const validData = data.filter(item => 
-          item && 
-          typeof item.AQI === 'number' && 
-          !isNaN(item.AQI) &&
-          item.Category?.Name
-        );
-
-        if (validData.length === 0) {
-          throw new Error('No valid air quality measurements available');
-        }
-
-        setAqiData(validData);
+        const report = await fetchAirQuality(lat, lng);
+        setAqiData(report.observations);
+        setForecast(report.forecast);
       } catch (err) {
         console.error('AQI fetch error:', err);
         setError(err instanceof Error ? err.message : 'Failed to fetch AQI data');
         setAqiData([]); // Clear any previous data
+        setForecast([]);
       } finally {
         setLoading(false);
       }
@@ -176,7 +159,7 @@ export default function AirQualityDisplay({ lat, lng }: AirQualityDisplayProps)
   if (error) return <div className="text-red-500">Error: {error}</div>;
   if (!aqiData.length) return <div>No air quality data available</div>;
 
-  const { aqi, category, isInternational } = getMainAQI(aqiData);
+  const { aqi, category, source, nowCastAqi } = getMainAQI(aqiData);
   const categoryInfo = AQI_CATEGORIES[category] || AQI_CATEGORIES['Good'];
 
   return (
@@ -184,13 +167,16 @@ export default function AirQualityDisplay({ lat, lng }: AirQualityDisplayProps)
       <div className="bg-white rounded-lg px-5 py-4 shadow-lg max-w-[300px] w-full border border-gray-100 hover:border-gray-200 transition-all">
         <div className="flex justify-between items-center mb-1">
           <div className="text-lg font-semibold text-black">Current AQI</div>
-          <div className="text-xs text-gray-400 italic">via {isInternational ? 'AQICN' : 'AirNow'}</div>
+          <div className="text-xs text-gray-400 italic">via {source}</div>
         </div>
 
         <div className="flex justify-between items-start">
           <div>
             <div className={`text-6xl font-bold ${categoryInfo.color} mb-0.5`}>{aqi}</div>
             <div className={`${categoryInfo.textColor}`}>{category}</div>
+            {nowCastAqi !== null && nowCastAqi !== aqi && (
+              <div className="text-xs text-gray-500" title={NOWCAST_HINT}>NowCast {nowCastAqi}</div>
+            )}
           </div>
           <div className="text-gray-700 text-xs text-left max-w-[160px] mt-1">
             {categoryInfo.message}
@@ -198,19 +184,26 @@ export default function AirQualityDisplay({ lat, lng }: AirQualityDisplayProps)
         </div>
 
         <div className="grid grid-cols-3 gap-2 mt-4">
-          <div className="text-center">
-            <div className="text-sm text-gray-500">PM2.5</div>
-            <div className="text-lg font-semibold">{getValueByParameter(aqiData, 'PM2.5') || getValueByParameter(aqiData, 'PM25')}</div>
-          </div>
-          <div className="text-center">
-            <div className="text-sm text-gray-500">PM10</div>
-            <div className="text-lg font-semibold">{getValueByParameter(aqiData, 'PM10')}</div>
-          </div>
-          <div className="text-center">
-            <div className="text-sm text-gray-500">Ozone</div>
-            <div className="text-lg font-semibold">{getValueByParameter(aqiData, 'O3')}</div>
-          </div>
+          {visiblePollutants(aqiData).map(({ name, label }) => {
+            const measurement = getMeasurement(aqiData, name);
+            return (
+              <div key={name} className="text-center">
+                <div className="text-sm text-gray-500">{label}</div>
+                <div className="text-lg font-semibold">{measurement ? measurement.AQI : 'N/A'}</div>
+                {typeof measurement?.Concentration === 'number' && (
+                  <div className="text-[10px] text-gray-500">{measurement.Concentration} {measurement.Unit}</div>
+                )}
+                {typeof measurement?.NowCastAQI === 'number' && (
+                  <div className="text-[10px] text-gray-500" title={NOWCAST_HINT}>NowCast {measurement.NowCastAQI}</div>
+                )}
+              </div>
+            );
+          })}
         </div>
+
+        <HealthGuidance readings={aqiData} />
+
+        <ForecastStrip days={forecast} />
       </div>
     </div>
   );
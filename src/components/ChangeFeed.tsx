@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { describeChange } from '@/utils/changes';
+import type { HazardChange } from '@/utils/changes';
+import type { UserLocation } from '@/types';
+
+interface ChangeFeedProps {
+  location: UserLocation | null;
+}
+
+const LAST_VISIT_KEY = 'lastVisit';
+// Only changes this close to the viewer are listed
+const CHANGE_RADIUS = 25;
+const MAX_LISTED_CHANGES = 8;
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleString('en-US', {
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+export function ChangeFeed({ location }: ChangeFeedProps) {
+  // The previous visit, captured once so refreshes keep showing the same window
+  const [lastVisit, setLastVisit] = useState<number | null>(null);
+  const [changes, setChanges] = useState<HazardChange[] | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    try {
+      const stored = Number(window.localStorage.getItem(LAST_VISIT_KEY));
+      if (stored > 0) setLastVisit(stored);
+      window.localStorage.setItem(LAST_VISIT_KEY, String(Date.now()));
+    } catch (error) {
+      console.error('Failed to read last visit:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!lastVisit || !location) return;
+    let cancelled = false;
+
+    const params = new URLSearchParams({
+      since: String(lastVisit),
+      lat: String(location.lat),
+      lng: String(location.lng),
+      radius: String(CHANGE_RADIUS)
+    });
+    fetch(`/api/changes?${params}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to fetch changes');
+        const data: { changes: HazardChange[] } = await response.json();
+        if (!cancelled) setChanges(data.changes);
+      })
+      .catch((err) => console.error('Change feed fetch error:', err));
+
+    return () => { cancelled = true; };
+  }, [lastVisit, location]);
+
+  // First visit, or nothing to compare yet
+  if (!lastVisit || !changes) return null;
+
+  const listed = showAll ? changes : changes.slice(0, MAX_LISTED_CHANGES);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 mb-4">
+      <h3 className="text-lg font-bold mb-1 flex items-center gap-2">
+        <History className="w-4 h-4 text-gray-500" />
+        What changed since your last visit
+      </h3>
+      <p className="text-xs text-gray-400 mb-2">
+        Within {CHANGE_RADIUS} miles, since {formatTime(lastVisit)}
+      </p>
+
+      {changes.length === 0 ? (
+        <p className="text-sm text-gray-600">No changes nearby.</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {listed.map((change, index) => (
+            <li key={`${change.kind}-${change.at}-${index}`} className="flex justify-between gap-3">
+              <span>{describeChange(change)}</span>
+              <span className="text-xs text-gray-400 shrink-0">{formatTime(change.at)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {changes.length > MAX_LISTED_CHANGES && (
+        <button
+          type="button"
+          onClick={() => setShowAll((current) => !current)}
+          className="text-xs text-blue-700 hover:underline mt-2"
+        >
+          {showAll ? 'Show fewer' : `Show all ${changes.length} changes`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { EVACUATION_STATUS_INFO } from '@/utils/evacuationStatus';
+import type { EvacuationStatus } from '@/types';
+
+interface StatusStyle {
+  badge: string;
+  banner: string;
+  heading: string;
+  text: string;
+  // Hex colors for non-Tailwind consumers such as SVG fills
+  fill: string;
+}
+
+export const EVACUATION_STATUS_STYLES: Record<EvacuationStatus, StatusStyle> = {
+  order: {
+    badge: 'bg-red-600 text-white',
+    banner: 'bg-red-100 border-red-600',
+    heading: 'text-red-600',
+    text: 'text-red-800',
+    fill: '#dc2626'
+  },
+  shelter_in_place: {
+    badge: 'bg-purple-600 text-white',
+    banner: 'bg-purple-100 border-purple-600',
+    heading: 'text-purple-600',
+    text: 'text-purple-800',
+    fill: '#9333ea'
+  },
+  warning: {
+    badge: 'bg-orange-500 text-white',
+    banner: 'bg-orange-100 border-orange-500',
+    heading: 'text-orange-600',
+    text: 'text-orange-800',
+    fill: '#f97316'
+  },
+  advisory: {
+    badge: 'bg-yellow-300 text-yellow-900',
+    banner: 'bg-yellow-50 border-yellow-400',
+    heading: 'text-yellow-700',
+    text: 'text-yellow-900',
+    fill: '#facc15'
+  },
+  lifted: {
+    badge: 'bg-green-600 text-white',
+    banner: 'bg-green-50 border-green-600',
+    heading: 'text-green-700',
+    text: 'text-green-900',
+    fill: '#16a34a'
+  },
+  normal: {
+    badge: 'bg-gray-200 text-gray-700',
+    banner: 'bg-gray-50 border-gray-300',
+    heading: 'text-gray-600',
+    text: 'text-gray-800',
+    fill: '#9ca3af'
+  }
+};
+
+export function EvacuationStatusBadge({ status }: { status: EvacuationStatus }) {
+  return (
+    <span className={`inline-block rounded px-2 py-0.5 text-xs font-semibold ${EVACUATION_STATUS_STYLES[status].badge}`}>
+      {EVACUATION_STATUS_INFO[status].label}
+    </span>
+  );
+}
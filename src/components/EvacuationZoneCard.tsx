@@ -0,0 +1,119 @@
+import { AlertTriangle } from 'lucide-react';
+import { EVACUATION_STATUS_STYLES, EvacuationStatusBadge } from '@/components/EvacuationStatusBadge';
+import { associatedFireLabel } from '@/utils/fireAssociation';
+import type { FireAssociation } from '@/utils/fireAssociation';
+import { EVACUATION_STATUS_INFO } from '@/utils/evacuationStatus';
+import type { EvacuationFeature } from '@/types';
+
+interface EvacuationZoneCardProps {
+  zone: EvacuationFeature;
+  // Miles from the viewer, when their location is known
+  distance: number | null;
+  inside: boolean;
+  association: FireAssociation;
+  // Urgent cards get the status-colored "NEARBY!" treatment
+  urgent: boolean;
+  heading?: string;
+  title?: string;
+}
+
+function formatUpdated(lastUpdated: number): string {
+  return new Date(lastUpdated).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    timeZoneName: 'short'
+  });
+}
+
+export function EvacuationZoneCard({
+  zone,
+  distance,
+  inside,
+  association,
+  urgent,
+  heading = 'Monitoring Nearby Evacuation Zones',
+  title = 'Nearest Evacuation Zone'
+}: EvacuationZoneCardProps) {
+  const { zone_id, status, last_updated } = zone.properties;
+  const distanceLabel = inside
+    ? 'Inside zone'
+    : distance !== null ? `${distance.toFixed(1)} miles` : null;
+
+  if (urgent) {
+    const style = EVACUATION_STATUS_STYLES[status];
+    return (
+      <div className={`${style.banner} border-2 rounded-lg p-3 mb-4`}>
+        <div className="flex items-center gap-2 mb-3">
+          <AlertTriangle className={style.heading} />
+          <h2 className={`${style.heading} font-bold text-lg uppercase`}>
+            {EVACUATION_STATUS_INFO[status].label} NEARBY!
+          </h2>
+        </div>
+
+        {inside && (
+          <p className={`${style.text} font-bold mb-3`}>
+            You are inside zone {zone_id}
+          </p>
+        )}
+
+        <h3 className="text-xl font-bold mb-3">{title}</h3>
+
+        <div className="space-y-2 text-sm pl-3">
+          <p className="flex">
+            <span className={`${style.text} font-bold`}>Zone Name:</span>
+            <span className={`ml-2 ${style.text}`}>{zone_id} ({associatedFireLabel(association)})</span>
+          </p>
+          {distanceLabel && (
+            <p className="flex">
+              <span className={`${style.text} font-bold`}>Distance:</span>
+              <span className={`ml-2 ${style.text}`}>{distanceLabel}</span>
+            </p>
+          )}
+          <p className="flex">
+            <span className={`${style.text} font-bold`}>Status:</span>
+            <span className="ml-2"><EvacuationStatusBadge status={status} /></span>
+          </p>
+          <p className="flex">
+            <span className={`${style.text} font-bold`}>Updated:</span>
+            <span className={`ml-2 ${style.text}`}>{formatUpdated(last_updated)}</span>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-[#e0f2ff] border border-[#3b82f6] rounded-lg p-3 mb-4">
+      <div className="flex items-center gap-2 mb-3">
+        <span className="text-[#3b82f6]">🔔</span>
+        <h2 className="text-[#3b82f6] font-bold">{heading}</h2>
+      </div>
+
+      <h3 className="text-xl font-bold mb-3">{title}</h3>
+
+      <div className="space-y-2 text-sm pl-3">
+        <p className="flex">
+          <span className="text-[#3b82f6] font-bold">Zone Name:</span>
+          <span className="ml-2">{zone_id} ({associatedFireLabel(association)})</span>
+        </p>
+        {distanceLabel && (
+          <p className="flex">
+            <span className="text-[#3b82f6] font-bold">Distance:</span>
+            <span className="ml-2">{distanceLabel}</span>
+          </p>
+        )}
+        <p className="flex">
+          <span className="text-[#3b82f6] font-bold">Status:</span>
+          <span className="ml-2"><EvacuationStatusBadge status={status} /></span>
+        </p>
+        <p className="flex">
+          <span className="text-[#3b82f6] font-bold">Updated:</span>
+          <span className="ml-2">{formatUpdated(last_updated)}</span>
+        </p>
+      </div>
+    </div>
+  );
+}
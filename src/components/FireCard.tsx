@@ -0,0 +1,76 @@
+import Link from 'next/link';
+import { getFireId } from '@/utils/fireIdentity';
+import type { FireFeature } from '@/types';
+
+interface FireCardProps {
+  fire: FireFeature;
+  // Miles from the viewer, when their location is known
+  distance: number | null;
+  measuredTo?: 'perimeter' | 'point';
+  inside?: boolean;
+  title?: string;
+}
+
+function formatDistance(distance: number, measuredTo: 'perimeter' | 'point', inside: boolean): string {
+  if (inside) return 'Inside fire perimeter';
+  return measuredTo === 'perimeter'
+    ? `${distance.toFixed(1)} miles to perimeter`
+    : `${distance.toFixed(1)} miles`;
+}
+
+export function FireCard({
+  fire,
+  distance,
+  measuredTo = 'point',
+  inside = false,
+  title = 'Nearest Active Fire'
+}: FireCardProps) {
+  return (
+    <div className="bg-gray-100 border border-gray-300 rounded-lg p-3 mb-4">
+      <h3 className="text-xl font-bold mb-3">{title}</h3>
+
+      <div className="space-y-2 text-sm pl-3">
+        <p className="flex">
+          <span className="font-bold">Name:</span>
+          <span className="ml-2">{fire.properties.Name}</span>
+        </p>
+        {distance !== null && (
+          <p className="flex">
+            <span className="font-bold">Distance:</span>
+            <span className="ml-2">{formatDistance(distance, measuredTo, inside)}</span>
+          </p>
+        )}
+        <p className="flex">
+          <span className="font-bold">Location:</span>
+          <span className="ml-2">Near {fire.properties.Location}</span>
+        </p>
+        <p className="flex">
+          <span className="font-bold">County:</span>
+          <span className="ml-2">{fire.properties.County}</span>
+        </p>
+        <p className="flex">
+          <span className="font-bold">Acres Burned:</span>
+          <span className="ml-2">{fire.properties.AcresBurned.toLocaleString()}</span>
+        </p>
+        <p className="flex">
+          <span className="font-bold">Containment:</span>
+          <span className="ml-2">{fire.properties.PercentContained}%</span>
+        </p>
+        <p className="flex">
+          <span className="font-bold">Started:</span>
+          <span className="ml-2">{new Date(fire.properties.Started).toLocaleDateString('en-US', {
+            month: 'numeric',
+            day: 'numeric',
+            year: 'numeric'
+          })}</span>
+        </p>
+        <Link
+          href={`/fires/${encodeURIComponent(getFireId(fire))}`}
+          className="inline-block text-blue-700 hover:underline"
+        >
+          Fire details and share link
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, List, Search } from 'lucide-react';
+import {
+  DEFAULT_FIRE_LIST_FILTER,
+  DEFAULT_SORT_DIRECTIONS,
+  NEW_FIRE_HOURS,
+  createFireListEntries,
+  filterFireList,
+  isNewFire,
+  listCounties,
+  sortFireList
+} from '@/utils/fireList';
+import { getFireId } from '@/utils/fireIdentity';
+import type { FireListFilter, FireSortKey, SortDirection } from '@/utils/fireList';
+import type { FireIndex } from '@/utils/nearby';
+import type { FireFeature, UserLocation } from '@/types';
+
+interface FireListProps {
+  fires: FireFeature[];
+  location: UserLocation | null;
+  fireIndex: FireIndex;
+  selected: FireFeature | null;
+  onSelect: (fire: FireFeature) => void;
+}
+
+// Acre thresholds offered in the size filter
+const SIZE_OPTIONS = [0, 100, 1000, 10000];
+
+const COLUMNS: Array<{ key: FireSortKey; label: string; align: string }> = [
+  { key: 'acres', label: 'Acres', align: 'text-right' },
+  { key: 'containment', label: 'Contained', align: 'text-right' },
+  { key: 'started', label: 'Started', align: 'text-right' },
+  { key: 'distance', label: 'Distance', align: 'text-right' }
+];
+
+function formatStarted(started: string): string {
+  const time = Date.parse(started);
+  if (!Number.isFinite(time)) return 'N/A';
+  return new Date(time).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' });
+}
+
+export function FireList({ fires, location, fireIndex, selected, onSelect }: FireListProps) {
+  const [filter, setFilter] = useState<FireListFilter>(DEFAULT_FIRE_LIST_FILTER);
+  const [sortKey, setSortKey] = useState<FireSortKey>('distance');
+  const [sortDirection, setSortDirection] = useState<SortDirection>(DEFAULT_SORT_DIRECTIONS.distance);
+
+  const counties = useMemo(() => listCounties(fires), [fires]);
+  const entries = useMemo(
+    () => createFireListEntries(fires, location, fireIndex),
+    [fires, location, fireIndex]
+  );
+
+  // Distance means nothing until there's a location
+  const effectiveSortKey = !location && sortKey === 'distance' ? 'acres' : sortKey;
+  const effectiveDirection = effectiveSortKey === sortKey ? sortDirection : DEFAULT_SORT_DIRECTIONS.acres;
+  const listed = useMemo(
+    () => sortFireList(filterFireList(entries, filter), effectiveSortKey, effectiveDirection),
+    [entries, filter, effectiveSortKey, effectiveDirection]
+  );
+
+  const updateFilter = (changes: Partial<FireListFilter>) => {
+    setFilter((current) => ({ ...current, ...changes }));
+  };
+
+  // Clicking the current column flips it, a new column starts in its natural order
+  const handleSort = (key: FireSortKey) => {
+    setSortKey(key);
+    setSortDirection(
+      key === effectiveSortKey
+        ? (effectiveDirection === 'asc' ? 'desc' : 'asc')
+        : DEFAULT_SORT_DIRECTIONS[key]
+    );
+  };
+
+  const columns = location ? COLUMNS : COLUMNS.filter((column) => column.key !== 'distance');
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 mb-4">
+      <h3 className="text-lg font-bold mb-2 flex items-center gap-2">
+        <List className="w-4 h-4 text-gray-500" />
+        All Fires
+      </h3>
+
+      <div className="grid grid-cols-2 gap-2 mb-2 text-sm">
+        <label className="col-span-2 flex items-center gap-2 border border-gray-300 rounded px-2 py-1">
+          <Search className="w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={filter.query}
+            onChange={(event) => updateFilter({ query: event.target.value })}
+            placeholder="Search by name"
+            aria-label="Search fires by name"
+            className="w-full outline-none"
+          />
+        </label>
+        <select
+          value={filter.county}
+          onChange={(event) => updateFilter({ county: event.target.value })}
+          aria-label="Filter by county"
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="">All counties</option>
+          {counties.map((county) => (
+            <option key={county} value={county}>{county}</option>
+          ))}
+        </select>
+        <select
+          value={filter.minAcres}
+          onChange={(event) => updateFilter({ minAcres: Number(event.target.value) })}
+          aria-label="Minimum size"
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          {SIZE_OPTIONS.map((acres) => (
+            <option key={acres} value={acres}>
+              {acres === 0 ? 'Any size' : `${acres.toLocaleString()}+ acres`}
+            </option>
+          ))}
+        </select>
+        <label className="col-span-2 flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={filter.newOnly}
+            onChange={(event) => updateFilter({ newOnly: event.target.checked })}
+          />
+          New in the last {NEW_FIRE_HOURS}h
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-400 mb-1">
+        {listed.length} of {fires.length} fires
+      </p>
+
+      {listed.length === 0 ? (
+        <p className="text-sm text-gray-600">No fires match these filters.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white text-xs text-gray-500">
+              <tr>
+                <th className="text-left font-semibold py-1">Name</th>
+                {columns.map((column) => (
+                  <th key={column.key} className={`${column.align} font-semibold py-1`}>
+                    <button
+                      type="button"
+                      onClick={() => handleSort(column.key)}
+                      className="inline-flex items-center gap-0.5 hover:text-gray-900"
+                      aria-label={`Sort by ${column.label.toLowerCase()}`}
+                    >
+                      {column.label}
+                      {column.key === effectiveSortKey && (
+                        effectiveDirection === 'asc'
+                          ? <ArrowUp className="w-3 h-3" />
+                          : <ArrowDown className="w-3 h-3" />
+                      )}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {listed.map(({ fire, distance }) => (
+                <tr
+                  key={getFireId(fire)}
+                  onClick={() => onSelect(fire)}
+                  className={`cursor-pointer border-t border-gray-100 hover:bg-gray-50 ${
+                    fire === selected ? 'bg-red-50' : ''
+                  }`}
+                >
+                  <td className="py-1 pr-2">
+                    {/* Row clicks bubble up from here, this just makes rows reachable by keyboard */}
+                    <button type="button" className="font-medium text-left hover:underline">
+                      {fire.properties.Name}
+                      {isNewFire(fire) && (
+                        <span className="ml-1 text-[10px] font-semibold uppercase text-red-700">New</span>
+                      )}
+                    </button>
+                    <div className="text-xs text-gray-500">{fire.properties.County}</div>
+                  </td>
+                  <td className="py-1 text-right">{fire.properties.AcresBurned.toLocaleString()}</td>
+                  <td className="py-1 text-right">{fire.properties.PercentContained}%</td>
+                  <td className="py-1 text-right">{formatStarted(fire.properties.Started)}</td>
+                  {location && (
+                    <td className="py-1 text-right">
+                      {distance !== null ? `${distance.toFixed(1)} mi` : 'N/A'}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
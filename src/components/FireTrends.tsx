@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { TrendingDown, TrendingUp, Minus } from 'lucide-react';
+import { TrendChart } from '@/components/TrendChart';
+import { getFireId } from '@/utils/fireIdentity';
+import { GROWTH_WINDOW_HOURS, computeFireTrendStats } from '@/utils/fireTrends';
+import type { FireTrendPoint, FireTrendStats, GrowthTrend } from '@/utils/fireTrends';
+import type { FireFeature } from '@/types';
+
+interface FireTrendsProps {
+  fire: FireFeature;
+}
+
+const TREND_STYLES: Record<GrowthTrend, { label: string; className: string }> = {
+  accelerating: { label: 'Accelerating', className: 'bg-red-100 text-red-800' },
+  steady: { label: 'Steady', className: 'bg-gray-100 text-gray-700' },
+  slowing: { label: 'Slowing', className: 'bg-green-100 text-green-800' },
+  unknown: { label: 'Not enough history', className: 'bg-gray-100 text-gray-500' }
+};
+
+function formatRate(rate: number | null): string {
+  if (rate === null) return 'N/A';
+  return `${rate < 10 ? rate.toFixed(1) : Math.round(rate).toLocaleString()} acres/hr`;
+}
+
+function TrendIcon({ trend }: { trend: GrowthTrend }) {
+  if (trend === 'accelerating') return <TrendingUp className="w-3.5 h-3.5" />;
+  if (trend === 'slowing') return <TrendingDown className="w-3.5 h-3.5" />;
+  return <Minus className="w-3.5 h-3.5" />;
+}
+
+export function FireTrends({ fire }: FireTrendsProps) {
+  const [points, setPoints] = useState<FireTrendPoint[]>([]);
+  const [historyStats, setHistoryStats] = useState<FireTrendStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setPoints([]);
+    setHistoryStats(null);
+
+    fetch(`/api/fires/${encodeURIComponent(getFireId(fire))}/history`)
+      .then(async (response) => {
+        // 404 just means the fire is newer than the recorded history
+        if (response.status === 404) return;
+        if (!response.ok) throw new Error('Failed to fetch fire history');
+        const data: { points: FireTrendPoint[]; stats: FireTrendStats } = await response.json();
+        if (!cancelled) {
+          setPoints(data.points);
+          setHistoryStats(data.stats);
+        }
+      })
+      .catch((err) => console.error('Fire history fetch error:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [fire]);
+
+  // Days since start and the average rate only need the current feed
+  const stats = historyStats ?? computeFireTrendStats(
+    [{ at: Date.now(), acres: fire.properties.AcresBurned, contained: fire.properties.PercentContained }],
+    fire.properties.Started
+  );
+  const trend = loading ? 'unknown' : stats.trend;
+  const trendStyle = TREND_STYLES[trend];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold">Growth &amp; Containment</h3>
+        <span className={`flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded ${trendStyle.className}`}>
+          <TrendIcon trend={trend} />
+          {loading ? 'Loading…' : trendStyle.label}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div>
+          <div className="text-xs text-gray-500">Days since start</div>
+          <div className="font-semibold">
+            {stats.daysSinceStart !== null ? stats.daysSinceStart.toFixed(1) : 'N/A'}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Last {GROWTH_WINDOW_HOURS}h</div>
+          <div className="font-semibold">{formatRate(stats.growthRate)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Average</div>
+          <div className="font-semibold">{formatRate(stats.averageGrowthRate)}</div>
+        </div>
+      </div>
+
+      <TrendChart
+        title="Acres burned"
+        points={points.map((point) => ({ at: point.at, value: point.acres }))}
+        color="#dc2626"
+        formatValue={(value) => Math.round(value).toLocaleString()}
+      />
+      <TrendChart
+        title="Containment"
+        points={points.map((point) => ({ at: point.at, value: point.contained }))}
+        color="#16a34a"
+        formatValue={(value) => `${Math.round(value)}%`}
+        maxValue={100}
+      />
+
+      {!loading && points.length < 2 && (
+        <p className="text-xs text-gray-400 mt-2">
+          Charts appear once this fire has been tracked for a while.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { MouseEvent as ReactMouseEvent, PointerEvent as ReactPointerEvent } from 'react';
+import { Minus, Plus, LocateFixed } from 'lucide-react';
+import { EVACUATION_STATUS_STYLES } from '@/components/EvacuationStatusBadge';
+import { getGeometryPolygons } from '@/utils/geometry';
+import { TILE_SIZE, projectPoint, tileUrl, unprojectPoint, zoomScale } from '@/utils/mercator';
+import type { EvacuationFeature, FireFeature, FirePerimeterFeature, PolygonalGeometry } from '@/types';
+
+export type MapSelection =
+  | { kind: 'fire'; fire: FireFeature }
+  | { kind: 'zone'; zone: EvacuationFeature };
+
+export interface MapFocus {
+  lat: number;
+  lng: number;
+  zoom?: number;
+}
+
+interface HazardMapProps {
+  fires: FireFeature[];
+  zones: EvacuationFeature[];
+  perimeters: FirePerimeterFeature[];
+  userLocation: { lat: number; lng: number } | null;
+  selected: MapSelection | null;
+  onSelect: (selection: MapSelection | null) => void;
+  // Recenters the map whenever a new object is passed
+  focus?: MapFocus | null;
+  // While picking, a click anywhere reports its coordinates instead of selecting
+  picking?: boolean;
+  onPickLocation?: (point: { lat: number; lng: number }) => void;
+}
+
+// Tiles come from a {z}/{x}/{y} template so a self-hosted or offline tile
+// server can be used. Without one the map still draws all hazard data.
+const TILE_TEMPLATE = process.env.NEXT_PUBLIC_MAP_TILE_URL;
+const TILE_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION;
+
+const MIN_ZOOM = 4;
+const MAX_ZOOM = 16;
+const DEFAULT_ZOOM = 6;
+const USER_ZOOM = 10;
+const FOCUS_ZOOM = 11;
+// Roughly the middle of California
+const DEFAULT_CENTER = projectPoint(-119.5, 37.2);
+// Pointer movement below this many pixels still counts as a click
+const DRAG_THRESHOLD = 4;
+
+function fireRadius(acres: number): number {
+  return Math.min(24, 4 + Math.sqrt(Math.max(acres, 0)) / 12);
+}
+
+function geometryPath(geometry: PolygonalGeometry): string {
+  return getGeometryPolygons(geometry)
+    .flatMap((polygon) => polygon)
+    .map((ring) =>
+      ring
+        .map(([lon, lat], i) => {
+          const [x, y] = projectPoint(lon, lat);
+          return `${i === 0 ? 'M' : 'L'}${x.toFixed(6)} ${y.toFixed(6)}`;
+        })
+        .join('') + 'Z'
+    )
+    .join('');
+}
+
+function isSameFire(selection: MapSelection | null, fire: FireFeature): boolean {
+  return selection?.kind === 'fire' && selection.fire === fire;
+}
+
+function isSameZone(selection: MapSelection | null, zone: EvacuationFeature): boolean {
+  return selection?.kind === 'zone' && selection.zone === zone;
+}
+
+export default function HazardMap({
+  fires,
+  zones,
+  perimeters,
+  userLocation,
+  selected,
+  onSelect,
+  focus,
+  picking = false,
+  onPickLocation
+}: HazardMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<{ center: [number, number]; zoom: number }>({
+    center: DEFAULT_CENTER,
+    zoom: DEFAULT_ZOOM
+  });
+  const { center, zoom } = view;
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const hasCenteredOnUser = useRef(false);
+
+  const scale = zoomScale(zoom);
+
+  // Paths are projected once per dataset and scaled with an SVG transform
+  const zonePaths = useMemo(
+    () => zones.map((zone) => ({ zone, d: geometryPath(zone.geometry) })),
+    [zones]
+  );
+  const perimeterPaths = useMemo(
+    () => perimeters.map((perimeter) => ({ perimeter, d: geometryPath(perimeter.geometry) })),
+    [perimeters]
+  );
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Center on the user the first time their location is known
+  useEffect(() => {
+    if (userLocation && !hasCenteredOnUser.current) {
+      hasCenteredOnUser.current = true;
+      setView({ center: projectPoint(userLocation.lng, userLocation.lat), zoom: USER_ZOOM });
+    }
+  }, [userLocation]);
+
+  useEffect(() => {
+    if (focus) {
+      setView((current) => ({
+        center: projectPoint(focus.lng, focus.lat),
+        zoom: Math.max(current.zoom, focus.zoom ?? FOCUS_ZOOM)
+      }));
+    }
+  }, [focus]);
+
+  // Wheel zoom keeps the point under the cursor fixed. Registered natively
+  // because React's wheel listener is passive and can't prevent scrolling.
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const offsetX = event.clientX - rect.left - rect.width / 2;
+      const offsetY = event.clientY - rect.top - rect.height / 2;
+      setView((current) => {
+        const nextZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom + (event.deltaY < 0 ? 1 : -1)));
+        const currentScale = zoomScale(current.zoom);
+        const nextScale = zoomScale(nextZoom);
+        const [x, y] = current.center;
+        return {
+          center: [
+            x + offsetX / currentScale - offsetX / nextScale,
+            y + offsetY / currentScale - offsetY / nextScale
+          ],
+          zoom: nextZoom
+        };
+      });
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    dragRef.current = { x: event.clientX, y: event.clientY, moved: false };
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    drag.x = event.clientX;
+    drag.y = event.clientY;
+    setView((current) => {
+      const currentScale = zoomScale(current.zoom);
+      return {
+        ...current,
+        center: [current.center[0] - dx / currentScale, current.center[1] - dy / currentScale]
+      };
+    });
+  };
+
+  const handlePointerUp = () => {
+    // Keep the moved flag until the click handlers below have run
+    setTimeout(() => { dragRef.current = null; }, 0);
+  };
+
+  const wasDrag = () => dragRef.current?.moved ?? false;
+
+  const handleSelect = (selection: MapSelection | null) => {
+    if (!wasDrag() && !picking) onSelect(selection);
+  };
+
+  const changeZoom = (delta: number) => {
+    setView((current) => ({
+      ...current,
+      zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom + delta))
+    }));
+  };
+
+  const translateX = size.width / 2 - center[0] * scale;
+  const translateY = size.height / 2 - center[1] * scale;
+  const toScreen = (lon: number, lat: number): [number, number] => {
+    const [x, y] = projectPoint(lon, lat);
+    return [x * scale + translateX, y * scale + translateY];
+  };
+
+  const tiles: Array<{ key: string; href: string; x: number; y: number }> = [];
+  if (TILE_TEMPLATE && size.width > 0) {
+    const tileCount = zoomScale(zoom);
+    const minTileX = Math.floor(-translateX / TILE_SIZE);
+    const maxTileX = Math.floor((size.width - translateX) / TILE_SIZE);
+    const minTileY = Math.max(0, Math.floor(-translateY / TILE_SIZE));
+    const maxTileY = Math.min(tileCount - 1, Math.floor((size.height - translateY) / TILE_SIZE));
+    for (let tileX = minTileX; tileX <= maxTileX; tileX++) {
+      for (let tileY = minTileY; tileY <= maxTileY; tileY++) {
+        const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${zoom}/${tileX}/${tileY}`,
+          href: tileUrl(TILE_TEMPLATE, zoom, wrappedX, tileY),
+          x: tileX * TILE_SIZE + translateX,
+          y: tileY * TILE_SIZE + translateY
+        });
+      }
+    }
+  }
+
+  const userPoint = userLocation ? toScreen(userLocation.lng, userLocation.lat) : null;
+
+  const handlePick = (event: ReactMouseEvent<HTMLDivElement>) => {
+    const element = containerRef.current;
+    if (!picking || !onPickLocation || !element || wasDrag()) return;
+    const rect = element.getBoundingClientRect();
+    const [lng, lat] = unprojectPoint(
+      (event.clientX - rect.left - translateX) / scale,
+      (event.clientY - rect.top - translateY) / scale
+    );
+    // Wrap longitudes from panning across the antimeridian
+    onPickLocation({ lat, lng: ((((lng + 180) % 360) + 360) % 360) - 180 });
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full h-full overflow-hidden bg-[#e8eef2] select-none touch-none ${picking ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`}
+      onClick={handlePick}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+    >
+      <svg width={size.width} height={size.height} className="block">
+        {tiles.map((tile) => (
+          <image
+            key={tile.key}
+            href={tile.href}
+            x={tile.x}
+            y={tile.y}
+            width={TILE_SIZE}
+            height={TILE_SIZE}
+          />
+        ))}
+
+        <rect
+          width={size.width}
+          height={size.height}
+          fill="transparent"
+          onClick={() => handleSelect(null)}
+        />
+
+        <g transform={`translate(${translateX} ${translateY}) scale(${scale})`}>
+          {/* Burned area sits underneath zones, purely for context */}
+          {perimeterPaths.map(({ perimeter, d }, index) => (
+            <path
+              key={`${perimeter.properties.incident_name}-${index}`}
+              d={d}
+              fill="#7f1d1d"
+              fillOpacity={0.25}
+              fillRule="evenodd"
+              stroke="#7f1d1d"
+              strokeWidth={1}
+              strokeDasharray="4 2"
+              vectorEffect="non-scaling-stroke"
+              pointerEvents="none"
+            />
+          ))}
+          {zonePaths.map(({ zone, d }, index) => {
+            const { fill } = EVACUATION_STATUS_STYLES[zone.properties.status];
+            const isSelected = isSameZone(selected, zone);
+            return (
+              <path
+                key={`${zone.properties.zone_id}-${index}`}
+                d={d}
+                fill={fill}
+                fillOpacity={isSelected ? 0.55 : 0.3}
+                fillRule="evenodd"
+                stroke={fill}
+                strokeWidth={isSelected ? 3 : 1}
+                vectorEffect="non-scaling-stroke"
+                className={picking ? undefined : 'cursor-pointer'}
+                onClick={() => handleSelect({ kind: 'zone', zone })}
+              >
+                <title>{`${zone.properties.zone_id} — ${zone.properties.zone_status}`}</title>
+              </path>
+            );
+          })}
+        </g>
+
+        {fires.map((fire, index) => {
+          const [x, y] = toScreen(fire.geometry.coordinates[0], fire.geometry.coordinates[1]);
+          if (x < -30 || y < -30 || x > size.width + 30 || y > size.height + 30) return null;
+          const isSelected = isSameFire(selected, fire);
+          return (
+            <circle
+              key={`${fire.properties.Name}-${index}`}
+              cx={x}
+              cy={y}
+              r={fireRadius(fire.properties.AcresBurned)}
+              fill="#ef4444"
+              fillOpacity={0.75}
+              stroke={isSelected ? '#111827' : '#ffffff'}
+              strokeWidth={isSelected ? 3 : 1.5}
+              className={picking ? undefined : 'cursor-pointer'}
+              role="button"
+              aria-label={fire.properties.Name}
+              onClick={() => handleSelect({ kind: 'fire', fire })}
+            >
+              <title>{`${fire.properties.Name} — ${fire.properties.AcresBurned.toLocaleString()} acres`}</title>
+            </circle>
+          );
+        })}
+
+        {userPoint && (
+          <g pointerEvents="none">
+            <circle cx={userPoint[0]} cy={userPoint[1]} r={14} fill="#3b82f6" fillOpacity={0.2} />
+            <circle cx={userPoint[0]} cy={userPoint[1]} r={6} fill="#3b82f6" stroke="#ffffff" strokeWidth={2} />
+          </g>
+        )}
+      </svg>
+
+      {/* Control clicks must not reach the pick handler on the container */}
+      <div
+        className="absolute top-2 right-2 flex flex-col bg-white rounded shadow"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <button className="p-2 hover:bg-gray-100" aria-label="Zoom in" onClick={() => changeZoom(1)}>
+          <Plus className="w-4 h-4" />
+        </button>
+        <button className="p-2 hover:bg-gray-100 border-t border-gray-200" aria-label="Zoom out" onClick={() => changeZoom(-1)}>
+          <Minus className="w-4 h-4" />
+        </button>
+        {userLocation && (
+          <button
+            className="p-2 hover:bg-gray-100 border-t border-gray-200"
+            aria-label="Center on my location"
+            onClick={() => {
+              setView({ center: projectPoint(userLocation.lng, userLocation.lat), zoom: USER_ZOOM });
+            }}
+          >
+            <LocateFixed className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {TILE_ATTRIBUTION && (
+        <div className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-gray-600">
+          {TILE_ATTRIBUTION}
+        </div>
+      )}
+    </div>
+  );
+}
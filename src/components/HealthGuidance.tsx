@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  DEFAULT_HEALTH_PROFILE,
+  GUIDANCE_KIND_LABELS,
+  HEALTH_PROFILES,
+  getDominantPollutant,
+  getHealthGuidance,
+  isHealthProfile,
+  loadHealthProfile,
+  saveHealthProfile
+} from '@/utils/healthGuidance';
+import type { HealthProfile } from '@/utils/healthGuidance';
+import type { AirQualityData } from '@/utils/airQuality';
+
+interface HealthGuidanceProps {
+  readings: AirQualityData[];
+}
+
+// Advice for the chosen health profile, driven by the worst pollutant
+export function HealthGuidance({ readings }: HealthGuidanceProps) {
+  const [profile, setProfile] = useState<HealthProfile>(DEFAULT_HEALTH_PROFILE);
+
+  // localStorage isn't available during server rendering
+  useEffect(() => {
+    setProfile(loadHealthProfile());
+  }, []);
+
+  const handleProfileChange = (value: string) => {
+    if (!isHealthProfile(value)) return;
+    setProfile(value);
+    saveHealthProfile(value);
+  };
+
+  const dominant = getDominantPollutant(readings);
+  const items = dominant ? getHealthGuidance(dominant.pollutant, dominant.aqi, profile) : [];
+  const kinds = Array.from(new Set(items.map((item) => item.kind)));
+
+  return (
+    <div className="mt-4 pt-3 border-t border-gray-100">
+      <div className="flex justify-between items-center gap-2 mb-2">
+        <label htmlFor="health-profile" className="text-sm text-gray-500">Advice for</label>
+        <select
+          id="health-profile"
+          value={profile}
+          onChange={(e) => handleProfileChange(e.target.value)}
+          className="text-sm border border-gray-200 rounded px-2 py-1 text-gray-700"
+        >
+          {HEALTH_PROFILES.map(({ id, label }) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {dominant && (
+        <div className="text-xs text-gray-500 mb-2">
+          Driven by {dominant.pollutant} (AQI {dominant.aqi})
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="text-xs text-gray-700">No special precautions needed right now.</div>
+      ) : (
+        <div className="space-y-2">
+          {kinds.map((kind) => (
+            <div key={kind}>
+              <div className="text-xs font-semibold text-gray-700">{GUIDANCE_KIND_LABELS[kind]}</div>
+              <ul className="list-disc pl-4 text-xs text-gray-700 space-y-0.5">
+                {items.filter((item) => item.kind === kind).map((item) => (
+                  <li key={item.ruleId}>{item.text}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { Crosshair, LocateFixed, MapPin, Search } from 'lucide-react';
+import type { GeocodeResult, UserLocation } from '@/types';
+
+interface LocationPickerProps {
+  location: UserLocation | null;
+  onChange: (location: UserLocation) => void;
+  onUseGps: () => void;
+  // Map click mode is owned by the page so the map can share it
+  picking: boolean;
+  onPickingChange: (picking: boolean) => void;
+}
+
+const SOURCE_LABELS: Record<UserLocation['source'], string> = {
+  gps: 'Using your device location',
+  search: 'Using a searched location',
+  map: 'Using a point picked on the map',
+  saved: 'Using a saved place'
+};
+
+export function LocationPicker({ location, onChange, onUseGps, picking, onPickingChange }: LocationPickerProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState('');
+
+  const choose = (result: GeocodeResult) => {
+    onChange({ lat: result.lat, lng: result.lng, source: 'search', label: result.label });
+    setResults([]);
+    setQuery('');
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!query.trim()) return;
+
+    try {
+      setSearching(true);
+      setError('');
+      const response = await fetch(`/api/geocode?q=${encodeURIComponent(query.trim())}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to look up location');
+
+      const found: GeocodeResult[] = data.results;
+      if (found.length === 0) {
+        setError('No matching places found. Try a ZIP code or "lat, lng".');
+        setResults([]);
+      } else if (found.length === 1) {
+        choose(found[0]);
+      } else {
+        setResults(found);
+      }
+    } catch (err) {
+      console.error('Geocode error:', err);
+      setError('Location search failed. Please try again.');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 mb-4">
+      <div className="flex items-center justify-between gap-2 mb-2 text-sm">
+        <span className="flex items-center gap-1 text-gray-700 min-w-0">
+          <MapPin className="w-4 h-4 shrink-0 text-blue-500" />
+          <span className="truncate">
+            {location ? location.label : 'No location set'}
+          </span>
+        </span>
+        {location && (
+          <span className="text-xs text-gray-400 shrink-0">{SOURCE_LABELS[location.source]}</span>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Address, ZIP code or lat, lng"
+          aria-label="Search for a location"
+          className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={searching}
+          className="p-2 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+          aria-label="Search"
+        >
+          <Search className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onPickingChange(!picking)}
+          className={`p-2 rounded border ${picking ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 hover:bg-gray-100'}`}
+          aria-label="Pick a location on the map"
+          aria-pressed={picking}
+        >
+          <Crosshair className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={onUseGps}
+          className="p-2 rounded border border-gray-300 hover:bg-gray-100"
+          aria-label="Use my device location"
+        >
+          <LocateFixed className="w-4 h-4" />
+        </button>
+      </form>
+
+      {picking && (
+        <p className="text-xs text-blue-700 mt-2">Click anywhere on the map to set your location.</p>
+      )}
+      {error && <p className="text-xs text-red-700 mt-2">{error}</p>}
+
+      {results.length > 0 && (
+        <ul className="mt-2 divide-y divide-gray-100 text-sm">
+          {results.map((result, index) => (
+            <li key={`${result.lat},${result.lng}-${index}`}>
+              <button
+                type="button"
+                onClick={() => choose(result)}
+                className="w-full text-left px-1 py-1.5 hover:bg-gray-50"
+              >
+                {result.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { WifiOff } from 'lucide-react';
+import type { UpstreamSource } from '@/utils/upstreamClient';
+
+interface OfflineBannerProps {
+  offline: boolean;
+  // Sources served from the service worker cache, with the data's timestamp
+  sources: Partial<Record<UpstreamSource, number>>;
+}
+
+function formatTime(time: number): string {
+  const sameDay = new Date(time).toDateString() === new Date().toDateString();
+  return new Date(time).toLocaleString('en-US', sameDay
+    ? { hour: 'numeric', minute: '2-digit' }
+    : { month: 'numeric', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export function OfflineBanner({ offline, sources }: OfflineBannerProps) {
+  const times = Object.values(sources);
+  if (!offline && times.length === 0) return null;
+
+  // The oldest source is the honest answer to "how old is this"
+  const dataFrom = times.length > 0 ? Math.min(...times) : null;
+
+  return (
+    <div className="text-gray-800 mb-4 p-3 bg-gray-100 rounded-lg border border-gray-300 text-sm" role="status">
+      <p className="font-semibold flex items-center gap-2">
+        <WifiOff className="w-4 h-4" />
+        {dataFrom !== null ? `Offline — data from ${formatTime(dataFrom)}` : 'Offline — showing the last data loaded'}
+      </p>
+      <p className="text-xs mt-1">
+        Distances are worked out from saved data and may be out of date. Follow official instructions from local authorities.
+      </p>
+    </div>
+  );
+}
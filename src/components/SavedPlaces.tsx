@@ -0,0 +1,337 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { FormEvent } from 'react';
+import { Bell, BellOff, Bookmark, Link2, X } from 'lucide-react';
+import { AQI_CATEGORIES } from '@/components/AirQualityDisplay';
+import { EvacuationStatusBadge } from '@/components/EvacuationStatusBadge';
+import { fetchAirQuality, getMainAQI } from '@/utils/airQuality';
+import { summarizeLocation } from '@/utils/nearby';
+import type { FireIndex, LocationSummary, ZoneIndex } from '@/utils/nearby';
+import {
+  ALERT_RADIUS_OPTIONS,
+  DEFAULT_ALERT_RADIUS,
+  isPushSupported,
+  loadAlertPlaces,
+  storeAlertPlaces,
+  subscribeToAlerts,
+  unsubscribeFromAlerts
+} from '@/utils/pushClient';
+import type { AlertPlaces } from '@/utils/pushClient';
+import {
+  MAX_SAVED_PLACES,
+  PLACES_PARAM,
+  buildShareUrl,
+  createSavedPlace,
+  decodePlacesParam,
+  loadSavedPlaces,
+  mergePlaces,
+  storeSavedPlaces
+} from '@/utils/savedPlaces';
+import type { SavedPlace, UserLocation } from '@/types';
+
+interface SavedPlacesProps {
+  location: UserLocation | null;
+  fireIndex: FireIndex;
+  zoneIndex: ZoneIndex;
+  loading: boolean;
+  onSelect: (place: SavedPlace) => void;
+}
+
+interface PlaceRowProps {
+  place: SavedPlace;
+  summary: LocationSummary;
+  loading: boolean;
+  // Null when alerts are off or push isn't available
+  alertRadius: number | null;
+  alertsAvailable: boolean;
+  alertPending: boolean;
+  onSelect: () => void;
+  onRemove: () => void;
+  onToggleAlerts: () => void;
+}
+
+function PlaceAirQuality({ lat, lng }: { lat: number; lng: number }) {
+  const [reading, setReading] = useState<{ aqi: number; category: string } | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setReading(null);
+    setFailed(false);
+    fetchAirQuality(lat, lng)
+      .then(({ observations }) => {
+        if (!cancelled) setReading(getMainAQI(observations));
+      })
+      .catch((err) => {
+        console.error('Saved place AQI fetch error:', err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [lat, lng]);
+
+  if (failed) return <span className="text-gray-400">AQI N/A</span>;
+  if (!reading) return <span className="text-gray-400">AQI …</span>;
+
+  const categoryInfo = AQI_CATEGORIES[reading.category] || AQI_CATEGORIES['Good'];
+  return (
+    <span className={`font-semibold ${categoryInfo.color}`} title={reading.category}>
+      AQI {reading.aqi}
+    </span>
+  );
+}
+
+function PlaceRow({
+  place,
+  summary,
+  loading,
+  alertRadius,
+  alertsAvailable,
+  alertPending,
+  onSelect,
+  onRemove,
+  onToggleAlerts
+}: PlaceRowProps) {
+  const { closestFire, closestZone } = summary;
+
+  return (
+    <li className="py-2">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={onSelect}
+          className="font-semibold text-left truncate hover:underline"
+          title="Show this place"
+        >
+          {place.name}
+        </button>
+        <span className="flex items-center gap-2 shrink-0">
+          <PlaceAirQuality lat={place.lat} lng={place.lng} />
+          {alertsAvailable && (
+            <button
+              type="button"
+              onClick={onToggleAlerts}
+              disabled={alertPending}
+              className={`p-1 rounded hover:bg-gray-100 disabled:opacity-50 ${alertRadius ? 'text-blue-600' : 'text-gray-400'}`}
+              aria-label={alertRadius ? `Turn off alerts for ${place.name}` : `Turn on alerts for ${place.name}`}
+              aria-pressed={alertRadius !== null}
+              title={alertRadius ? `Alerts on within ${alertRadius} miles` : 'Alerts off'}
+            >
+              {alertRadius ? <Bell className="w-3.5 h-3.5" /> : <BellOff className="w-3.5 h-3.5" />}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onRemove}
+            className="p-1 rounded hover:bg-gray-100 text-gray-400"
+            aria-label={`Remove ${place.name}`}
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </span>
+      </div>
+
+      {loading ? (
+        <p className="text-xs text-gray-400 mt-1">Loading hazards…</p>
+      ) : (
+        <div className="text-xs text-gray-600 mt-1 space-y-1">
+          <p>
+            {closestFire
+              ? `${closestFire.fire.properties.Name} · ${closestFire.inside ? 'inside perimeter' : `${closestFire.distance.toFixed(1)} mi`}`
+              : 'No active fires'}
+          </p>
+          {closestZone ? (
+            <p className="flex items-center gap-2">
+              <EvacuationStatusBadge status={closestZone.zone.properties.status} />
+              <span>
+                {closestZone.inside
+                  ? `Inside zone ${closestZone.zone.properties.zone_id}`
+                  : `Outside zone ${closestZone.zone.properties.zone_id} · ${closestZone.distance.toFixed(1)} mi`}
+              </span>
+            </p>
+          ) : (
+            <p>No evacuation zones nearby</p>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+export function SavedPlaces({ location, fireIndex, zoneIndex, loading, onSelect }: SavedPlacesProps) {
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [alertPlaces, setAlertPlaces] = useState<AlertPlaces>({});
+  const [alertsAvailable, setAlertsAvailable] = useState(false);
+  const [alertRadius, setAlertRadius] = useState(DEFAULT_ALERT_RADIUS);
+  const [pendingAlerts, setPendingAlerts] = useState<string[]>([]);
+  const [alertError, setAlertError] = useState('');
+
+  // Storage and shared links are only readable on the client, once mounted
+  useEffect(() => {
+    const stored = loadSavedPlaces();
+    const params = new URLSearchParams(window.location.search);
+    const shared = params.get(PLACES_PARAM);
+    setPlaces(shared ? mergePlaces(stored, decodePlacesParam(shared)) : stored);
+
+    // Drop the parameter so a reload doesn't re-add places the user removed
+    if (shared) {
+      params.delete(PLACES_PARAM);
+      const search = params.toString();
+      window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+    }
+    setAlertPlaces(loadAlertPlaces());
+    setAlertsAvailable(isPushSupported());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) storeSavedPlaces(places);
+  }, [places, loaded]);
+
+  useEffect(() => {
+    if (loaded) storeAlertPlaces(alertPlaces);
+  }, [alertPlaces, loaded]);
+
+  // Same nearest fire and priority zone logic as the main cards
+  const summaries = useMemo(
+    () => places.map((place) => ({
+      place,
+      summary: summarizeLocation(place.lat, place.lng, fireIndex, zoneIndex)
+    })),
+    [places, fireIndex, zoneIndex]
+  );
+
+  const isFull = places.length >= MAX_SAVED_PLACES;
+
+  const toggleAlerts = async (place: SavedPlace) => {
+    const enabled = place.id in alertPlaces;
+    try {
+      setPendingAlerts((current) => [...current, place.id]);
+      setAlertError('');
+      if (enabled) {
+        await unsubscribeFromAlerts(place.id);
+        setAlertPlaces(({ [place.id]: _removed, ...rest }) => rest);
+      } else {
+        await subscribeToAlerts(place, alertRadius);
+        setAlertPlaces((current) => ({ ...current, [place.id]: alertRadius }));
+      }
+    } catch (err) {
+      console.error('Alert subscription error:', err);
+      setAlertError(err instanceof Error ? err.message : 'Failed to update alerts');
+    } finally {
+      setPendingAlerts((current) => current.filter((id) => id !== place.id));
+    }
+  };
+
+  const removePlace = (place: SavedPlace) => {
+    // Stop alerts for a place that's no longer listed
+    if (place.id in alertPlaces) {
+      unsubscribeFromAlerts(place.id).catch((err) => console.error('Alert unsubscribe error:', err));
+      setAlertPlaces(({ [place.id]: _removed, ...rest }) => rest);
+    }
+    setPlaces((current) => current.filter((saved) => saved.id !== place.id));
+  };
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    if (!location || isFull) return;
+    const place = createSavedPlace(name || location.label, location.lat, location.lng);
+    if (!place) return;
+    setPlaces((current) => mergePlaces(current, [place]));
+    setName('');
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(places));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy share link:', err);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Bookmark className="w-4 h-4 text-blue-500" />
+          Saved Places
+        </h3>
+        {places.length > 0 && (
+          <button
+            type="button"
+            onClick={handleShare}
+            className="flex items-center gap-1 text-xs text-blue-700 hover:underline"
+          >
+            <Link2 className="w-3.5 h-3.5" />
+            {copied ? 'Link copied' : 'Copy share link'}
+          </button>
+        )}
+      </div>
+
+      {summaries.length > 0 ? (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {summaries.map(({ place, summary }) => (
+            <PlaceRow
+              key={place.id}
+              place={place}
+              summary={summary}
+              loading={loading}
+              alertRadius={alertPlaces[place.id] ?? null}
+              alertsAvailable={alertsAvailable}
+              alertPending={pendingAlerts.includes(place.id)}
+              onSelect={() => onSelect(place)}
+              onRemove={() => removePlace(place)}
+              onToggleAlerts={() => toggleAlerts(place)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Save places you want to keep an eye on, like a parent&apos;s house or the office.
+        </p>
+      )}
+
+      {alertsAvailable && places.length > 0 && (
+        <label className="flex items-center gap-2 text-xs text-gray-600 mt-2">
+          <Bell className="w-3.5 h-3.5" />
+          Alert me about new orders, warnings and fires within
+          <select
+            value={alertRadius}
+            onChange={(event) => setAlertRadius(Number(event.target.value))}
+            className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+          >
+            {ALERT_RADIUS_OPTIONS.map((radius) => (
+              <option key={radius} value={radius}>{radius} miles</option>
+            ))}
+          </select>
+        </label>
+      )}
+      {alertError && <p className="text-xs text-red-700 mt-1">{alertError}</p>}
+
+      <form onSubmit={handleSave} className="flex gap-2 mt-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={location ? `Name (default: ${location.label})` : 'Set a location to save it'}
+          aria-label="Name for the saved place"
+          disabled={!location || isFull}
+          className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm disabled:bg-gray-50"
+        />
+        <button
+          type="submit"
+          disabled={!location || isFull}
+          className="px-3 py-1 rounded border border-gray-300 text-sm hover:bg-gray-100 disabled:opacity-50"
+        >
+          Save current location
+        </button>
+      </form>
+      {isFull && (
+        <p className="text-xs text-gray-500 mt-1">You can save up to {MAX_SAVED_PLACES} places.</p>
+      )}
+    </div>
+  );
+}
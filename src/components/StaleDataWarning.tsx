@@ -0,0 +1,43 @@
+import { Clock } from 'lucide-react';
+import type { UpstreamSource } from '@/utils/upstreamClient';
+
+interface StaleDataWarningProps {
+  // Sources served from their last good copy, with that copy's timestamp
+  sources: Partial<Record<UpstreamSource, number>>;
+}
+
+const SOURCE_NAMES: Record<UpstreamSource, string> = {
+  fires: 'Fire',
+  evacuations: 'Evacuation zone',
+  perimeters: 'Fire perimeter',
+  airnow: 'AirNow',
+  aqicn: 'AQICN',
+  purpleair: 'PurpleAir'
+};
+
+function formatAsOf(time: number): string {
+  const sameDay = new Date(time).toDateString() === new Date().toDateString();
+  return new Date(time).toLocaleString('en-US', sameDay
+    ? { hour: 'numeric', minute: '2-digit' }
+    : { month: 'numeric', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export function StaleDataWarning({ sources }: StaleDataWarningProps) {
+  const entries = Object.entries(sources) as Array<[UpstreamSource, number]>;
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="text-amber-800 mb-4 p-3 bg-amber-50 rounded-lg border border-amber-200 text-sm" role="status">
+      <p className="font-semibold flex items-center gap-2 mb-1">
+        <Clock className="w-4 h-4" />
+        Live data is temporarily unavailable
+      </p>
+      <ul className="space-y-0.5">
+        {entries.map(([source, asOf]) => (
+          <li key={source}>{SOURCE_NAMES[source]} data as of {formatAsOf(asOf)}</li>
+        ))}
+      </ul>
+      <p className="text-xs mt-1">Conditions may have changed. Follow official instructions from local authorities.</p>
+    </div>
+  );
+}
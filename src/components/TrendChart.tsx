@@ -0,0 +1,68 @@
+interface TrendChartProps {
+  title: string;
+  points: Array<{ at: number; value: number }>;
+  color: string;
+  formatValue: (value: number) => string;
+  // Fixed top of the scale, e.g. 100 for percentages
+  maxValue?: number;
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+
+function formatDate(time: number): string {
+  return new Date(time).toLocaleString('en-US', {
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric'
+  });
+}
+
+// Small line chart of one value over time. The SVG stretches to the
+// container width, so labels are HTML around it rather than SVG text.
+export function TrendChart({ title, points, color, formatValue, maxValue }: TrendChartProps) {
+  if (points.length < 2) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const top = maxValue ?? Math.max(...points.map((point) => point.value));
+  const bottom = maxValue !== undefined ? 0 : Math.min(...points.map((point) => point.value));
+  const valueRange = top - bottom || 1;
+  const timeRange = last.at - first.at || 1;
+
+  const coordinates = points.map((point) => [
+    ((point.at - first.at) / timeRange) * WIDTH,
+    HEIGHT - ((point.value - bottom) / valueRange) * HEIGHT
+  ]);
+  const line = coordinates.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`).join('');
+  const area = `${line}L${WIDTH} ${HEIGHT}L0 ${HEIGHT}Z`;
+
+  return (
+    <div className="mt-3">
+      <div className="flex justify-between text-xs mb-1">
+        <span className="font-semibold text-gray-700">{title}</span>
+        <span className="text-gray-500">{formatValue(last.value)}</span>
+      </div>
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-[10px] text-gray-400 text-right w-12 shrink-0">
+          <span>{formatValue(top)}</span>
+          <span>{formatValue(bottom)}</span>
+        </div>
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-20 bg-gray-50 rounded"
+          role="img"
+          aria-label={`${title} from ${formatValue(first.value)} to ${formatValue(last.value)}`}
+        >
+          <path d={area} fill={color} fillOpacity={0.15} />
+          <path d={line} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        </svg>
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-400 pl-14">
+        <span>{formatDate(first.at)}</span>
+        <span>{formatDate(last.at)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { LocateFixed } from 'lucide-react';
+import { calculateDistance } from '@/utils/distance';
+
+interface ViewerDistanceProps {
+  lat: number;
+  lng: number;
+}
+
+// Distance from the viewer to a point, for pages opened from a shared link.
+// The position is only requested up front when permission was already
+// granted, so a cold visit doesn't open with a browser prompt.
+export function ViewerDistance({ lat, lng }: ViewerDistanceProps) {
+  const [distance, setDistance] = useState<number | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const locate = useCallback(() => {
+    if (!navigator.geolocation) {
+      setError('Location is not supported by your browser');
+      return;
+    }
+
+    setLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setDistance(calculateDistance(position.coords.latitude, position.coords.longitude, lat, lng));
+        setLocating(false);
+      },
+      () => {
+        setError('Unable to get your location');
+        setLocating(false);
+      }
+    );
+  }, [lat, lng]);
+
+  useEffect(() => {
+    if (!navigator.permissions) return;
+    navigator.permissions
+      .query({ name: 'geolocation' })
+      .then((status) => {
+        if (status.state === 'granted') locate();
+      })
+      .catch(() => {});
+  }, [locate]);
+
+  if (distance !== null) {
+    return (
+      <p className="text-sm">
+        <span className="font-bold">Distance from you:</span>
+        <span className="ml-2">{distance.toFixed(1)} miles</span>
+      </p>
+    );
+  }
+
+  return (
+    <div className="text-sm">
+      <button
+        type="button"
+        onClick={locate}
+        disabled={locating}
+        className="flex items-center gap-1 text-blue-700 hover:underline disabled:text-gray-400"
+      >
+        <LocateFixed className="w-4 h-4" />
+        {locating ? 'Getting your location…' : 'Show distance from me'}
+      </button>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import type { EvacuationFeature, EvacuationStatus, FireFeature, PolygonRings } from '@/types';
+
+// Feature builders for tests. Only the fields a test cares about need
+// passing; the rest get plausible defaults.
+
+// Closed square ring of `half` degrees either side of a centre
+export function squareRing(lat: number, lng: number, half: number): PolygonRings[number] {
+  return [
+    [lng - half, lat - half],
+    [lng + half, lat - half],
+    [lng + half, lat + half],
+    [lng - half, lat + half],
+    [lng - half, lat - half]
+  ];
+}
+
+export function fireFeature(properties: Partial<FireFeature['properties']> = {}): FireFeature {
+  const Latitude = properties.Latitude ?? 34.19;
+  const Longitude = properties.Longitude ?? -118.13;
+  return {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [Longitude, Latitude] },
+    properties: {
+      Name: 'Test Fire',
+      IsActive: true,
+      Final: false,
+      Location: 'Test',
+      AcresBurned: 100,
+      PercentContained: 0,
+      Started: '2026-01-15T00:00:00Z',
+      Updated: '2026-01-15T00:00:00Z',
+      County: 'Los Angeles',
+      ...properties,
+      Latitude,
+      Longitude
+    }
+  };
+}
+
+export function zoneFeature(
+  zoneId: string,
+  status: EvacuationStatus,
+  rings: PolygonRings = [squareRing(34.19, -118.13, 0.01)],
+  properties: Partial<EvacuationFeature['properties']> = {}
+): EvacuationFeature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: rings },
+    properties: {
+      zone_id: zoneId,
+      zone_status: status,
+      zone_status_reason: null,
+      last_updated: 0,
+      county_name: 'Los Angeles',
+      status,
+      hazard: 'fire',
+      ...properties
+    }
+  };
+}
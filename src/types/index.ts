@@ -16,30 +16,111 @@ export interface FireFeature {
     County: string;
     Latitude: number;
     Longitude: number;
+    // CAL FIRE incident GUID, not present on every feed
+    UniqueId?: string;
   };
 }
 
 export interface FireData {
   type: string;
+  // Epoch milliseconds the upstream returned this data
+  asOf?: number;
   features: FireFeature[];
 }
 
+// GeoJSON positions are [longitude, latitude]
+export type Position = [number, number];
+export type LinearRing = Position[];
+// First ring is the outer boundary, any following rings are holes
+export type PolygonRings = LinearRing[];
+
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: PolygonRings;
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: PolygonRings[];
+}
+
+export type PolygonalGeometry = PolygonGeometry | MultiPolygonGeometry;
+
+// Normalized from the free-text zone_status, ordered roughly by severity
+export type EvacuationStatus =
+  | 'order'
+  | 'shelter_in_place'
+  | 'warning'
+  | 'advisory'
+  | 'lifted'
+  | 'normal';
+
+// Derived from zone_status_reason
+export type EvacuationHazard = 'fire' | 'flood' | 'other' | 'unknown';
+
 export interface EvacuationFeature {
   type: string;
-  geometry: {
-    type: string;
-    coordinates: Array<Array<[number, number]>>;
-  };
+  geometry: PolygonalGeometry;
   properties: {
     zone_id: string;
     zone_status: string;
     zone_status_reason: string | null;
     last_updated: number;
     county_name: string;
+    status: EvacuationStatus;
+    hazard: EvacuationHazard;
   };
 }
 
 export interface EvacuationData {
   type: string;
+  // Epoch milliseconds the upstream returned this data
+  asOf?: number;
   features: EvacuationFeature[];
-} 
\ No newline at end of file
+} 
+export interface FirePerimeterFeature {
+  type: string;
+  geometry: PolygonalGeometry;
+  properties: {
+    incident_name: string;
+    // IRWIN or CAL FIRE incident id, when the publisher includes one
+    incident_id: string | null;
+    acres: number | null;
+    // Epoch milliseconds of the last perimeter update
+    updated: number | null;
+  };
+}
+
+export interface FirePerimeterData {
+  type: string;
+  // Epoch milliseconds the upstream returned this data
+  asOf?: number;
+  features: FirePerimeterFeature[];
+}
+
+// Where distances are measured from: a GPS fix, a searched place, a map
+// click or one of the user's saved places
+export type LocationSource = 'gps' | 'search' | 'map' | 'saved';
+
+export interface UserLocation {
+  lat: number;
+  lng: number;
+  source: LocationSource;
+  label: string;
+}
+
+export type GeocodeKind = 'address' | 'postal_code' | 'coordinates';
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  label: string;
+  kind: GeocodeKind;
+}
+
+export interface SavedPlace {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
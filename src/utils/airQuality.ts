@@ -0,0 +1,137 @@
+// Client-side air quality lookups shared by the main AQI card and saved places
+
+export interface AirQualityData {
+  ParameterName: string;
+  AQI: number;
+  Category: {
+    Number: number;
+    Name: string;
+  };
+  StateCode: string;
+  // Which provider the reading came from, e.g. 'airnow'
+  Provider?: string;
+  // Latest hourly concentration in Unit (µg/m³, ppb or ppm), when reported
+  Concentration?: number | null;
+  Unit?: string | null;
+  // AQI from the NowCast concentration, computed by the server
+  NowCast?: number | null;
+  NowCastAQI?: number | null;
+}
+
+export interface AirQualityForecastDay {
+  // YYYY-MM-DD in the forecast area's local time
+  date: string;
+  parameterName: string;
+  // Null when only a category was forecast
+  aqi: number | null;
+  category: {
+    Number: number;
+    Name: string;
+  };
+  actionDay: boolean;
+  discussion: string | null;
+  provider: string;
+}
+
+export interface AirQualityReport {
+  observations: AirQualityData[];
+  forecast: AirQualityForecastDay[];
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  airnow: 'AirNow',
+  aqicn: 'AQICN',
+  purpleair: 'PurpleAir'
+};
+
+function sourceLabel(item: AirQualityData): string {
+  if (item.Provider) return PROVIDER_LABELS[item.Provider] ?? item.Provider;
+  // Responses cached before readings were tagged with a provider
+  return item.StateCode === 'INT' ? 'AQICN' : 'AirNow';
+}
+
+// Responses cached before the forecast was added are a bare list of observations
+function toReport(data: unknown): AirQualityReport {
+  if (Array.isArray(data)) return { observations: data, forecast: [] };
+  const report = data as Partial<AirQualityReport> | null;
+  return {
+    observations: Array.isArray(report?.observations) ? report.observations : [],
+    forecast: Array.isArray(report?.forecast) ? report.forecast : []
+  };
+}
+
+export async function fetchAirQuality(lat: number, lng: number): Promise<AirQualityReport> {
+  // The server caches by ~2 km grid cell anyway, and fewer distinct URLs
+  // let the CDN share responses too
+  const response = await fetch(
+    `/api/air-quality?lat=${Number(lat).toFixed(2)}&lng=${Number(lng).toFixed(2)}`
+  );
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch AQI data');
+  }
+
+  const { observations, forecast } = toReport(data);
+
+  // Validate that we have valid data
+  if (observations.length === 0) {
+    throw new Error('No air quality data available for this location');
+  }
+
+  // Validate that we have valid AQI values
+  const validData: AirQualityData[] = observations.filter(item =>
+    item &&
+    typeof item.AQI === 'number' &&
+    !isNaN(item.AQI) &&
+    item.Category?.Name
+  );
+
+  if (validData.length === 0) {
+    throw new Error('No valid air quality measurements available');
+  }
+
+  return {
+    observations: validData,
+    forecast: forecast.filter((day) => day && typeof day.date === 'string' && day.category?.Name)
+  };
+}
+
+interface MainAQI {
+  aqi: number;
+  category: string;
+  source: string;
+  nowCastAqi: number | null;
+}
+
+export function getMainAQI(data: AirQualityData[]): MainAQI {
+  if (!data || data.length === 0) {
+    return { aqi: 0, category: 'Good', source: 'AirNow', nowCastAqi: null };
+  }
+
+  // Try PM25 first (AQICN format), then PM2.5 (AirNow format)
+  const pm25Data = data.find(item => item.ParameterName === 'PM25' || item.ParameterName === 'PM2.5');
+
+  if (pm25Data) {
+    return {
+      aqi: pm25Data.AQI,
+      category: pm25Data.Category.Name,
+      source: sourceLabel(pm25Data),
+      nowCastAqi: pm25Data.NowCastAQI ?? null
+    };
+  }
+
+  // If no PM2.5 data, find the measurement with the highest AQI
+  const highestAQI = data.reduce((max: AirQualityData | null, item: AirQualityData) => {
+    return (!max || item.AQI > max.AQI) ? item : max;
+  }, null);
+
+  return highestAQI
+    ? {
+        aqi: highestAQI.AQI,
+        category: highestAQI.Category.Name,
+        source: sourceLabel(highestAQI),
+        nowCastAqi: highestAQI.NowCastAQI ?? null
+      }
+    : { aqi: 0, category: 'Good', source: 'AirNow', nowCastAqi: null };
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  CELL_SIZE_DEGREES,
+  createAirQualityCache,
+  createMemoryAirQualityCacheStore,
+  getGridCell
+} from '@/utils/airQualityCache';
+
+const MINUTE = 60 * 1000;
+
+function setup(options: { shouldCache?: (value: string) => boolean } = {}) {
+  let time = 1_000_000;
+  const now = () => time;
+  const cache = createAirQualityCache<string>({
+    store: createMemoryAirQualityCacheStore(now),
+    freshMs: 10 * MINUTE,
+    staleMs: 50 * MINUTE,
+    now,
+    ...options
+  });
+  let calls = 0;
+  const load = vi.fn(async () => `value ${++calls}`);
+  return { cache, load, advance: (ms: number) => { time += ms; } };
+}
+
+// Lets a background refresh finish
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('getGridCell', () => {
+  it('puts nearby points in the same cell', () => {
+    expect(getGridCell(34.1801, -118.1301).id).toBe(getGridCell(34.1899, -118.1399).id);
+  });
+
+  it('splits points on either side of a cell edge', () => {
+    const edge = 1707 * CELL_SIZE_DEGREES;
+    expect(getGridCell(edge - 0.0001, -118.13).id).not.toBe(getGridCell(edge + 0.0001, -118.13).id);
+  });
+
+  it('looks up the cell centre', () => {
+    expect(getGridCell(34.181, -118.131)).toEqual({ id: '1709:-5907', lat: 34.19, lng: -118.13 });
+  });
+
+  it('handles negative coordinates without sharing cells across zero', () => {
+    expect(getGridCell(0.001, 0.001).id).toBe('0:0');
+    expect(getGridCell(-0.001, -0.001).id).toBe('-1:-1');
+  });
+});
+
+describe('createAirQualityCache', () => {
+  it('misses, then hits while fresh', async () => {
+    const { cache, load, advance } = setup();
+
+    const first = await cache.get(34.18, -118.13, load);
+    expect(first).toMatchObject({ value: 'value 1', status: 'MISS', age: 0 });
+
+    advance(9 * MINUTE);
+    const second = await cache.get(34.18, -118.13, load);
+    expect(second).toMatchObject({ value: 'value 1', status: 'HIT', age: 540 });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares entries across the cell and loads its centre', async () => {
+    const { cache, load } = setup();
+    await cache.get(34.181, -118.131, load);
+    const nearby = await cache.get(34.189, -118.139, load);
+
+    expect(nearby.status).toBe('HIT');
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(load).toHaveBeenCalledWith(expect.objectContaining({ lat: 34.19, lng: -118.13 }));
+  });
+
+  it('serves stale entries while refreshing in the background', async () => {
+    const { cache, load, advance } = setup();
+    await cache.get(34.18, -118.13, load);
+
+    advance(30 * MINUTE);
+    const stale = await cache.get(34.18, -118.13, load);
+    expect(stale).toMatchObject({ value: 'value 1', status: 'STALE', age: 1800 });
+
+    await flush();
+    const refreshed = await cache.get(34.18, -118.13, load);
+    expect(refreshed).toMatchObject({ value: 'value 2', status: 'HIT', age: 0 });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the stale entry when the refresh fails', async () => {
+    const { cache, load, advance } = setup();
+    await cache.get(34.18, -118.13, load);
+    advance(30 * MINUTE);
+
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = vi.fn(async (): Promise<string> => { throw new Error('down'); });
+    expect((await cache.get(34.18, -118.13, failing)).status).toBe('STALE');
+    await flush();
+    expect((await cache.get(34.18, -118.13, load)).value).toBe('value 1');
+    error.mockRestore();
+  });
+
+  it('loads again once an entry has expired', async () => {
+    const { cache, load, advance } = setup();
+    await cache.get(34.18, -118.13, load);
+
+    advance(60 * MINUTE);
+    const expired = await cache.get(34.18, -118.13, load);
+    expect(expired).toMatchObject({ value: 'value 2', status: 'MISS', age: 0 });
+  });
+
+  it('falls back to an expired entry when the refresh fails', async () => {
+    const { cache, load, advance } = setup();
+    await cache.get(34.18, -118.13, load);
+    advance(2 * 60 * MINUTE);
+
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = vi.fn(async (): Promise<string> => { throw new Error('down'); });
+    const fallback = await cache.get(34.18, -118.13, failing);
+    error.mockRestore();
+
+    expect(fallback).toMatchObject({ value: 'value 1', status: 'FALLBACK', age: 7200 });
+  });
+
+  it('falls back when the refreshed value is not worth caching', async () => {
+    const { cache, advance } = setup({ shouldCache: (value) => value !== 'outage' });
+    await cache.get(34.18, -118.13, async () => 'good');
+    advance(2 * 60 * MINUTE);
+
+    const fallback = await cache.get(34.18, -118.13, async () => 'outage');
+    expect(fallback).toMatchObject({ value: 'good', status: 'FALLBACK' });
+  });
+
+  it('forgets entries past the fallback window', async () => {
+    const { cache, load, advance } = setup();
+    await cache.get(34.18, -118.13, load);
+    advance(7 * 60 * MINUTE);
+
+    const failing = vi.fn(async (): Promise<string> => { throw new Error('down'); });
+    await expect(cache.get(34.18, -118.13, failing)).rejects.toThrow('down');
+  });
+
+  it('shares one load between concurrent misses', async () => {
+    const { cache, load } = setup();
+    const results = await Promise.all([
+      cache.get(34.181, -118.131, load),
+      cache.get(34.182, -118.132, load),
+      cache.get(34.183, -118.133, load)
+    ]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(results.map(({ value }) => value)).toEqual(['value 1', 'value 1', 'value 1']);
+  });
+
+  it('shares a failed load too, then tries again', async () => {
+    const { cache, load } = setup();
+    const failing = vi.fn(async (): Promise<string> => { throw new Error('down'); });
+
+    const results = await Promise.allSettled([
+      cache.get(34.18, -118.13, failing),
+      cache.get(34.18, -118.13, failing)
+    ]);
+    expect(results.map(({ status }) => status)).toEqual(['rejected', 'rejected']);
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    expect((await cache.get(34.18, -118.13, load)).status).toBe('MISS');
+  });
+
+  it('does not keep values shouldCache rejects', async () => {
+    const { cache, load } = setup({ shouldCache: () => false });
+    await cache.get(34.18, -118.13, load);
+    const again = await cache.get(34.18, -118.13, load);
+
+    expect(again).toMatchObject({ value: 'value 2', status: 'MISS' });
+  });
+});
@@ -0,0 +1,194 @@
+import { isProviderOutage } from '@/utils/airQualityChain';
+import type { AirQualityForecastLookup, AirQualityLookup } from '@/utils/airQualityChain';
+import { getKvClient } from '@/utils/kv';
+import type { KvClient } from '@/utils/kv';
+
+// Server-side cache for air quality lookups, keyed by grid cell so everyone
+// within a couple of kilometres shares one upstream call. Entries are fresh
+// for a while, then served stale while a refresh runs, then kept only as the
+// last known good answer for when every provider is down.
+
+// About 2 km; air quality doesn't change meaningfully across a cell
+export const CELL_SIZE_DEGREES = 0.02;
+
+const DEFAULT_FRESH_MS = 10 * 60 * 1000;
+const DEFAULT_STALE_MS = 50 * 60 * 1000;
+const DEFAULT_FALLBACK_MS = 6 * 60 * 60 * 1000;
+const KEY_PREFIX = 'air-quality:cell:';
+const MAX_MEMORY_ENTRIES = 5000;
+
+export interface GridCell {
+  id: string;
+  // The cell centre, which is what gets looked up upstream
+  lat: number;
+  lng: number;
+}
+
+export function getGridCell(lat: number, lng: number): GridCell {
+  const row = Math.floor(lat / CELL_SIZE_DEGREES);
+  const column = Math.floor(lng / CELL_SIZE_DEGREES);
+  return {
+    id: `${row}:${column}`,
+    lat: Number(((row + 0.5) * CELL_SIZE_DEGREES).toFixed(4)),
+    lng: Number(((column + 0.5) * CELL_SIZE_DEGREES).toFixed(4))
+  };
+}
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+export interface AirQualityCacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void>;
+}
+
+export function createMemoryAirQualityCacheStore(now: () => number = Date.now): AirQualityCacheStore {
+  const entries = new Map<string, { entry: CacheEntry<unknown>; expiresAt: number }>();
+  return {
+    async get<T>(key: string) {
+      const stored = entries.get(key);
+      if (!stored) return null;
+      if (now() >= stored.expiresAt) {
+        entries.delete(key);
+        return null;
+      }
+      return stored.entry as CacheEntry<T>;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number) {
+      // Re-inserting keeps the Map in least recently written order
+      entries.delete(key);
+      entries.set(key, { entry, expiresAt: now() + ttlMs });
+      if (entries.size > MAX_MEMORY_ENTRIES) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+    }
+  };
+}
+
+export function createKvAirQualityCacheStore(kv: KvClient): AirQualityCacheStore {
+  return {
+    async get<T>(key: string) {
+      const raw = await kv.command<string | null>('GET', `${KEY_PREFIX}${key}`);
+      return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number) {
+      await kv.command('SET', `${KEY_PREFIX}${key}`, JSON.stringify(entry), 'PX', ttlMs);
+    }
+  };
+}
+
+// FALLBACK is an expired entry served because the refresh failed
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS' | 'FALLBACK';
+
+export interface CachedResult<T> {
+  value: T;
+  status: CacheStatus;
+  cell: GridCell;
+  // Seconds since the value was fetched upstream
+  age: number;
+}
+
+export interface AirQualityCacheOptions<T> {
+  store?: AirQualityCacheStore;
+  freshMs?: number;
+  // How long past fresh an entry may still be served while it refreshes
+  staleMs?: number;
+  // How long past stale an entry is kept to answer with when a refresh fails
+  fallbackMs?: number;
+  // Values that shouldn't be kept, e.g. every provider failing
+  shouldCache?: (value: T) => boolean;
+  now?: () => number;
+}
+
+export interface AirQualityCache<T> {
+  get(lat: number, lng: number, load: (cell: GridCell) => Promise<T>): Promise<CachedResult<T>>;
+}
+
+export function createAirQualityCache<T>({
+  store = createMemoryAirQualityCacheStore(),
+  freshMs = DEFAULT_FRESH_MS,
+  staleMs = DEFAULT_STALE_MS,
+  fallbackMs = DEFAULT_FALLBACK_MS,
+  shouldCache = () => true,
+  now = Date.now
+}: AirQualityCacheOptions<T> = {}): AirQualityCache<T> {
+  // Concurrent misses for a cell share one upstream call
+  const inFlight = new Map<string, Promise<CacheEntry<T>>>();
+
+  const refresh = (cell: GridCell, load: (cell: GridCell) => Promise<T>): Promise<CacheEntry<T>> => {
+    const pending = inFlight.get(cell.id);
+    if (pending) return pending;
+
+    const request = (async () => {
+      const entry = { value: await load(cell), storedAt: now() };
+      if (shouldCache(entry.value)) {
+        await store.set(cell.id, entry, freshMs + staleMs + fallbackMs).catch((error) => {
+          console.error(`[Air Quality Cache] Failed to store cell ${cell.id}:`, error);
+        });
+      }
+      return entry;
+    })().finally(() => inFlight.delete(cell.id));
+
+    inFlight.set(cell.id, request);
+    return request;
+  };
+
+  return {
+    async get(lat, lng, load) {
+      const cell = getGridCell(lat, lng);
+      const cached = await store.get<T>(cell.id).catch((error) => {
+        console.error(`[Air Quality Cache] Failed to read cell ${cell.id}:`, error);
+        return null;
+      });
+
+      if (cached) {
+        const ageMs = now() - cached.storedAt;
+        const age = Math.max(0, Math.floor(ageMs / 1000));
+        if (ageMs < freshMs) return { value: cached.value, status: 'HIT', cell, age };
+        if (ageMs < freshMs + staleMs) {
+          // The refresh may be cut short once the response is sent on some
+          // runtimes; the next request after that just refreshes again
+          refresh(cell, load).catch((error) => {
+            console.error(`[Air Quality Cache] Background refresh of cell ${cell.id} failed:`, error);
+          });
+          return { value: cached.value, status: 'STALE', cell, age };
+        }
+
+        // Too old to serve as is, but better than nothing if the refresh fails
+        try {
+          const entry = await refresh(cell, load);
+          if (shouldCache(entry.value)) return { value: entry.value, status: 'MISS', cell, age: 0 };
+        } catch (error) {
+          console.error(`[Air Quality Cache] Refresh of expired cell ${cell.id} failed:`, error);
+        }
+        return { value: cached.value, status: 'FALLBACK', cell, age };
+      }
+
+      const entry = await refresh(cell, load);
+      return { value: entry.value, status: 'MISS', cell, age: 0 };
+    }
+  };
+}
+
+// Everything the route answers with for one cell
+export interface AirQualitySnapshot {
+  lookup: AirQualityLookup;
+  forecast: AirQualityForecastLookup;
+}
+
+const globalForAirQualityCache = globalThis as unknown as { airQualityCache?: AirQualityCache<AirQualitySnapshot> };
+
+export function getAirQualityCache(): AirQualityCache<AirQualitySnapshot> {
+  if (!globalForAirQualityCache.airQualityCache) {
+    const kv = getKvClient();
+    globalForAirQualityCache.airQualityCache = createAirQualityCache<AirQualitySnapshot>({
+      store: kv ? createKvAirQualityCacheStore(kv) : createMemoryAirQualityCacheStore(),
+      // An outage isn't worth remembering; the next request should try again
+      shouldCache: ({ lookup }) => !isProviderOutage(lookup)
+    });
+  }
+  return globalForAirQualityCache.airQualityCache;
+}
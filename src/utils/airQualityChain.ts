@@ -0,0 +1,290 @@
+import {
+  AIR_QUALITY_PROVIDER_NAMES,
+  createAirNowProvider,
+  createAqicnProvider,
+  createPurpleAirProvider
+} from '@/utils/airQualityProviders';
+import type {
+  AirQualityForecastDay,
+  AirQualityProvider,
+  AirQualityProviderName,
+  AirQualityReading,
+  FetchLike
+} from '@/utils/airQualityProviders';
+import { createUpstreamClient } from '@/utils/upstreamClient';
+import type { UpstreamClientOptions } from '@/utils/upstreamClient';
+
+// Asks every healthy provider at once and merges their readings, so a
+// pollutant one provider lacks can come from the next
+
+export interface ProviderHealth {
+  provider: AirQualityProviderName;
+  consecutiveFailures: number;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  // How long the last successful lookup took
+  lastLatencyMs: number | null;
+}
+
+export interface ProviderHealthTracker {
+  isAvailable(provider: AirQualityProviderName): boolean;
+  recordSuccess(provider: AirQualityProviderName, latencyMs: number): void;
+  recordFailure(provider: AirQualityProviderName, error: string): void;
+  snapshot(): ProviderHealth[];
+}
+
+export interface ProviderHealthOptions {
+  // Consecutive failures before a provider is skipped
+  failureThreshold?: number;
+  // How long a failing provider is skipped before it gets another try
+  cooldownMs?: number;
+  now?: () => number;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 5 * 60 * 1000;
+const DEFAULT_PROVIDER_TIMEOUT_MS = 8000;
+
+// Two tries with a short timeout, so a retry still fits inside the chain's
+// per-provider timeout
+const UPSTREAM_OPTIONS: UpstreamClientOptions = { timeoutMs: 3500, maxAttempts: 2, retryDelayMs: 300 };
+
+export function createProviderHealthTracker({
+  failureThreshold = DEFAULT_FAILURE_THRESHOLD,
+  cooldownMs = DEFAULT_COOLDOWN_MS,
+  now = Date.now
+}: ProviderHealthOptions = {}): ProviderHealthTracker {
+  const health = new Map<AirQualityProviderName, ProviderHealth>();
+
+  const get = (provider: AirQualityProviderName): ProviderHealth => {
+    let entry = health.get(provider);
+    if (!entry) {
+      entry = {
+        provider,
+        consecutiveFailures: 0,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        lastError: null,
+        lastLatencyMs: null
+      };
+      health.set(provider, entry);
+    }
+    return entry;
+  };
+
+  return {
+    isAvailable(provider) {
+      const { consecutiveFailures, lastFailureAt } = get(provider);
+      return consecutiveFailures < failureThreshold ||
+        (lastFailureAt !== null && now() - lastFailureAt >= cooldownMs);
+    },
+
+    recordSuccess(provider, latencyMs) {
+      const entry = get(provider);
+      entry.consecutiveFailures = 0;
+      entry.lastSuccessAt = now();
+      entry.lastLatencyMs = latencyMs;
+    },
+
+    recordFailure(provider, error) {
+      const entry = get(provider);
+      entry.consecutiveFailures += 1;
+      entry.lastFailureAt = now();
+      entry.lastError = error;
+    },
+
+    snapshot() {
+      return Array.from(health.values(), (entry) => ({ ...entry }));
+    }
+  };
+}
+
+// 'skipped' means the provider was left alone because it keeps failing
+export type ProviderOutcome = 'ok' | 'empty' | 'failed' | 'skipped';
+
+export interface AirQualityLookup {
+  readings: AirQualityReading[];
+  // Providers that contributed to the merged readings, in chain order
+  sources: AirQualityProviderName[];
+  outcomes: Array<{ provider: AirQualityProviderName; outcome: ProviderOutcome }>;
+}
+
+// Nothing answered at all, as opposed to no station nearby
+export function isProviderOutage({ readings, outcomes }: AirQualityLookup): boolean {
+  return readings.length === 0 && outcomes.every(({ outcome }) => outcome === 'failed' || outcome === 'skipped');
+}
+
+export interface AirQualityForecastLookup {
+  days: AirQualityForecastDay[];
+  // The provider the forecast came from, null when none had one
+  source: AirQualityProviderName | null;
+}
+
+export interface AirQualityChain {
+  providers: AirQualityProviderName[];
+  lookup(lat: number, lng: number): Promise<AirQualityLookup>;
+  forecast(lat: number, lng: number): Promise<AirQualityForecastLookup>;
+  health(): ProviderHealth[];
+}
+
+export interface AirQualityChainOptions {
+  health?: ProviderHealthTracker;
+  timeoutMs?: number;
+  now?: () => number;
+}
+
+// One reading per pollutant. Providers are listed in order of preference, so
+// the first one to report a pollutant wins it.
+export function mergeReadings(readingsByProvider: AirQualityReading[][]): AirQualityReading[] {
+  const merged = new Map<string, AirQualityReading>();
+  for (const readings of readingsByProvider) {
+    for (const reading of readings) {
+      if (!merged.has(reading.ParameterName)) merged.set(reading.ParameterName, reading);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, provider: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${provider} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export function createAirQualityChain(
+  providers: AirQualityProvider[],
+  {
+    health = createProviderHealthTracker(),
+    timeoutMs = DEFAULT_PROVIDER_TIMEOUT_MS,
+    now = Date.now
+  }: AirQualityChainOptions = {}
+): AirQualityChain {
+  // When every provider is failing, trying them all beats answering nothing
+  const candidates = (): AirQualityProvider[] => {
+    const available = providers.filter(({ name }) => health.isAvailable(name));
+    return available.length > 0 ? available : providers;
+  };
+
+  // Times the call and records the outcome against the provider's health
+  const track = async <T>(provider: AirQualityProvider, call: () => Promise<T>): Promise<T> => {
+    const startedAt = now();
+    try {
+      const result = await withTimeout(call(), timeoutMs, provider.name);
+      health.recordSuccess(provider.name, now() - startedAt);
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Air Quality] ${provider.name} failed:`, message);
+      health.recordFailure(provider.name, message);
+      throw error;
+    }
+  };
+
+  return {
+    providers: providers.map(({ name }) => name),
+
+    async lookup(lat, lng) {
+      const tried = candidates();
+
+      const results = await Promise.all(providers.map(async (provider) => {
+        if (!tried.includes(provider)) {
+          return { provider: provider.name, outcome: 'skipped' as ProviderOutcome, readings: [] };
+        }
+
+        try {
+          const readings = await track(provider, () => provider.fetchReadings(lat, lng));
+          return { provider: provider.name, outcome: (readings.length > 0 ? 'ok' : 'empty') as ProviderOutcome, readings };
+        } catch {
+          return { provider: provider.name, outcome: 'failed' as ProviderOutcome, readings: [] };
+        }
+      }));
+
+      const readings = mergeReadings(results.map((result) => result.readings));
+      return {
+        readings,
+        sources: results
+          .filter(({ provider }) => readings.some((reading) => reading.Provider === provider))
+          .map(({ provider }) => provider),
+        outcomes: results.map(({ provider, outcome }) => ({ provider, outcome }))
+      };
+    },
+
+    // Forecasts don't merge well across providers, so the first provider in
+    // order with one wins outright
+    async forecast(lat, lng) {
+      for (const provider of candidates()) {
+        const { fetchForecast } = provider;
+        if (!fetchForecast) continue;
+        try {
+          const days = await track(provider, () => fetchForecast(lat, lng));
+          if (days.length > 0) return { days, source: provider.name };
+        } catch {
+          // Already recorded; fall through to the next provider
+        }
+      }
+      return { days: [], source: null };
+    },
+
+    health: () => health.snapshot()
+  };
+}
+
+const PROVIDER_FACTORIES: Record<AirQualityProviderName, (key: string, fetchImpl?: FetchLike) => AirQualityProvider> = {
+  airnow: createAirNowProvider,
+  aqicn: createAqicnProvider,
+  purpleair: createPurpleAirProvider
+};
+
+const PROVIDER_KEYS: Record<AirQualityProviderName, string | undefined> = {
+  airnow: process.env.AIR_QUALITY_API_KEY,
+  aqicn: process.env.AQICN_API_KEY,
+  purpleair: process.env.PURPLEAIR_API_KEY
+};
+
+// "purpleair, airnow" -> ['purpleair', 'airnow']; unknown names are ignored
+export function parseProviderOrder(value: string | undefined): AirQualityProviderName[] {
+  if (!value) return AIR_QUALITY_PROVIDER_NAMES;
+  const names = value.split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+  for (const name of names) {
+    if (!AIR_QUALITY_PROVIDER_NAMES.includes(name as AirQualityProviderName)) {
+      console.warn(`[Air Quality] Ignoring unknown provider "${name}"`);
+    }
+  }
+  return AIR_QUALITY_PROVIDER_NAMES
+    .filter((name) => names.includes(name))
+    .sort((a, b) => names.indexOf(a) - names.indexOf(b));
+}
+
+// Dev only. The fixtures are imported on first use so they stay out of the
+// production bundle.
+const fixtureFetch: FetchLike = async (input, init) => {
+  const { createFixtureFetch } = await import('@/utils/airQualityFixtures');
+  return createFixtureFetch()(input, init);
+};
+
+// Health only means something if every request shares the same chain
+const globalForAirQuality = globalThis as unknown as { airQualityChain?: AirQualityChain };
+
+// AIR_QUALITY_PROVIDERS sets the order (default airnow,aqicn,purpleair) and
+// providers without an API key are left out. AIR_QUALITY_PROVIDER=fixture
+// runs every provider against the local fixtures.
+export function getAirQualityChain(): AirQualityChain {
+  if (!globalForAirQuality.airQualityChain) {
+    const order = parseProviderOrder(process.env.AIR_QUALITY_PROVIDERS);
+    const useFixtures = process.env.AIR_QUALITY_PROVIDER === 'fixture';
+    // Retries and a circuit breaker per provider, like the fire feeds get
+    const upstream = createUpstreamClient(UPSTREAM_OPTIONS);
+
+    const providers = order.flatMap((name) => {
+      if (useFixtures) return [PROVIDER_FACTORIES[name]('fixture', fixtureFetch)];
+      const key = PROVIDER_KEYS[name];
+      return key ? [PROVIDER_FACTORIES[name](key, (url, init) => upstream.request(name, url, init))] : [];
+    });
+
+    globalForAirQuality.airQualityChain = createAirQualityChain(providers);
+  }
+  return globalForAirQuality.airQualityChain;
+}
@@ -0,0 +1,239 @@
+import type { AirQualityProviderName, FetchLike } from '@/utils/airQualityProviders';
+
+// Raw provider responses for smoky conditions around Altadena, served by a
+// fake fetch so the real parsers and the whole chain run without network access
+
+// AirNow serves its forecast and hourly monitor data from separate endpoints
+export type AirQualityFixtureName = AirQualityProviderName | 'airnowForecast' | 'airnowData';
+
+// A fixture is a payload, or builds one from the request URL
+export type AirQualityFixtures = Partial<Record<AirQualityFixtureName, unknown | ((url: URL) => unknown)>>;
+
+interface MonitorFixture {
+  site: string;
+  latitude: number;
+  longitude: number;
+  parameter: string;
+  unit: string;
+  // Most recent hour first
+  hourly: number[];
+}
+
+// Smoke building over the afternoon, at a monitor near Altadena and a
+// cleaner one further away
+const MONITOR_FIXTURES: MonitorFixture[] = [
+  {
+    site: 'Pasadena',
+    latitude: 34.1328,
+    longitude: -118.1272,
+    parameter: 'PM2.5',
+    unit: 'UG/M3',
+    hourly: [142.3, 118.9, 96.4, 71.2, 55.0, 41.8, 33.5, 28.1, 25.6, 22.0, 19.4, 18.7]
+  },
+  {
+    site: 'Pasadena',
+    latitude: 34.1328,
+    longitude: -118.1272,
+    parameter: 'PM10',
+    unit: 'UG/M3',
+    hourly: [168, 141, 119, 97, 80, 69, 61, 55, 50, 48, 45, 44]
+  },
+  {
+    site: 'Pasadena',
+    latitude: 34.1328,
+    longitude: -118.1272,
+    parameter: 'OZONE',
+    unit: 'PPB',
+    hourly: [31, 29, 27, 30, 34, 38, 41, 40]
+  },
+  {
+    site: 'Pasadena',
+    latitude: 34.1328,
+    longitude: -118.1272,
+    parameter: 'NO2',
+    unit: 'PPB',
+    hourly: [18.2, 16.4, 15.1]
+  },
+  {
+    site: 'Los Angeles - N. Main Street',
+    latitude: 34.0664,
+    longitude: -118.2267,
+    parameter: 'PM2.5',
+    unit: 'UG/M3',
+    hourly: [48.1, 44.7, 40.2, 35.9, 30.3, 27.4, 24.8, 22.2, 20.9, 19.6, 18.8, 18.1]
+  }
+];
+
+// Timestamps are relative to the requested end hour, so the series is
+// always current
+function monitorData(url: URL): unknown {
+  const endHour = Date.parse(`${url.searchParams.get('endDate')}:00:00Z`);
+  return MONITOR_FIXTURES.flatMap(({ site, latitude, longitude, parameter, unit, hourly }) =>
+    hourly.map((value, i) => ({
+      Latitude: latitude,
+      Longitude: longitude,
+      UTC: new Date(endHour - i * 60 * 60 * 1000).toISOString().slice(0, 16),
+      Parameter: parameter,
+      Unit: unit,
+      Value: value,
+      RawConcentration: value,
+      SiteName: site,
+      AgencyName: 'South Coast Air Quality Management District'
+    }))
+  );
+}
+
+export const AIR_QUALITY_FIXTURES: AirQualityFixtures = {
+  airnow: [
+    {
+      DateObserved: '2025-01-10 ',
+      HourObserved: 14,
+      LocalTimeZone: 'PST',
+      ReportingArea: 'Northwest Coastal LA County',
+      StateCode: 'CA',
+      Latitude: 34.0505,
+      Longitude: -118.4566,
+      ParameterName: 'O3',
+      AQI: 35,
+      Category: { Number: 1, Name: 'Good' }
+    },
+    {
+      DateObserved: '2025-01-10 ',
+      HourObserved: 14,
+      LocalTimeZone: 'PST',
+      ReportingArea: 'Northwest Coastal LA County',
+      StateCode: 'CA',
+      Latitude: 34.0505,
+      Longitude: -118.4566,
+      ParameterName: 'PM2.5',
+      AQI: 158,
+      Category: { Number: 4, Name: 'Unhealthy' }
+    }
+  ],
+  airnowData: monitorData,
+  airnowForecast: [
+    {
+      DateIssue: '2025-01-10 ',
+      DateForecast: '2025-01-10 ',
+      ReportingArea: 'Northwest Coastal LA County',
+      StateCode: 'CA',
+      ParameterName: 'PM2.5',
+      AQI: 162,
+      Category: { Number: 4, Name: 'Unhealthy' },
+      ActionDay: true,
+      Discussion: 'Smoke from the Eaton and Palisades fires will keep PM2.5 elevated.'
+    },
+    {
+      DateIssue: '2025-01-10 ',
+      DateForecast: '2025-01-10 ',
+      ReportingArea: 'Northwest Coastal LA County',
+      StateCode: 'CA',
+      ParameterName: 'O3',
+      AQI: 38,
+      Category: { Number: 1, Name: 'Good' },
+      ActionDay: false,
+      Discussion: ''
+    },
+    {
+      DateIssue: '2025-01-10 ',
+      DateForecast: '2025-01-11 ',
+      ReportingArea: 'Northwest Coastal LA County',
+      StateCode: 'CA',
+      ParameterName: 'PM2.5',
+      AQI: -1,
+      Category: { Number: 3, Name: 'Unhealthy for Sensitive Groups' },
+      ActionDay: true,
+      Discussion: ''
+    },
+    {
+      DateIssue: '2025-01-10 ',
+      DateForecast: '2025-01-12 ',
+      ReportingArea: 'Northwest Coastal LA County',
+      StateCode: 'CA',
+      ParameterName: 'PM2.5',
+      AQI: 74,
+      Category: { Number: 2, Name: 'Moderate' },
+      ActionDay: false,
+      Discussion: ''
+    }
+  ],
+  aqicn: {
+    status: 'ok',
+    data: {
+      aqi: 152,
+      dominentpol: 'pm25',
+      city: { name: 'Pasadena, Los Angeles, USA', geo: [34.1328, -118.1272] },
+      time: { s: '2025-01-10 14:00:00', tz: '-08:00' },
+      iaqi: {
+        pm25: { v: 152 },
+        pm10: { v: 68 },
+        o3: { v: 31 },
+        no2: { v: 12.4 },
+        h: { v: 21 },
+        t: { v: 18.5 }
+      },
+      forecast: {
+        daily: {
+          pm25: [
+            { day: '2025-01-09', avg: 138, max: 164, min: 89 },
+            { day: '2025-01-10', avg: 155, max: 170, min: 112 },
+            { day: '2025-01-11', avg: 121, max: 158, min: 68 },
+            { day: '2025-01-12', avg: 76, max: 98, min: 55 },
+            { day: '2025-01-13', avg: 58, max: 68, min: 42 }
+          ],
+          o3: [
+            { day: '2025-01-10', avg: 28, max: 35, min: 12 },
+            { day: '2025-01-11', avg: 30, max: 38, min: 15 }
+          ],
+          uvi: [
+            { day: '2025-01-10', avg: 1, max: 3, min: 0 }
+          ]
+        }
+      }
+    }
+  },
+  purpleair: {
+    fields: ['sensor_index', 'pm2.5_cf_1', 'humidity'],
+    data_time_stamp: 1736546400,
+    data: [
+      [131075, 88.2, 18],
+      [131079, 94.6, 17],
+      [142011, 79.9, 20],
+      [155203, 101.3, 16],
+      // A failing sensor, dropped before the median
+      [160488, 4986.1, 19]
+    ]
+  }
+};
+
+function fixtureFor(url: URL): AirQualityFixtureName | null {
+  switch (url.hostname) {
+    case 'www.airnowapi.org':
+      if (url.pathname.startsWith('/aq/forecast/')) return 'airnowForecast';
+      if (url.pathname.startsWith('/aq/data/')) return 'airnowData';
+      return 'airnow';
+    case 'api.waqi.info':
+      return 'aqicn';
+    case 'api.purpleair.com':
+      return 'purpleair';
+    default:
+      return null;
+  }
+}
+
+// An endpoint without a fixture answers 503, so outages can be simulated by
+// leaving it out
+export function createFixtureFetch(fixtures: AirQualityFixtures = AIR_QUALITY_FIXTURES): FetchLike {
+  return async (input) => {
+    const url = new URL(input);
+    const fixture = fixtureFor(url);
+    const payload = fixture ? fixtures[fixture] : undefined;
+    if (payload === undefined) {
+      return new Response('Service Unavailable', { status: 503, statusText: 'Service Unavailable' });
+    }
+    return new Response(JSON.stringify(typeof payload === 'function' ? payload(url) : payload), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AIR_QUALITY_FIXTURES, createFixtureFetch } from '@/utils/airQualityFixtures';
+import { createAirNowProvider, createAqicnProvider } from '@/utils/airQualityProviders';
+import type { FetchLike } from '@/utils/airQualityProviders';
+import { createUpstreamClient } from '@/utils/upstreamClient';
+
+const ALTADENA = { lat: 34.19, lng: -118.13 };
+
+// Fixture responses, with the first `failures` requests to each host failing
+function flakyFetch(failures: number): FetchLike & { calls: string[] } {
+  const fixtures = createFixtureFetch(AIR_QUALITY_FIXTURES);
+  const failed = new Map<string, number>();
+  const calls: string[] = [];
+  const fetchImpl = async (input: string, init?: RequestInit) => {
+    const host = new URL(input).host;
+    calls.push(host);
+    const count = failed.get(host) ?? 0;
+    if (count < failures) {
+      failed.set(host, count + 1);
+      return new Response('unavailable', { status: 503 });
+    }
+    return fixtures(input, init);
+  };
+  return Object.assign(fetchImpl, { calls });
+}
+
+function upstreamFor(fetchImpl: FetchLike) {
+  return createUpstreamClient({
+    fetch: (input, init) => fetchImpl(String(input), init),
+    sleep: async () => {},
+    maxAttempts: 2,
+    failureThreshold: 2
+  });
+}
+
+describe('providers on the upstream client', () => {
+  it('retries a provider request that failed transiently', async () => {
+    const fetchImpl = flakyFetch(1);
+    const upstream = upstreamFor(fetchImpl);
+    const provider = createAqicnProvider('token', (url, init) => upstream.request('aqicn', url, init));
+
+    const readings = await provider.fetchReadings(ALTADENA.lat, ALTADENA.lng);
+    expect(readings.length).toBeGreaterThan(0);
+    expect(fetchImpl.calls).toEqual(['api.waqi.info', 'api.waqi.info']);
+  });
+
+  it('opens the circuit for a failing provider without affecting the others', async () => {
+    const fetchImpl = flakyFetch(Infinity);
+    const upstream = upstreamFor(fetchImpl);
+    const airnow = createAirNowProvider('key', (url, init) => upstream.request('airnow', url, init));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Observations and monitor data are two requests, so one lookup trips it
+    await expect(airnow.fetchReadings(ALTADENA.lat, ALTADENA.lng)).rejects.toMatchObject({ code: 'UPSTREAM_HTTP_ERROR' });
+    error.mockRestore();
+
+    expect(upstream.circuitState('airnow')).toBe('open');
+    expect(upstream.circuitState('aqicn')).toBe('closed');
+    await expect(airnow.fetchReadings(ALTADENA.lat, ALTADENA.lng)).rejects.toMatchObject({ code: 'UPSTREAM_CIRCUIT_OPEN' });
+  });
+});
+
+describe('AQICN provider', () => {
+  it('reads readings and forecast from a single station request', async () => {
+    const fetchImpl = flakyFetch(0);
+    const provider = createAqicnProvider('token', fetchImpl);
+
+    const [readings, forecast] = await Promise.all([
+      provider.fetchReadings(ALTADENA.lat, ALTADENA.lng),
+      provider.fetchForecast!(ALTADENA.lat, ALTADENA.lng)
+    ]);
+    expect(readings.length).toBeGreaterThan(0);
+    expect(forecast.length).toBeGreaterThan(0);
+    expect(await provider.fetchForecast!(ALTADENA.lat, ALTADENA.lng)).toEqual(forecast);
+    expect(fetchImpl.calls).toEqual(['api.waqi.info']);
+  });
+
+  it('asks again for another point', async () => {
+    const fetchImpl = flakyFetch(0);
+    const provider = createAqicnProvider('token', fetchImpl);
+
+    await provider.fetchReadings(ALTADENA.lat, ALTADENA.lng);
+    await provider.fetchReadings(ALTADENA.lat + 1, ALTADENA.lng);
+    expect(fetchImpl.calls).toEqual(['api.waqi.info', 'api.waqi.info']);
+  });
+
+  it('retries a station request that failed', async () => {
+    const fetchImpl = flakyFetch(1);
+    const provider = createAqicnProvider('token', fetchImpl);
+
+    await expect(provider.fetchReadings(ALTADENA.lat, ALTADENA.lng)).rejects.toThrow('AQICN API error: 503');
+    expect((await provider.fetchReadings(ALTADENA.lat, ALTADENA.lng)).length).toBeGreaterThan(0);
+    expect(fetchImpl.calls).toEqual(['api.waqi.info', 'api.waqi.info']);
+  });
+});
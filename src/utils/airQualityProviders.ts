@@ -0,0 +1,567 @@
+import {
+  AQI_STANDARDS,
+  categoryForAqi,
+  categoryForNumber,
+  concentrationToAqi,
+  correctPurpleAirPm25,
+  nowCastConcentration,
+  pm25ToAqi
+} from '@/utils/aqi';
+import type { AqiCategory, ConcentrationUnit } from '@/utils/aqi';
+import { calculateDistance } from '@/utils/distance';
+
+// Air quality sources behind one interface. Every provider answers in
+// AirNow's observation format, which is what the client already reads.
+
+export type AirQualityProviderName = 'airnow' | 'aqicn' | 'purpleair';
+
+export const AIR_QUALITY_PROVIDER_NAMES: AirQualityProviderName[] = ['airnow', 'aqicn', 'purpleair'];
+
+export interface AirQualityReading {
+  DateObserved: string;
+  HourObserved: number;
+  LocalTimeZone: string;
+  ReportingArea: string;
+  StateCode: string;
+  Latitude: number;
+  Longitude: number;
+  // One of POLLUTANTS, whatever the provider calls it
+  ParameterName: string;
+  AQI: number;
+  Category: AqiCategory;
+  Provider: AirQualityProviderName;
+  // Latest hourly concentration, when the provider reports one
+  Concentration: number | null;
+  Unit: ConcentrationUnit | null;
+  // NowCast concentration and the AQI computed from it here, which tracks
+  // fast-moving smoke better than the hourly AQI
+  NowCast: number | null;
+  NowCastAQI: number | null;
+}
+
+const NO_CONCENTRATION = { Concentration: null, Unit: null, NowCast: null, NowCastAQI: null };
+
+// One day of a forecast, for the pollutant expected to be worst that day
+export interface AirQualityForecastDay {
+  // YYYY-MM-DD in the forecast area's local time
+  date: string;
+  parameterName: string;
+  // Null when the provider forecasts only a category
+  aqi: number | null;
+  category: AqiCategory;
+  // An air quality alert declared by the local agency
+  actionDay: boolean;
+  discussion: string | null;
+  provider: AirQualityProviderName;
+}
+
+export interface AirQualityProvider {
+  name: AirQualityProviderName;
+  // An empty list means no station near enough; a throw means the provider failed
+  fetchReadings(lat: number, lng: number): Promise<AirQualityReading[]>;
+  // Today onwards, one entry per day. Not every provider forecasts.
+  fetchForecast?(lat: number, lng: number): Promise<AirQualityForecastDay[]>;
+}
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+const defaultFetch: FetchLike = (input, init) => fetch(input, init);
+
+// Provider pollutant names mapped to the ones the client looks for
+const POLLUTANTS: Record<string, string> = {
+  'pm2.5': 'PM2.5',
+  pm25: 'PM2.5',
+  pm10: 'PM10',
+  o3: 'O3',
+  ozone: 'O3',
+  no2: 'NO2',
+  co: 'CO',
+  so2: 'SO2'
+};
+
+export function normalizePollutant(name: string): string | null {
+  return POLLUTANTS[name.trim().toLowerCase()] ?? null;
+}
+
+function isValidAqi(value: unknown): value is number {
+  // AirNow reports -1 for a missing value
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+async function readJson(response: Response, label: string): Promise<unknown> {
+  if (!response.ok) {
+    throw new Error(`${label} API error: ${response.status} ${response.statusText}`);
+  }
+  try {
+    return await response.json();
+  } catch {
+    throw new Error(`${label} returned invalid JSON`);
+  }
+}
+
+// Keeps the worst pollutant for each date, in date order
+function worstByDate(days: AirQualityForecastDay[]): AirQualityForecastDay[] {
+  const byDate = new Map<string, AirQualityForecastDay>();
+  for (const day of days) {
+    const current = byDate.get(day.date);
+    const worse = !current ||
+      day.category.Number > current.category.Number ||
+      (day.category.Number === current.category.Number && (day.aqi ?? -1) > (current.aqi ?? -1));
+    if (worse) {
+      byDate.set(day.date, {
+        ...day,
+        // An action day for any pollutant is an action day
+        actionDay: day.actionDay || Boolean(current?.actionDay),
+        discussion: day.discussion ?? current?.discussion ?? null
+      });
+    } else if (day.actionDay && current) {
+      current.actionDay = true;
+    }
+  }
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+interface AirNowObservation {
+  DateObserved?: string;
+  HourObserved?: number;
+  LocalTimeZone?: string;
+  ReportingArea?: string;
+  StateCode?: string;
+  Latitude?: number;
+  Longitude?: number;
+  ParameterName?: string;
+  AQI?: number;
+}
+
+interface AirNowForecast {
+  DateForecast?: string;
+  ParameterName?: string;
+  AQI?: number;
+  Category?: { Number?: number };
+  ActionDay?: boolean;
+  Discussion?: string;
+}
+
+interface AirNowHourlyValue {
+  // "2025-01-10T22:00"
+  UTC?: string;
+  Parameter?: string;
+  Unit?: string;
+  RawConcentration?: number;
+  SiteName?: string;
+  Latitude?: number;
+  Longitude?: number;
+}
+
+interface ConcentrationSeries {
+  site: string;
+  latitude: number;
+  longitude: number;
+  unit: ConcentrationUnit;
+  // Hourly concentrations, most recent first, null for missing hours
+  hourly: Array<number | null>;
+}
+
+const AIRNOW_UNITS: Record<string, ConcentrationUnit> = {
+  'UG/M3': 'µg/m³',
+  PPB: 'ppb',
+  PPM: 'ppm'
+};
+const AIRNOW_HOURS = 12;
+// About 28 km either side of the point
+const AIRNOW_SITE_SEARCH_DEGREES = 0.25;
+// AirNow's missing value marker
+const AIRNOW_MISSING = -999;
+
+// "2025-01-10T22"
+function formatUtcHour(time: number): string {
+  return new Date(time).toISOString().slice(0, 13);
+}
+
+// Hourly monitor data for the last 12 hours, grouped into one series per
+// pollutant from the nearest site that has enough hours for a NowCast
+function toConcentrationSeries(
+  values: AirNowHourlyValue[],
+  lat: number,
+  lng: number,
+  latestHour: number
+): Map<string, ConcentrationSeries> {
+  const sites = new Map<string, ConcentrationSeries & { pollutant: string }>();
+
+  for (const value of values) {
+    const pollutant = normalizePollutant(value.Parameter ?? '');
+    const unit = AIRNOW_UNITS[(value.Unit ?? '').toUpperCase()];
+    const hour = value.UTC ? Date.parse(`${value.UTC}:00Z`) : NaN;
+    if (!pollutant || !unit || unit !== AQI_STANDARDS[pollutant]?.unit) continue;
+    if (typeof value.Latitude !== 'number' || typeof value.Longitude !== 'number' || Number.isNaN(hour)) continue;
+
+    const index = Math.round((latestHour - hour) / (60 * 60 * 1000));
+    if (index < 0 || index >= AIRNOW_HOURS) continue;
+
+    const key = `${pollutant}|${value.Latitude},${value.Longitude}`;
+    let site = sites.get(key);
+    if (!site) {
+      site = {
+        pollutant,
+        site: value.SiteName || 'Unknown',
+        latitude: value.Latitude,
+        longitude: value.Longitude,
+        unit,
+        hourly: Array(AIRNOW_HOURS).fill(null)
+      };
+      sites.set(key, site);
+    }
+    const concentration = value.RawConcentration;
+    if (typeof concentration === 'number' && concentration !== AIRNOW_MISSING) {
+      // Monitors report small negative values near zero
+      site.hourly[index] = Math.max(0, concentration);
+    }
+  }
+
+  const series = new Map<string, ConcentrationSeries>();
+  Array.from(sites.values())
+    .sort((a, b) =>
+      calculateDistance(lat, lng, a.latitude, a.longitude) - calculateDistance(lat, lng, b.latitude, b.longitude)
+    )
+    .forEach(({ pollutant, ...site }) => {
+      if (!series.has(pollutant) && nowCastConcentration(pollutant, site.hourly) !== null) {
+        series.set(pollutant, site);
+      }
+    });
+  return series;
+}
+
+function concentrationFields(pollutant: string, series: ConcentrationSeries) {
+  const nowCast = nowCastConcentration(pollutant, series.hourly);
+  return {
+    Concentration: series.hourly.find((value) => value !== null) ?? null,
+    Unit: series.unit,
+    NowCast: nowCast,
+    NowCastAQI: nowCast === null ? null : concentrationToAqi(pollutant, nowCast)
+  };
+}
+
+export function createAirNowProvider(apiKey: string, fetchImpl: FetchLike = defaultFetch): AirQualityProvider {
+  const fetchList = async (path: string, lat: number, lng: number): Promise<unknown[]> => {
+    const params = new URLSearchParams({
+      format: 'application/json',
+      latitude: String(lat),
+      longitude: String(lng),
+      distance: '25',
+      API_KEY: apiKey
+    });
+    const response = await fetchImpl(`https://www.airnowapi.org/aq/${path}/?${params}`, {
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await readJson(response, 'AirNow');
+    if (!Array.isArray(data)) throw new Error('AirNow response is not a list');
+    return data;
+  };
+
+  const fetchConcentrations = async (lat: number, lng: number): Promise<Map<string, ConcentrationSeries>> => {
+    const latestHour = Math.floor(Date.now() / (60 * 60 * 1000)) * 60 * 60 * 1000;
+    const params = new URLSearchParams({
+      startDate: formatUtcHour(latestHour - (AIRNOW_HOURS - 1) * 60 * 60 * 1000),
+      endDate: formatUtcHour(latestHour),
+      parameters: 'PM25,PM10,OZONE,NO2,CO,SO2',
+      BBOX: [
+        lng - AIRNOW_SITE_SEARCH_DEGREES,
+        lat - AIRNOW_SITE_SEARCH_DEGREES,
+        lng + AIRNOW_SITE_SEARCH_DEGREES,
+        lat + AIRNOW_SITE_SEARCH_DEGREES
+      ].join(','),
+      dataType: 'C',
+      format: 'application/json',
+      verbose: '1',
+      monitorType: '0',
+      includerawconcentrations: '1',
+      API_KEY: apiKey
+    });
+    const response = await fetchImpl(`https://www.airnowapi.org/aq/data/?${params}`, {
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await readJson(response, 'AirNow');
+    if (!Array.isArray(data)) throw new Error('AirNow response is not a list');
+    return toConcentrationSeries(data as AirNowHourlyValue[], lat, lng, latestHour);
+  };
+
+  return {
+    name: 'airnow',
+    async fetchReadings(lat, lng) {
+      // Concentrations are extra detail; the reporting area AQI stands on its own
+      const [data, concentrations] = await Promise.all([
+        fetchList('observation/latLong/current', lat, lng),
+        fetchConcentrations(lat, lng).catch((error) => {
+          console.error('[Air Quality] AirNow concentrations failed:', error instanceof Error ? error.message : error);
+          return new Map<string, ConcentrationSeries>();
+        })
+      ]);
+
+      const readings: AirQualityReading[] = (data as AirNowObservation[]).flatMap((observation) => {
+        const parameter = normalizePollutant(observation.ParameterName ?? '');
+        if (!parameter || !isValidAqi(observation.AQI)) return [];
+        const series = concentrations.get(parameter);
+        return [{
+          DateObserved: (observation.DateObserved ?? '').trim(),
+          HourObserved: observation.HourObserved ?? 0,
+          LocalTimeZone: observation.LocalTimeZone ?? '',
+          ReportingArea: observation.ReportingArea ?? 'Unknown',
+          StateCode: observation.StateCode ?? '',
+          Latitude: observation.Latitude ?? lat,
+          Longitude: observation.Longitude ?? lng,
+          ParameterName: parameter,
+          AQI: observation.AQI,
+          Category: categoryForAqi(observation.AQI),
+          Provider: 'airnow' as const,
+          ...(series ? concentrationFields(parameter, series) : NO_CONCENTRATION)
+        }];
+      });
+
+      // Pollutants measured nearby that the reporting area doesn't cover
+      const [latest] = readings;
+      concentrations.forEach((series, parameter) => {
+        if (readings.some((reading) => reading.ParameterName === parameter)) return;
+        const fields = concentrationFields(parameter, series);
+        if (fields.NowCastAQI === null) return;
+        readings.push({
+          DateObserved: latest?.DateObserved ?? '',
+          HourObserved: latest?.HourObserved ?? 0,
+          LocalTimeZone: latest?.LocalTimeZone ?? '',
+          ReportingArea: series.site,
+          StateCode: latest?.StateCode ?? '',
+          Latitude: series.latitude,
+          Longitude: series.longitude,
+          ParameterName: parameter,
+          AQI: fields.NowCastAQI,
+          Category: categoryForAqi(fields.NowCastAQI),
+          Provider: 'airnow',
+          ...fields
+        });
+      });
+      return readings;
+    },
+
+    async fetchForecast(lat, lng) {
+      const data = await fetchList('forecast/latLong', lat, lng);
+      return worstByDate((data as AirNowForecast[]).flatMap((forecast) => {
+        const parameter = normalizePollutant(forecast.ParameterName ?? '');
+        const date = (forecast.DateForecast ?? '').trim();
+        if (!parameter || !date) return [];
+        // Forecasters often issue a category without a number, as AQI -1
+        const aqi = isValidAqi(forecast.AQI) ? forecast.AQI : null;
+        const category = aqi !== null ? categoryForAqi(aqi) : categoryForNumber(forecast.Category?.Number ?? 0);
+        if (!category) return [];
+        return [{
+          date,
+          parameterName: parameter,
+          aqi,
+          category,
+          actionDay: Boolean(forecast.ActionDay),
+          discussion: forecast.Discussion?.trim() || null,
+          provider: 'airnow' as const
+        }];
+      }));
+    }
+  };
+}
+
+interface AqicnStation {
+  aqi?: number | string;
+  dominentpol?: string;
+  city?: { name?: string; geo?: [number, number] };
+  time?: { s?: string; tz?: string };
+  // Per-pollutant US AQI sub-indices
+  iaqi?: Record<string, { v?: number }>;
+  forecast?: {
+    // Daily sub-indices per pollutant, including a few past days
+    daily?: Record<string, Array<{ day?: string; avg?: number }>>;
+  };
+}
+
+interface AqicnFeed {
+  status?: string;
+  data?: string | AqicnStation;
+}
+
+// The feed answers readings and forecast in one response, and the chain asks
+// for both at once, so a station is reused briefly instead of fetched twice
+const AQICN_STATION_REUSE_MS = 60 * 1000;
+
+// World Air Quality Index project, covering stations AirNow doesn't
+export function createAqicnProvider(token: string, fetchImpl: FetchLike = defaultFetch): AirQualityProvider {
+  const stations = new Map<string, { fetchedAt: number; station: Promise<AqicnStation | null> }>();
+
+  // Null when there is no station near the point
+  const requestStation = async (lat: number, lng: number): Promise<AqicnStation | null> => {
+    const response = await fetchImpl(`https://api.waqi.info/feed/geo:${lat};${lng}/?token=${encodeURIComponent(token)}`, {
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const feed = await readJson(response, 'AQICN') as AqicnFeed;
+
+    if (feed.status !== 'ok' || typeof feed.data !== 'object' || feed.data === null) {
+      if (feed.data === 'Unknown station') return null;
+      throw new Error(`AQICN API error: ${typeof feed.data === 'string' ? feed.data : 'unexpected response'}`);
+    }
+    return feed.data;
+  };
+
+  // Failed requests are forgotten straight away so the next call retries
+  const fetchStation = (lat: number, lng: number): Promise<AqicnStation | null> => {
+    const now = Date.now();
+    stations.forEach((entry, key) => {
+      if (now - entry.fetchedAt >= AQICN_STATION_REUSE_MS) stations.delete(key);
+    });
+
+    const key = `${lat};${lng}`;
+    const cached = stations.get(key);
+    if (cached) return cached.station;
+
+    const station = requestStation(lat, lng);
+    stations.set(key, { fetchedAt: now, station });
+    station.catch(() => {
+      if (stations.get(key)?.station === station) stations.delete(key);
+    });
+    return station;
+  };
+
+  // "2025-01-10 14:00:00" in the station's local time
+  const observedAt = (station: AqicnStation): [string, number] => {
+    const [date = '', clock = '0'] = (station.time?.s ?? '').split(' ');
+    return [date, parseInt(clock, 10) || 0];
+  };
+
+  return {
+    name: 'aqicn',
+    async fetchReadings(lat, lng) {
+      const station = await fetchStation(lat, lng);
+      if (!station) return [];
+
+      const { city, time, iaqi = {}, aqi, dominentpol } = station;
+      const [date, hour] = observedAt(station);
+      const base = {
+        DateObserved: date,
+        HourObserved: hour,
+        LocalTimeZone: time?.tz ?? '',
+        ReportingArea: city?.name || 'Unknown',
+        StateCode: 'INT',
+        Latitude: city?.geo?.[0] ?? lat,
+        Longitude: city?.geo?.[1] ?? lng,
+        Provider: 'aqicn' as const,
+        // The feed only carries AQI sub-indices
+        ...NO_CONCENTRATION
+      };
+
+      const readings = Object.entries(iaqi).flatMap(([key, { v }]) => {
+        const parameter = normalizePollutant(key);
+        if (!parameter || !isValidAqi(v)) return [];
+        return [{ ...base, ParameterName: parameter, AQI: Math.round(v), Category: categoryForAqi(v) }];
+      });
+      if (readings.length > 0) return readings;
+
+      // Some stations only publish the overall index
+      const parameter = normalizePollutant(dominentpol ?? '') ?? 'PM2.5';
+      return isValidAqi(aqi) ? [{ ...base, ParameterName: parameter, AQI: aqi, Category: categoryForAqi(aqi) }] : [];
+    },
+
+    async fetchForecast(lat, lng) {
+      const station = await fetchStation(lat, lng);
+      if (!station) return [];
+
+      const [today] = observedAt(station);
+      const daily = station.forecast?.daily ?? {};
+      return worstByDate(Object.entries(daily).flatMap(([key, days]) => {
+        const parameter = normalizePollutant(key);
+        if (!parameter || !Array.isArray(days)) return [];
+        return days.flatMap(({ day, avg }) => {
+          if (!day || day < today || !isValidAqi(avg)) return [];
+          const aqi = Math.round(avg);
+          return [{
+            date: day,
+            parameterName: parameter,
+            aqi,
+            category: categoryForAqi(aqi),
+            actionDay: false,
+            discussion: null,
+            provider: 'aqicn' as const
+          }];
+        });
+      }));
+    }
+  };
+}
+
+interface PurpleAirSensors {
+  fields?: string[];
+  data?: Array<Array<number | null>>;
+  // Unix seconds
+  data_time_stamp?: number;
+}
+
+// About 11 km either side of the point
+const PURPLEAIR_SEARCH_DEGREES = 0.1;
+// Readings this high are a failing laser counter, not smoke
+const PURPLEAIR_MAX_PM25 = 1000;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Low-cost PM2.5 sensors, dense in the neighbourhoods fires reach first.
+// The median of nearby sensors keeps a single bad sensor from skewing it.
+export function createPurpleAirProvider(apiKey: string, fetchImpl: FetchLike = defaultFetch): AirQualityProvider {
+  return {
+    name: 'purpleair',
+    async fetchReadings(lat, lng) {
+      const params = new URLSearchParams({
+        fields: 'pm2.5_cf_1,humidity',
+        location_type: '0',
+        max_age: '3600',
+        nwlng: String(lng - PURPLEAIR_SEARCH_DEGREES),
+        nwlat: String(lat + PURPLEAIR_SEARCH_DEGREES),
+        selng: String(lng + PURPLEAIR_SEARCH_DEGREES),
+        selat: String(lat - PURPLEAIR_SEARCH_DEGREES)
+      });
+      const response = await fetchImpl(`https://api.purpleair.com/v1/sensors?${params}`, {
+        headers: { 'X-API-Key': apiKey }
+      });
+      const payload = await readJson(response, 'PurpleAir') as PurpleAirSensors;
+      if (!Array.isArray(payload.fields) || !Array.isArray(payload.data)) {
+        throw new Error('PurpleAir response is missing fields or data');
+      }
+
+      const pmIndex = payload.fields.indexOf('pm2.5_cf_1');
+      const humidityIndex = payload.fields.indexOf('humidity');
+      const concentrations = payload.data.flatMap((row) => {
+        const pm = row[pmIndex];
+        const humidity = row[humidityIndex];
+        if (typeof pm !== 'number' || typeof humidity !== 'number' || pm < 0 || pm > PURPLEAIR_MAX_PM25) return [];
+        return [correctPurpleAirPm25(pm, humidity)];
+      });
+      if (concentrations.length === 0) return [];
+
+      const concentration = Math.round(median(concentrations) * 10) / 10;
+      const aqi = pm25ToAqi(concentration);
+      const observed = new Date((payload.data_time_stamp ?? Date.now() / 1000) * 1000);
+      return [{
+        DateObserved: observed.toISOString().slice(0, 10),
+        HourObserved: observed.getUTCHours(),
+        LocalTimeZone: 'UTC',
+        ReportingArea: `${concentrations.length} PurpleAir sensor${concentrations.length === 1 ? '' : 's'}`,
+        StateCode: '',
+        Latitude: lat,
+        Longitude: lng,
+        ParameterName: 'PM2.5',
+        AQI: aqi,
+        Category: categoryForAqi(aqi),
+        Provider: 'purpleair',
+        // Sensors report instantly rather than hourly, so there's no NowCast
+        Concentration: concentration,
+        Unit: 'µg/m³',
+        NowCast: null,
+        NowCastAQI: null
+      }];
+    }
+  };
+}
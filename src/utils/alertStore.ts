@@ -0,0 +1,131 @@
+import type { KvClient } from '@/utils/kv';
+import type { EvacuationStatus } from '@/types';
+
+// Where push subscriptions and the last-seen hazard snapshot are kept
+// between alert checks. KV in production, memory for local runs and tests.
+
+export interface PushSubscriptionKeys {
+  p256dh: string;
+  auth: string;
+}
+
+export interface AlertSubscription {
+  // One browser can watch several places, so ids combine endpoint and place
+  id: string;
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+  placeId: string;
+  name: string;
+  lat: number;
+  lng: number;
+  // Miles
+  radius: number;
+  createdAt: number;
+}
+
+// What the previous check saw, to diff the next one against
+export interface HazardSnapshot {
+  takenAt: number;
+  zones: Record<string, EvacuationStatus>;
+  fires: string[];
+  // Subscription ids each event failed to reach, by alertEventKey, so the
+  // next check sends to them again
+  pending?: Record<string, string[]>;
+}
+
+export interface SubscriptionStore {
+  save(subscription: AlertSubscription): Promise<void>;
+  remove(id: string): Promise<void>;
+  list(): Promise<AlertSubscription[]>;
+  count(): Promise<number>;
+  // Subscription ids for one browser, so places per browser can be capped
+  idsForEndpoint(endpoint: string): Promise<string[]>;
+}
+
+export interface HazardSnapshotStore {
+  load(): Promise<HazardSnapshot | null>;
+  save(snapshot: HazardSnapshot): Promise<void>;
+}
+
+const SUBSCRIPTIONS_KEY = 'alerts:subscriptions';
+const SNAPSHOT_KEY = 'alerts:snapshot';
+const ENDPOINT_KEY_PREFIX = 'alerts:endpoint:';
+
+// Place ids are checked to contain no "|", so the endpoint is the rest
+export function subscriptionId(endpoint: string, placeId: string): string {
+  return `${placeId}|${endpoint}`;
+}
+
+function endpointOf(id: string): string {
+  return id.slice(id.indexOf('|') + 1);
+}
+
+export function createMemorySubscriptionStore(): SubscriptionStore {
+  const subscriptions = new Map<string, AlertSubscription>();
+  return {
+    async save(subscription) {
+      subscriptions.set(subscription.id, subscription);
+    },
+    async remove(id) {
+      subscriptions.delete(id);
+    },
+    async list() {
+      return Array.from(subscriptions.values());
+    },
+    async count() {
+      return subscriptions.size;
+    },
+    async idsForEndpoint(endpoint) {
+      return Array.from(subscriptions.values())
+        .filter((subscription) => subscription.endpoint === endpoint)
+        .map(({ id }) => id);
+    }
+  };
+}
+
+export function createMemorySnapshotStore(): HazardSnapshotStore {
+  let snapshot: HazardSnapshot | null = null;
+  return {
+    async load() {
+      return snapshot;
+    },
+    async save(next) {
+      snapshot = next;
+    }
+  };
+}
+
+export function createKvSubscriptionStore(kv: KvClient): SubscriptionStore {
+  return {
+    async save(subscription) {
+      await kv.command('HSET', SUBSCRIPTIONS_KEY, subscription.id, JSON.stringify(subscription));
+      await kv.command('SADD', `${ENDPOINT_KEY_PREFIX}${subscription.endpoint}`, subscription.id);
+    },
+    async remove(id) {
+      await kv.command('HDEL', SUBSCRIPTIONS_KEY, id);
+      await kv.command('SREM', `${ENDPOINT_KEY_PREFIX}${endpointOf(id)}`, id);
+    },
+    async list() {
+      const values = await kv.command<string[] | null>('HVALS', SUBSCRIPTIONS_KEY);
+      return (values ?? []).map((value) => JSON.parse(value) as AlertSubscription);
+    },
+    async count() {
+      return kv.command<number>('HLEN', SUBSCRIPTIONS_KEY);
+    },
+    async idsForEndpoint(endpoint) {
+      return (await kv.command<string[] | null>('SMEMBERS', `${ENDPOINT_KEY_PREFIX}${endpoint}`)) ?? [];
+    }
+  };
+}
+
+export function createKvSnapshotStore(kv: KvClient): HazardSnapshotStore {
+  return {
+    async load() {
+      const value = await kv.command<string | null>('GET', SNAPSHOT_KEY);
+      return value ? JSON.parse(value) as HazardSnapshot : null;
+    },
+    async save(snapshot) {
+      await kv.command('SET', SNAPSHOT_KEY, JSON.stringify(snapshot));
+    }
+  };
+}
@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createMemorySnapshotStore, createMemorySubscriptionStore, subscriptionId } from '@/utils/alertStore';
+import type { AlertSubscription } from '@/utils/alertStore';
+import { createHazardSnapshot, diffHazards, runAlertCheck } from '@/utils/alerts';
+import type { AlertServices } from '@/utils/alerts';
+import { createMemoryPushSender } from '@/utils/pushSender';
+import type { PushResult } from '@/utils/pushSender';
+import { fireFeature, squareRing, zoneFeature } from '@/test/features';
+
+const HOME = { lat: 34.19, lng: -118.13 };
+// About 60 miles north of home
+const FAR_AWAY = { lat: 35.05, lng: -118.13 };
+
+function subscription(placeId: string, overrides: Partial<AlertSubscription> = {}): AlertSubscription {
+  const endpoint = `https://fcm.googleapis.com/fcm/send/${placeId}`;
+  return {
+    id: subscriptionId(endpoint, placeId),
+    endpoint,
+    keys: { p256dh: 'p256dh', auth: 'auth' },
+    placeId,
+    name: placeId,
+    ...HOME,
+    radius: 10,
+    createdAt: 0,
+    ...overrides
+  };
+}
+
+// The memory sender, with outcomes scripted per subscription id
+function setup(subscriptions: AlertSubscription[]) {
+  const outcomes = new Map<string, PushResult>();
+  const memory = createMemoryPushSender();
+  const services: AlertServices = {
+    subscriptions: createMemorySubscriptionStore(),
+    snapshots: createMemorySnapshotStore(),
+    sender: {
+      async send(target, payload) {
+        const outcome = outcomes.get(target.id) ?? 'sent';
+        if (outcome === 'sent') await memory.send(target, payload);
+        return outcome;
+      }
+    }
+  };
+  subscriptions.forEach((target) => services.subscriptions.save(target));
+  return { services, outcomes, sent: memory.sent };
+}
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+describe('diffHazards', () => {
+  const previous = createHazardSnapshot([fireFeature({ UniqueId: 'old' })], [zoneFeature('z1', 'warning')]);
+
+  it.each([
+    ['warning to order', 'order', 1],
+    ['warning to shelter in place', 'shelter_in_place', 1],
+    ['an unchanged warning', 'warning', 0],
+    ['warning down to advisory', 'advisory', 0],
+    ['warning lifted', 'lifted', 0]
+  ] as const)('alerts on %s: %d events', (_, status, count) => {
+    expect(diffHazards(previous, [], [zoneFeature('z1', status)])).toHaveLength(count);
+  });
+
+  it('alerts on zones reaching an active status for the first time', () => {
+    const events = diffHazards(previous, [], [zoneFeature('z2', 'warning'), zoneFeature('z3', 'advisory')]);
+    expect(events).toEqual([expect.objectContaining({ kind: 'zone', previousStatus: null })]);
+  });
+
+  it('alerts on fires it has not seen before', () => {
+    const events = diffHazards(previous, [fireFeature({ UniqueId: 'old' }), fireFeature({ UniqueId: 'new' })], []);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ kind: 'fire', fire: { properties: { UniqueId: 'new' } } });
+  });
+});
+
+describe('runAlertCheck', () => {
+  it('only records a baseline on the first run', async () => {
+    const { services, sent } = setup([subscription('home')]);
+    const result = await runAlertCheck([fireFeature({ UniqueId: 'f1' })], [zoneFeature('z1', 'order')], services, 1000);
+
+    expect(result).toEqual({ baseline: true, events: 0, sent: 0, expired: 0, failed: 0 });
+    expect(sent).toHaveLength(0);
+    expect(await services.snapshots.load()).toMatchObject({ takenAt: 1000, zones: { z1: 'order' }, fires: ['f1'] });
+  });
+
+  it('alerts again when a warning becomes an order', async () => {
+    const { services, sent } = setup([subscription('home')]);
+    await runAlertCheck([], [zoneFeature('z1', 'warning')], services);
+    const result = await runAlertCheck([], [zoneFeature('z1', 'order')], services);
+
+    expect(result).toMatchObject({ events: 1, sent: 1 });
+    expect(sent[0].payload).toMatchObject({ title: 'Evacuation Order near home', tag: 'zone-z1' });
+    expect(sent[0].payload.body).toContain('now covers home');
+  });
+
+  it('sends new fires only to places within their radius', async () => {
+    const { services, sent } = setup([subscription('home'), subscription('cabin', FAR_AWAY)]);
+    await runAlertCheck([], [], services);
+    await runAlertCheck([fireFeature({ UniqueId: 'f1', Latitude: 34.2, Longitude: -118.1, Name: 'Eaton' })], [], services);
+
+    expect(sent.map(({ subscription: target }) => target.placeId)).toEqual(['home']);
+    expect(sent[0].payload.title).toBe('New fire near home');
+    expect(sent[0].payload.body).toMatch(/^Eaton started 1\.\d miles from home in Los Angeles County\.$/);
+  });
+
+  it('removes subscriptions the push service reports as expired', async () => {
+    const gone = subscription('gone');
+    const { services, outcomes } = setup([gone, subscription('home')]);
+    outcomes.set(gone.id, 'expired');
+
+    await runAlertCheck([], [], services);
+    const result = await runAlertCheck([], [zoneFeature('z1', 'order'), zoneFeature('z2', 'warning')], services);
+
+    expect(result).toMatchObject({ expired: 1, sent: 2 });
+    expect((await services.subscriptions.list()).map(({ placeId }) => placeId)).toEqual(['home']);
+  });
+
+  it('retries failed sends on the next check, to those subscribers only', async () => {
+    const flaky = subscription('flaky');
+    const { services, outcomes, sent } = setup([subscription('home'), flaky]);
+    await runAlertCheck([], [], services);
+
+    outcomes.set(flaky.id, 'failed');
+    const failed = await runAlertCheck([], [zoneFeature('z1', 'order')], services);
+    expect(failed).toMatchObject({ sent: 1, failed: 1 });
+    expect((await services.snapshots.load())?.pending).toEqual({ 'zone:z1:order': [flaky.id] });
+
+    outcomes.delete(flaky.id);
+    const retried = await runAlertCheck([], [zoneFeature('z1', 'order')], services);
+    expect(retried).toMatchObject({ events: 0, sent: 1, failed: 0 });
+    expect(sent.map(({ subscription: target }) => target.placeId)).toEqual(['home', 'flaky']);
+    expect((await services.snapshots.load())?.pending).toBeUndefined();
+  });
+
+  it('drops a retry once the zone has moved on', async () => {
+    const flaky = subscription('flaky');
+    const { services, outcomes, sent } = setup([flaky]);
+    await runAlertCheck([], [], services);
+
+    outcomes.set(flaky.id, 'failed');
+    await runAlertCheck([], [zoneFeature('z1', 'warning')], services);
+    outcomes.delete(flaky.id);
+    await runAlertCheck([], [zoneFeature('z1', 'lifted')], services);
+
+    expect(sent).toHaveLength(0);
+    expect((await services.snapshots.load())?.pending).toBeUndefined();
+  });
+
+  it('measures zones from their edge, not their centre', async () => {
+    const { services, sent } = setup([subscription('home', { radius: 2 })]);
+    await runAlertCheck([], [], services);
+    // A wide zone whose centre is 30 miles away but whose edge is close
+    await runAlertCheck([], [zoneFeature('z1', 'order', [squareRing(34.64, -118.13, 0.43)])], services);
+
+    expect(sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  createKvSnapshotStore,
+  createKvSubscriptionStore,
+  createMemorySnapshotStore,
+  createMemorySubscriptionStore
+} from '@/utils/alertStore';
+import type { AlertSubscription, HazardSnapshot, HazardSnapshotStore, SubscriptionStore } from '@/utils/alertStore';
+import { EVACUATION_STATUS_INFO, isActiveEvacuationStatus } from '@/utils/evacuationStatus';
+import { getFireId } from '@/utils/fireIdentity';
+import { measureZone } from '@/utils/geometry';
+import { getKvClient } from '@/utils/kv';
+import { measureFire } from '@/utils/nearby';
+import { createMemoryPushSender, createWebPushSender } from '@/utils/pushSender';
+import type { PushPayload, PushSender } from '@/utils/pushSender';
+import type { EvacuationFeature, EvacuationStatus, FireFeature } from '@/types';
+
+// The scheduled alert check: diff the current fires and zones against the
+// previous run and push anything new to subscribers within range
+
+export type AlertEvent =
+  | { kind: 'zone'; zone: EvacuationFeature; previousStatus: EvacuationStatus | null }
+  | { kind: 'fire'; fire: FireFeature };
+
+export interface AlertServices {
+  subscriptions: SubscriptionStore;
+  snapshots: HazardSnapshotStore;
+  sender: PushSender;
+}
+
+export interface AlertCheckResult {
+  // True on the first run, which only records what's already out there
+  baseline: boolean;
+  events: number;
+  sent: number;
+  expired: number;
+  failed: number;
+}
+
+export function createHazardSnapshot(
+  fires: FireFeature[],
+  zones: EvacuationFeature[],
+  takenAt = Date.now()
+): HazardSnapshot {
+  const zoneStatuses: Record<string, EvacuationStatus> = {};
+  zones.forEach((zone) => {
+    zoneStatuses[zone.properties.zone_id] = zone.properties.status;
+  });
+  return { takenAt, zones: zoneStatuses, fires: fires.map(getFireId) };
+}
+
+// A zone alerts when it reaches an active status (order, shelter in place or
+// warning) or escalates between them; a fire alerts the first time it's seen
+export function diffHazards(
+  previous: HazardSnapshot,
+  fires: FireFeature[],
+  zones: EvacuationFeature[]
+): AlertEvent[] {
+  const events: AlertEvent[] = [];
+
+  zones.forEach((zone) => {
+    const { zone_id, status } = zone.properties;
+    if (!isActiveEvacuationStatus(status)) return;
+    const previousStatus = previous.zones[zone_id] ?? null;
+    const previousSeverity = previousStatus ? EVACUATION_STATUS_INFO[previousStatus].severity : -1;
+    if (EVACUATION_STATUS_INFO[status].severity > previousSeverity) {
+      events.push({ kind: 'zone', zone, previousStatus });
+    }
+  });
+
+  const knownFires = new Set(previous.fires);
+  fires.forEach((fire) => {
+    if (!knownFires.has(getFireId(fire))) events.push({ kind: 'fire', fire });
+  });
+
+  return events;
+}
+
+// Identifies an event across checks. Zone keys include the status, so a
+// retry stops once the zone has moved on.
+export function alertEventKey(event: AlertEvent): string {
+  return event.kind === 'zone'
+    ? `zone:${event.zone.properties.zone_id}:${event.zone.properties.status}`
+    : `fire:${getFireId(event.fire)}`;
+}
+
+// Events the previous check failed to deliver that still describe the world
+function pendingEvents(
+  previous: HazardSnapshot,
+  fires: FireFeature[],
+  zones: EvacuationFeature[]
+): AlertEvent[] {
+  const pending = previous.pending ?? {};
+  const candidates: AlertEvent[] = [
+    ...zones.map((zone): AlertEvent => ({ kind: 'zone', zone, previousStatus: previous.zones[zone.properties.zone_id] ?? null })),
+    ...fires.map((fire): AlertEvent => ({ kind: 'fire', fire }))
+  ];
+  return candidates.filter((event) => alertEventKey(event) in pending);
+}
+
+// Miles from the subscriber's place, or null when the event is out of range
+export function eventDistance(event: AlertEvent, subscription: AlertSubscription): number | null {
+  const distance = event.kind === 'zone'
+    ? measureZone(subscription.lat, subscription.lng, event.zone).distance
+    : measureFire(subscription.lat, subscription.lng, event.fire).distance;
+  return distance <= subscription.radius ? distance : null;
+}
+
+export function buildAlertPayload(event: AlertEvent, subscription: AlertSubscription, distance: number): PushPayload {
+  if (event.kind === 'zone') {
+    const { zone_id, county_name, status } = event.zone.properties;
+    const label = EVACUATION_STATUS_INFO[status].label;
+    return {
+      title: `${label} near ${subscription.name}`,
+      body: distance === 0
+        ? `Zone ${zone_id} (${county_name}) now covers ${subscription.name}.`
+        : `Zone ${zone_id} (${county_name}) is ${distance.toFixed(1)} miles from ${subscription.name}.`,
+      url: '/',
+      tag: `zone-${zone_id}`
+    };
+  }
+
+  const { Name, County } = event.fire.properties;
+  return {
+    title: `New fire near ${subscription.name}`,
+    body: `${Name} started ${distance.toFixed(1)} miles from ${subscription.name} in ${County} County.`,
+    url: '/',
+    tag: `fire-${getFireId(event.fire)}`
+  };
+}
+
+export async function runAlertCheck(
+  fires: FireFeature[],
+  zones: EvacuationFeature[],
+  { subscriptions, snapshots, sender }: AlertServices,
+  now = Date.now()
+): Promise<AlertCheckResult> {
+  const previous = await snapshots.load();
+  const current = createHazardSnapshot(fires, zones, now);
+
+  if (!previous) {
+    await snapshots.save(current);
+    return { baseline: true, events: 0, sent: 0, expired: 0, failed: 0 };
+  }
+
+  const events = diffHazards(previous, fires, zones);
+  const eventKeys = new Set(events.map(alertEventKey));
+  // A new event supersedes a retry of the same one, which then goes to everyone
+  const retries = pendingEvents(previous, fires, zones).filter((event) => !eventKeys.has(alertEventKey(event)));
+  const result: AlertCheckResult = { baseline: false, events: events.length, sent: 0, expired: 0, failed: 0 };
+  const pending: Record<string, string[]> = {};
+
+  if (events.length + retries.length > 0) {
+    for (const subscription of await subscriptions.list()) {
+      for (const event of [...events, ...retries]) {
+        const key = alertEventKey(event);
+        if (!eventKeys.has(key) && !previous.pending?.[key]?.includes(subscription.id)) continue;
+        const distance = eventDistance(event, subscription);
+        if (distance === null) continue;
+
+        const outcome = await sender.send(subscription, buildAlertPayload(event, subscription, distance));
+        if (outcome === 'expired') {
+          await subscriptions.remove(subscription.id);
+          result.expired++;
+          break;
+        }
+        if (outcome === 'sent') {
+          result.sent++;
+        } else {
+          result.failed++;
+          pending[key] = [...(pending[key] ?? []), subscription.id];
+        }
+      }
+    }
+  }
+
+  await snapshots.save(Object.keys(pending).length > 0 ? { ...current, pending } : current);
+  return result;
+}
+
+// Memory stand-ins are shared through globalThis so the subscribe route and
+// the check route see the same data in a single dev server
+const globalForAlerts = globalThis as unknown as { memoryAlertServices?: AlertServices };
+
+export function getAlertServices(): AlertServices {
+  const kv = getKvClient();
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+
+  if (!globalForAlerts.memoryAlertServices) {
+    globalForAlerts.memoryAlertServices = {
+      subscriptions: createMemorySubscriptionStore(),
+      snapshots: createMemorySnapshotStore(),
+      sender: createMemoryPushSender()
+    };
+  }
+  const memory = globalForAlerts.memoryAlertServices;
+
+  return {
+    subscriptions: kv ? createKvSubscriptionStore(kv) : memory.subscriptions,
+    snapshots: kv ? createKvSnapshotStore(kv) : memory.snapshots,
+    sender: publicKey && privateKey
+      ? createWebPushSender({
+          subject: process.env.VAPID_SUBJECT || 'mailto:alerts@example.com',
+          publicKey,
+          privateKey
+        })
+      : memory.sender
+  };
+}
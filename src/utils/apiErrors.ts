@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import type { RateLimitResult } from '@/utils/rateLimit';
+import type { ValidationIssue } from '@/utils/requestValidation';
+import { UpstreamError } from '@/utils/upstreamClient';
+import type { UpstreamErrorCode, UpstreamSource } from '@/utils/upstreamClient';
+
+// Error bodies shared by the API routes
+
+export type ApiErrorCode = UpstreamErrorCode | 'INVALID_REQUEST' | 'RATE_LIMITED' | 'INTERNAL_ERROR';
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  // Which upstream failed, null when the failure was ours
+  source: UpstreamSource | null;
+  // The request parameter that was rejected, for INVALID_REQUEST
+  param?: string;
+}
+
+// Upstream failures are a 502 so monitoring can tell them apart from our bugs
+export function errorResponse(
+  error: unknown,
+  message: string,
+  headers: Record<string, string> = {}
+): NextResponse<ApiErrorBody> {
+  if (error instanceof UpstreamError) {
+    return NextResponse.json(
+      { error: message, code: error.code, source: error.source },
+      { status: 502, headers }
+    );
+  }
+
+  return NextResponse.json(
+    { error: message, code: 'INTERNAL_ERROR', source: null },
+    { status: 500, headers }
+  );
+}
+
+export function rateLimitResponse(result: RateLimitResult): NextResponse<ApiErrorBody> {
+  return NextResponse.json(
+    { error: 'Too many requests, try again later', code: 'RATE_LIMITED', source: null },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(result.retryAfterSeconds),
+        'X-RateLimit-Limit': String(result.limit),
+        'X-RateLimit-Remaining': String(result.remaining),
+        'Cache-Control': 'no-store'
+      }
+    }
+  );
+}
+
+// Bad input is the caller's to fix, so don't let a CDN remember the answer
+export function validationErrorResponse({ param, message }: ValidationIssue): NextResponse<ApiErrorBody> {
+  return NextResponse.json(
+    { error: message, code: 'INVALID_REQUEST', source: null, param },
+    { status: 400, headers: { 'Cache-Control': 'no-store' } }
+  );
+}
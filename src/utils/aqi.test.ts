@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import {
+  categoryForAqi,
+  concentrationToAqi,
+  correctPurpleAirPm25,
+  nowCastConcentration,
+  pm25ToAqi
+} from '@/utils/aqi';
+
+describe('concentrationToAqi', () => {
+  // Breakpoint edges from the EPA tables, 2024 revision for PM2.5
+  it.each([
+    ['PM2.5', 0, 0],
+    ['PM2.5', 9.0, 50],
+    ['PM2.5', 9.1, 51],
+    ['PM2.5', 35.4, 100],
+    ['PM2.5', 35.5, 101],
+    ['PM2.5', 55.4, 150],
+    ['PM2.5', 55.5, 151],
+    ['PM2.5', 125.4, 200],
+    ['PM2.5', 125.5, 201],
+    ['PM2.5', 225.4, 300],
+    ['PM2.5', 225.5, 301],
+    ['PM2.5', 325.4, 500],
+    ['PM10', 54, 50],
+    ['PM10', 55, 51],
+    ['PM10', 154, 100],
+    ['PM10', 604, 500],
+    ['O3', 54, 50],
+    ['O3', 55, 51],
+    ['O3', 70, 100],
+    ['O3', 71, 101],
+    ['O3', 85, 150],
+    ['O3', 200, 300],
+    ['CO', 4.4, 50],
+    ['CO', 4.5, 51],
+    ['CO', 9.4, 100],
+    ['NO2', 53, 50],
+    ['NO2', 100, 100],
+    ['NO2', 101, 101],
+    ['SO2', 35, 50],
+    ['SO2', 75, 100]
+  ])('%s %d -> %d', (pollutant, concentration, aqi) => {
+    expect(concentrationToAqi(pollutant, concentration)).toBe(aqi);
+  });
+
+  it('truncates to the standard precision before the lookup', () => {
+    expect(pm25ToAqi(9.09)).toBe(50);
+    expect(concentrationToAqi('O3', 70.9)).toBe(100);
+    expect(concentrationToAqi('CO', 4.49)).toBe(50);
+  });
+
+  it('interpolates within a breakpoint', () => {
+    // (100 - 51) / (35.4 - 9.1) * (12.0 - 9.1) + 51 = 56.4
+    expect(pm25ToAqi(12.0)).toBe(56);
+  });
+
+  it('caps values past the top breakpoint', () => {
+    expect(pm25ToAqi(500)).toBe(500);
+    expect(concentrationToAqi('PM10', 1000)).toBe(500);
+    expect(concentrationToAqi('O3', 350)).toBe(300);
+  });
+
+  it('treats negative readings as zero', () => {
+    expect(pm25ToAqi(-3)).toBe(0);
+  });
+
+  it('returns null without a standard or a usable number', () => {
+    expect(concentrationToAqi('NH3', 10)).toBeNull();
+    expect(concentrationToAqi('PM2.5', NaN)).toBeNull();
+  });
+});
+
+describe('categoryForAqi', () => {
+  it.each([
+    [50, 'Good'],
+    [51, 'Moderate'],
+    [150, 'Unhealthy for Sensitive Groups'],
+    [200, 'Unhealthy'],
+    [300, 'Very Unhealthy'],
+    [301, 'Hazardous']
+  ])('%d is %s', (aqi, name) => {
+    expect(categoryForAqi(aqi).Name).toBe(name);
+  });
+});
+
+describe('nowCastConcentration', () => {
+  it('weights recent hours by the rate of change', () => {
+    // min/max = 8/10, so weights are 1 and 0.8: (10 + 0.8 * 8) / 1.8 = 9.11
+    expect(nowCastConcentration('PM2.5', [10, 8])).toBe(9.1);
+  });
+
+  it('never weights older hours below one half', () => {
+    // min/max = 0.25 is raised to 0.5: (20 + 0.5 * 5) / 1.5 = 15.0
+    expect(nowCastConcentration('PM2.5', [20, 5])).toBe(15);
+  });
+
+  it('works through a full twelve hours', () => {
+    // min/max = 15/30 gives weights 0.5^i: 55.3130 / 1.9995 = 27.66
+    const hourly = [30, 28, 25, 22, 20, 18, 17, 16, 15, 15, 15, 15];
+    expect(nowCastConcentration('PM2.5', hourly)).toBe(27.6);
+  });
+
+  it('ignores hours past the twelfth', () => {
+    const hourly = [12, 12, 12, 12, 12, 12, 12, 12, 12, 12, 12, 12, 500];
+    expect(nowCastConcentration('PM2.5', hourly)).toBe(12);
+  });
+
+  it('skips missing hours but keeps their place in the weighting', () => {
+    // Weights 1 and 0.5^2 for hours 0 and 2: (20 + 0.25 * 10) / 1.25 = 18.0
+    expect(nowCastConcentration('PM2.5', [20, null, 10])).toBe(18);
+  });
+
+  it('needs two of the latest three hours', () => {
+    expect(nowCastConcentration('PM2.5', [null, null, 10, 10, 10])).toBeNull();
+    expect(nowCastConcentration('PM2.5', [10, null, null, 10])).toBeNull();
+    expect(nowCastConcentration('PM2.5', [])).toBeNull();
+  });
+
+  it('truncates PM10 to whole micrograms', () => {
+    expect(nowCastConcentration('PM10', [40, 41, 42])).toBe(40);
+  });
+
+  it('averages ozone over eight hours when six are present', () => {
+    expect(nowCastConcentration('O3', [60, 62, null, 64, 66, null, 68, 70, 999])).toBe(65);
+    expect(nowCastConcentration('O3', [60, null, null, 64, 66, null, 68, 70])).toBeNull();
+  });
+
+  it('uses the latest hour for NO2 and SO2', () => {
+    expect(nowCastConcentration('NO2', [40.7, 80])).toBe(40);
+    expect(nowCastConcentration('SO2', [null, 80])).toBeNull();
+  });
+
+  it('returns null for pollutants without a standard', () => {
+    expect(nowCastConcentration('NH3', [1, 2, 3])).toBeNull();
+  });
+});
+
+describe('correctPurpleAirPm25', () => {
+  it.each([
+    // 0.524 * 20 - 0.0862 * 50 + 5.75
+    [20, 50, 11.92],
+    // 0.786 * 100 - 0.0862 * 50 + 5.75
+    [100, 50, 80.04],
+    // 2.966 + 0.69 * 300 + 8.84e-4 * 300^2
+    [300, 50, 289.526]
+  ])('corrects %d at %d%% humidity to %d', (cf1, humidity, expected) => {
+    expect(correctPurpleAirPm25(cf1, humidity)).toBeCloseTo(expected, 6);
+  });
+
+  it('is continuous across the blending ranges', () => {
+    [30, 50, 210, 260].forEach((edge) => {
+      expect(correctPurpleAirPm25(edge - 1e-9, 40)).toBeCloseTo(correctPurpleAirPm25(edge, 40), 5);
+    });
+  });
+
+  it('never goes negative', () => {
+    expect(correctPurpleAirPm25(0, 100)).toBe(0);
+    expect(correctPurpleAirPm25(-5, 20)).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,189 @@
+// US EPA Air Quality Index math shared by the air quality providers
+
+export interface AqiCategory {
+  Number: number;
+  Name: string;
+}
+
+const CATEGORIES: Array<{ max: number; category: AqiCategory }> = [
+  { max: 50, category: { Number: 1, Name: 'Good' } },
+  { max: 100, category: { Number: 2, Name: 'Moderate' } },
+  { max: 150, category: { Number: 3, Name: 'Unhealthy for Sensitive Groups' } },
+  { max: 200, category: { Number: 4, Name: 'Unhealthy' } },
+  { max: 300, category: { Number: 5, Name: 'Very Unhealthy' } }
+];
+const HAZARDOUS: AqiCategory = { Number: 6, Name: 'Hazardous' };
+
+export function categoryForAqi(aqi: number): AqiCategory {
+  const match = CATEGORIES.find(({ max }) => aqi <= max);
+  return match ? match.category : HAZARDOUS;
+}
+
+// AirNow numbers its categories 1-6, with 7 for "unavailable"
+export function categoryForNumber(number: number): AqiCategory | null {
+  if (number === HAZARDOUS.Number) return HAZARDOUS;
+  return CATEGORIES.find(({ category }) => category.Number === number)?.category ?? null;
+}
+
+export type ConcentrationUnit = 'µg/m³' | 'ppb' | 'ppm';
+
+interface Breakpoint {
+  concLow: number;
+  concHigh: number;
+  aqiLow: number;
+  aqiHigh: number;
+}
+
+interface PollutantStandard {
+  unit: ConcentrationUnit;
+  // Concentrations are truncated to this many decimals before lookup
+  decimals: number;
+  breakpoints: Breakpoint[];
+}
+
+function breakpoints(ranges: Array<[number, number]>): Breakpoint[] {
+  const aqiRanges: Array<[number, number]> = [[0, 50], [51, 100], [101, 150], [151, 200], [201, 300], [301, 500]];
+  return ranges.map(([concLow, concHigh], i) => ({
+    concLow,
+    concHigh,
+    aqiLow: aqiRanges[i][0],
+    aqiHigh: aqiRanges[i][1]
+  }));
+}
+
+// EPA breakpoints, from the 2024 revision for PM2.5. Ozone and CO are for
+// 8-hour averages; NO2 and SO2 for 1-hour averages.
+export const AQI_STANDARDS: Record<string, PollutantStandard> = {
+  'PM2.5': {
+    unit: 'µg/m³',
+    decimals: 1,
+    breakpoints: breakpoints([[0, 9.0], [9.1, 35.4], [35.5, 55.4], [55.5, 125.4], [125.5, 225.4], [225.5, 325.4]])
+  },
+  PM10: {
+    unit: 'µg/m³',
+    decimals: 0,
+    breakpoints: breakpoints([[0, 54], [55, 154], [155, 254], [255, 354], [355, 424], [425, 604]])
+  },
+  O3: {
+    unit: 'ppb',
+    decimals: 0,
+    breakpoints: breakpoints([[0, 54], [55, 70], [71, 85], [86, 105], [106, 200]])
+  },
+  CO: {
+    unit: 'ppm',
+    decimals: 1,
+    breakpoints: breakpoints([[0, 4.4], [4.5, 9.4], [9.5, 12.4], [12.5, 15.4], [15.5, 30.4], [30.5, 50.4]])
+  },
+  NO2: {
+    unit: 'ppb',
+    decimals: 0,
+    breakpoints: breakpoints([[0, 53], [54, 100], [101, 360], [361, 649], [650, 1249], [1250, 2049]])
+  },
+  SO2: {
+    unit: 'ppb',
+    decimals: 0,
+    breakpoints: breakpoints([[0, 35], [36, 75], [76, 185], [186, 304], [305, 604], [605, 1004]])
+  }
+};
+
+function truncate(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.floor(value * factor) / factor;
+}
+
+// Linear interpolation within the breakpoint the concentration falls in.
+// Null for pollutants without a standard; values past the top breakpoint
+// are capped at its AQI.
+export function concentrationToAqi(pollutant: string, concentration: number): number | null {
+  const standard = AQI_STANDARDS[pollutant];
+  if (!standard || !Number.isFinite(concentration)) return null;
+
+  const truncated = truncate(Math.max(0, concentration), standard.decimals);
+  const table = standard.breakpoints;
+  const breakpoint = table.find(({ concHigh }) => truncated <= concHigh) ?? table[table.length - 1];
+  const { concLow, concHigh, aqiLow, aqiHigh } = breakpoint;
+  const aqi = ((aqiHigh - aqiLow) / (concHigh - concLow)) * (Math.min(truncated, concHigh) - concLow) + aqiLow;
+  return Math.round(aqi);
+}
+
+export function pm25ToAqi(concentration: number): number {
+  return concentrationToAqi('PM2.5', concentration) as number;
+}
+
+const NOWCAST_HOURS = 12;
+// Smoke changes fast, so recent hours get more weight, but never less than this
+const NOWCAST_MIN_WEIGHT = 0.5;
+// Hours averaged for the gases, and how many must be present (75%)
+const GAS_AVERAGING_HOURS: Record<string, { hours: number; required: number }> = {
+  O3: { hours: 8, required: 6 },
+  CO: { hours: 8, required: 6 },
+  NO2: { hours: 1, required: 1 },
+  SO2: { hours: 1, required: 1 }
+};
+
+// EPA NowCast for particulates, from hourly concentrations with the most
+// recent hour first. Needs two of the latest three hours.
+function particulateNowCast(hourly: Array<number | null>): number | null {
+  const hours = hourly.slice(0, NOWCAST_HOURS);
+  if (hours.slice(0, 3).filter((value) => value !== null).length < 2) return null;
+
+  const valid = hours.filter((value): value is number => value !== null);
+  const min = Math.min(...valid);
+  const max = Math.max(...valid);
+  const weight = max > 0 ? Math.max(min / max, NOWCAST_MIN_WEIGHT) : 1;
+
+  let weighted = 0;
+  let total = 0;
+  hours.forEach((value, i) => {
+    if (value === null) return;
+    weighted += weight ** i * value;
+    total += weight ** i;
+  });
+  return weighted / total;
+}
+
+// The concentration the current AQI should be computed from: the NowCast
+// for PM2.5 and PM10, and the standard's averaging period for the gases.
+// Hourly concentrations come most recent first, null for missing hours.
+export function nowCastConcentration(pollutant: string, hourly: Array<number | null>): number | null {
+  const standard = AQI_STANDARDS[pollutant];
+  if (!standard) return null;
+
+  if (pollutant === 'PM2.5' || pollutant === 'PM10') {
+    const nowCast = particulateNowCast(hourly);
+    return nowCast === null ? null : truncate(nowCast, standard.decimals);
+  }
+
+  const { hours, required } = GAS_AVERAGING_HOURS[pollutant];
+  const valid = hourly.slice(0, hours).filter((value): value is number => value !== null);
+  if (valid.length < required) return null;
+  return truncate(valid.reduce((sum, value) => sum + value, 0) / valid.length, standard.decimals);
+}
+
+// PurpleAir sensors read high, especially in smoke. This is the EPA's
+// nationwide correction for the cf_1 channel, with relative humidity in %.
+export function correctPurpleAirPm25(cf1: number, humidity: number): number {
+  const pa = Math.max(0, cf1);
+  const rh = humidity;
+  let corrected: number;
+
+  if (pa < 30) {
+    corrected = 0.524 * pa - 0.0862 * rh + 5.75;
+  } else if (pa < 50) {
+    const weight = pa / 20 - 3 / 2;
+    corrected = (0.786 * weight + 0.524 * (1 - weight)) * pa - 0.0862 * rh + 5.75;
+  } else if (pa < 210) {
+    corrected = 0.786 * pa - 0.0862 * rh + 5.75;
+  } else if (pa < 260) {
+    const weight = pa / 50 - 21 / 5;
+    corrected = (0.69 * weight + 0.786 * (1 - weight)) * pa
+      - 0.0862 * rh * (1 - weight)
+      + 2.966 * weight
+      + 5.75 * (1 - weight)
+      + 8.84e-4 * pa ** 2 * weight;
+  } else {
+    corrected = 2.966 + 0.69 * pa + 8.84e-4 * pa ** 2;
+  }
+
+  return Math.max(0, corrected);
+}
@@ -0,0 +1,35 @@
+import type { HazardChange } from '@/utils/changes';
+import { calculateDistance } from '@/utils/distance';
+import { getGeometryBBox, getGeometryPolygons, measurePolygons } from '@/utils/geometry';
+import type { AreaQuery } from '@/utils/requestValidation';
+import { bboxesIntersect, pointBBox } from '@/utils/spatialIndex';
+import type { FireFeature, PolygonalGeometry } from '@/types';
+
+// Narrows a dataset to the area a request asked for. Both parts of the query
+// apply when both are given.
+
+export function filterFiresByArea(fires: FireFeature[], { bbox, near }: AreaQuery): FireFeature[] {
+  return fires.filter(({ properties: { Latitude, Longitude } }) =>
+    (!bbox || bboxesIntersect(pointBBox(Latitude, Longitude), bbox)) &&
+    (!near || calculateDistance(near.lat, near.lng, Latitude, Longitude) <= near.radius)
+  );
+}
+
+export function filterChangesByArea(changes: HazardChange[], { bbox, near }: AreaQuery): HazardChange[] {
+  return changes.filter(({ lat, lng }) =>
+    (!bbox || bboxesIntersect(pointBBox(lat, lng), bbox)) &&
+    (!near || calculateDistance(near.lat, near.lng, lat, lng) <= near.radius)
+  );
+}
+
+// Zones and perimeters match when any part of them does, so a box that clips
+// the edge of a large zone still returns it
+export function filterPolygonsByArea<T extends { geometry: PolygonalGeometry }>(
+  features: T[],
+  { bbox, near }: AreaQuery
+): T[] {
+  return features.filter(({ geometry }) =>
+    (!bbox || bboxesIntersect(getGeometryBBox(geometry), bbox)) &&
+    (!near || measurePolygons(near.lat, near.lng, getGeometryPolygons(geometry)).distance <= near.radius)
+  );
+}
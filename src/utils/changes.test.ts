@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { describeChange } from '@/utils/changes';
+import type { FireChange, ZoneChange } from '@/utils/changes';
+
+function fireChange(kind: FireChange['kind'], from: number | null, to: number | null, county = 'Los Angeles'): FireChange {
+  return { kind, at: 0, lat: 34.19, lng: -118.13, fireId: 'eaton', name: 'Eaton Fire', county, from, to };
+}
+
+function zoneChange(kind: ZoneChange['kind'], from: ZoneChange['from'], to: ZoneChange['to']): ZoneChange {
+  return { kind, at: 0, lat: 34.19, lng: -118.13, zoneId: 'LAC-1', county: 'Los Angeles', from, to };
+}
+
+describe('describeChange', () => {
+  it.each([
+    ['a fire in one county', fireChange('fire_added', null, 10), 'Eaton Fire started in Los Angeles County'],
+    ['a fire in two counties', fireChange('fire_added', null, 10, 'Los Angeles, Ventura'), 'Eaton Fire started in Los Angeles and Ventura counties'],
+    ['a fire in three counties', fireChange('fire_added', null, 10, 'Kern, Tulare ,Inyo'), 'Eaton Fire started in Kern, Tulare and Inyo counties'],
+    ['a fire without a county', fireChange('fire_added', null, 10, ''), 'Eaton Fire started'],
+    ['growth', fireChange('fire_acres', 1000, 14021), 'Eaton Fire grew from 1,000 to 14,021 acres'],
+    ['a smaller remapped area', fireChange('fire_acres', 14021, 13900), 'Eaton Fire was revised down from 14,021 to 13,900 acres'],
+    ['containment rising', fireChange('fire_containment', 10, 35), 'Eaton Fire containment rose from 10% to 35%'],
+    ['containment falling', fireChange('fire_containment', 35, 30), 'Eaton Fire containment fell from 35% to 30%'],
+    ['a fire going out', fireChange('fire_inactive', 14021, null), 'Eaton Fire is no longer listed as active'],
+    ['a new zone', zoneChange('zone_added', null, 'warning'), 'Zone LAC-1 (Los Angeles) issued: Evacuation Warning'],
+    ['a zone escalating', zoneChange('zone_status', 'warning', 'order'), 'Zone LAC-1 (Los Angeles) changed from Evacuation Warning to Evacuation Order'],
+    ['a zone clearing', zoneChange('zone_cleared', 'order', null), 'Zone LAC-1 (Los Angeles) no longer under Evacuation Order']
+  ])('describes %s', (_label, change, expected) => {
+    expect(describeChange(change)).toBe(expected);
+  });
+});
@@ -0,0 +1,166 @@
+import { EVACUATION_STATUS_INFO } from '@/utils/evacuationStatus';
+import { splitCounties } from '@/utils/fireList';
+import type { FireRecord, HistorySnapshot, ZoneRecord } from '@/utils/historyStore';
+import type { EvacuationStatus } from '@/types';
+
+// Turns consecutive history snapshots into a change feed: zones added, cleared
+// or changing status, and fires starting, growing, being contained or going out
+
+interface ChangeBase {
+  // When the snapshot showing the change was taken
+  at: number;
+  // Zones are placed at their center, so this is approximate for large zones
+  lat: number;
+  lng: number;
+}
+
+export interface ZoneChange extends ChangeBase {
+  kind: 'zone_added' | 'zone_status' | 'zone_cleared';
+  zoneId: string;
+  county: string;
+  from: EvacuationStatus | null;
+  to: EvacuationStatus | null;
+}
+
+export interface FireChange extends ChangeBase {
+  kind: 'fire_added' | 'fire_acres' | 'fire_containment' | 'fire_inactive';
+  fireId: string;
+  name: string;
+  county: string;
+  // Acres or percent contained, depending on kind
+  from: number | null;
+  to: number | null;
+}
+
+export type HazardChange = ZoneChange | FireChange;
+
+function byId<T extends { id: string }>(records: T[]): Map<string, T> {
+  return new Map(records.map((record) => [record.id, record]));
+}
+
+function zoneChange(
+  kind: ZoneChange['kind'],
+  at: number,
+  zone: ZoneRecord,
+  from: EvacuationStatus | null,
+  to: EvacuationStatus | null
+): ZoneChange {
+  return { kind, at, lat: zone.lat, lng: zone.lng, zoneId: zone.id, county: zone.county, from, to };
+}
+
+function fireChange(
+  kind: FireChange['kind'],
+  at: number,
+  fire: FireRecord,
+  from: number | null,
+  to: number | null
+): FireChange {
+  return { kind, at, lat: fire.lat, lng: fire.lng, fireId: fire.id, name: fire.name, county: fire.county, from, to };
+}
+
+export function diffSnapshots(previous: HistorySnapshot, next: HistorySnapshot): HazardChange[] {
+  const changes: HazardChange[] = [];
+  const at = next.takenAt;
+
+  const previousZones = byId(previous.zones);
+  const nextZones = byId(next.zones);
+  nextZones.forEach((zone, id) => {
+    const before = previousZones.get(id);
+    if (!before) {
+      changes.push(zoneChange('zone_added', at, zone, null, zone.status));
+    } else if (before.status !== zone.status) {
+      changes.push(zoneChange('zone_status', at, zone, before.status, zone.status));
+    }
+  });
+  previousZones.forEach((zone, id) => {
+    if (!nextZones.has(id)) changes.push(zoneChange('zone_cleared', at, zone, zone.status, null));
+  });
+
+  const previousFires = byId(previous.fires);
+  const nextFires = byId(next.fires);
+  nextFires.forEach((fire, id) => {
+    const before = previousFires.get(id);
+    if (!before) {
+      changes.push(fireChange('fire_added', at, fire, null, fire.acres));
+      return;
+    }
+    if (before.acres !== fire.acres) {
+      changes.push(fireChange('fire_acres', at, fire, before.acres, fire.acres));
+    }
+    if (before.contained !== fire.contained) {
+      changes.push(fireChange('fire_containment', at, fire, before.contained, fire.contained));
+    }
+  });
+  previousFires.forEach((fire, id) => {
+    if (!nextFires.has(id)) changes.push(fireChange('fire_inactive', at, fire, fire.acres, null));
+  });
+
+  return changes;
+}
+
+// Acreage and containment tick up in small steps, so each fire gets one net
+// change per kind. Zone status transitions are all kept, since when a zone
+// went to Order matters.
+function collapseFireProgress(changes: HazardChange[]): HazardChange[] {
+  const progress = new Map<string, FireChange>();
+  const result: HazardChange[] = [];
+
+  changes.forEach((change) => {
+    if (change.kind !== 'fire_acres' && change.kind !== 'fire_containment') {
+      result.push(change);
+      return;
+    }
+    const key = `${change.kind}:${change.fireId}`;
+    const existing = progress.get(key);
+    progress.set(key, existing ? { ...change, from: existing.from } : change);
+  });
+
+  progress.forEach((change) => {
+    if (change.from !== change.to) result.push(change);
+  });
+  return result;
+}
+
+// The recorded changes as a feed, newest first
+export function summarizeChanges(changes: HazardChange[]): HazardChange[] {
+  return collapseFireProgress(changes).sort((a, b) => b.at - a.at);
+}
+
+function statusLabel(status: EvacuationStatus | null): string {
+  return status ? EVACUATION_STATUS_INFO[status].label : 'Normal';
+}
+
+// "Los Angeles County", "Los Angeles and Ventura counties"
+function countyLabel(county: string): string | null {
+  const counties = splitCounties(county);
+  if (counties.length === 0) return null;
+  if (counties.length === 1) return `${counties[0]} County`;
+  return `${counties.slice(0, -1).join(', ')} and ${counties[counties.length - 1]} counties`;
+}
+
+export function describeChange(change: HazardChange): string {
+  switch (change.kind) {
+    case 'zone_added':
+      return `Zone ${change.zoneId} (${change.county}) issued: ${statusLabel(change.to)}`;
+    case 'zone_status':
+      return `Zone ${change.zoneId} (${change.county}) changed from ${statusLabel(change.from)} to ${statusLabel(change.to)}`;
+    case 'zone_cleared':
+      return `Zone ${change.zoneId} (${change.county}) no longer under ${statusLabel(change.from)}`;
+    case 'fire_added': {
+      const counties = countyLabel(change.county);
+      return counties ? `${change.name} started in ${counties}` : `${change.name} started`;
+    }
+    case 'fire_acres': {
+      const from = (change.from ?? 0).toLocaleString();
+      const to = (change.to ?? 0).toLocaleString();
+      // Acreage only goes down when a fire is remapped more accurately
+      return (change.to ?? 0) >= (change.from ?? 0)
+        ? `${change.name} grew from ${from} to ${to} acres`
+        : `${change.name} was revised down from ${from} to ${to} acres`;
+    }
+    case 'fire_containment':
+      return `${change.name} containment ${(change.to ?? 0) >= (change.from ?? 0) ? 'rose' : 'fell'} from ${change.from}% to ${change.to}%`;
+    case 'fire_inactive':
+      return `${change.name} is no longer listed as active`;
+  }
+}
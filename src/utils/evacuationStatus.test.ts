@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeEvacuationHazard, normalizeEvacuationStatus, parseFilterList } from '@/utils/evacuationStatus';
+
+describe('normalizeEvacuationStatus', () => {
+  it.each([
+    ['Evacuation Order', 'order'],
+    ['Mandatory Evacuation', 'order'],
+    ['Nuclear Evacuation Order', 'order'],
+    ['Evacuation Order - Unclear Zone', 'order'],
+    ['Border Area Warning', 'warning'],
+    ['Evacuation Order Lifted', 'lifted'],
+    ['Order Lifting', 'lifted'],
+    ['Repopulation', 'lifted'],
+    ['Repopulated', 'lifted'],
+    ['All Clear', 'lifted'],
+    ['Cleared', 'lifted'],
+    ['Reopened to residents', 'lifted'],
+    ['Shelter in Place', 'shelter_in_place'],
+    ['Sheltering in place order', 'shelter_in_place'],
+    ['Evacuation Warning', 'warning'],
+    ['Advisory', 'advisory'],
+    ['Normal', 'normal'],
+    ['', 'normal'],
+    [null, 'normal']
+  ])('%s -> %s', (status, expected) => {
+    expect(normalizeEvacuationStatus(status)).toBe(expected);
+  });
+});
+
+describe('normalizeEvacuationHazard', () => {
+  it.each([
+    ['Wildfire', 'fire'],
+    ['Firestorm', 'fire'],
+    ['Wildfire in steep terrain', 'fire'],
+    ['Fire near train yard', 'fire'],
+    ['Brush fire - Mudd Canyon Rd', 'fire'],
+    ['Smoke impacts', 'fire'],
+    ['Flooding', 'flood'],
+    ['Flash flood', 'flood'],
+    ['Post-fire debris flow', 'flood'],
+    ['Mudslide risk', 'flood'],
+    ['Heavy rain', 'flood'],
+    ['Winter storm', 'flood'],
+    ['Thunderstorms', 'flood'],
+    ['Dam failure', 'flood'],
+    ['Levee breach', 'flood'],
+    ['Hazmat spill', 'other'],
+    ['Amsterdam Ave gas leak', 'other'],
+    ['  ', 'unknown'],
+    [null, 'unknown']
+  ])('%s -> %s', (reason, expected) => {
+    expect(normalizeEvacuationHazard(reason)).toBe(expected);
+  });
+});
+
+describe('parseFilterList', () => {
+  it('accepts known values case-insensitively', () => {
+    expect(parseFilterList('Order, warning', ['order', 'warning'])).toEqual(['order', 'warning']);
+  });
+
+  it('rejects the whole list when one value is unknown', () => {
+    expect(parseFilterList('order,nope', ['order', 'warning'])).toBeNull();
+  });
+
+  it('treats a missing filter as empty', () => {
+    expect(parseFilterList(null, ['order'])).toEqual([]);
+  });
+});
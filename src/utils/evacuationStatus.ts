@@ -0,0 +1,74 @@
+import type { EvacuationHazard, EvacuationStatus } from '@/types';
+
+interface StatusInfo {
+  label: string;
+  // Higher is more severe
+  severity: number;
+  // Ranking weights: effective distance = distance * multiplier + offset, so a
+  // nearby warning outranks a distant order, but being inside a warning zone
+  // doesn't hide an order a few hundred feet away
+  rankMultiplier: number;
+  rankOffset: number;
+}
+
+export const EVACUATION_STATUS_INFO: Record<EvacuationStatus, StatusInfo> = {
+  order: { label: 'Evacuation Order', severity: 5, rankMultiplier: 1, rankOffset: 0 },
+  shelter_in_place: { label: 'Shelter in Place', severity: 4, rankMultiplier: 1.25, rankOffset: 0 },
+  warning: { label: 'Evacuation Warning', severity: 3, rankMultiplier: 2, rankOffset: 0.25 },
+  advisory: { label: 'Advisory', severity: 2, rankMultiplier: 4, rankOffset: 1 },
+  lifted: { label: 'Lifted / Repopulation', severity: 1, rankMultiplier: 10, rankOffset: 5 },
+  normal: { label: 'Normal', severity: 0, rankMultiplier: 20, rankOffset: 10 }
+};
+
+export const EVACUATION_STATUSES = Object.keys(EVACUATION_STATUS_INFO) as EvacuationStatus[];
+export const EVACUATION_HAZARDS: EvacuationHazard[] = ['fire', 'flood', 'other', 'unknown'];
+
+// Zones with no active status are left out unless asked for explicitly
+export const DEFAULT_EVACUATION_STATUSES = EVACUATION_STATUSES.filter((status) => status !== 'normal');
+
+// Statuses that mean the user may need to act now
+export const ACTIVE_EVACUATION_STATUSES: EvacuationStatus[] = ['order', 'shelter_in_place', 'warning'];
+
+// Upstream statuses are free text ("Evacuation Order", "Order Lifted",
+// "Repopulation", ...). Lifted is checked first so "Evacuation Order Lifted"
+// isn't read as an order. Words are matched whole, since "clear" inside
+// "Nuclear Evacuation Order" must not lift it.
+export function normalizeEvacuationStatus(zoneStatus: string | null | undefined): EvacuationStatus {
+  const status = (zoneStatus ?? '').toLowerCase();
+  if (/\b(lift(ed|ing)?|repopulat(ed|ing|ion)|clear(ed)?|reopen(ed|ing)?)\b/.test(status)) return 'lifted';
+  if (/\bshelter(ing)?\b/.test(status)) return 'shelter_in_place';
+  if (/\b(orders?|mandatory)\b/.test(status)) return 'order';
+  if (/\bwarnings?\b/.test(status)) return 'warning';
+  if (/\badvisory\b/.test(status)) return 'advisory';
+  return 'normal';
+}
+
+// Flood is checked first so "post-fire debris flow" counts as a flood hazard.
+// Flood words are matched whole so "Firestorm" or "train" stay fire and
+// other; fire words aren't, so "wildfire" still counts.
+export function normalizeEvacuationHazard(reason: string | null | undefined): EvacuationHazard {
+  const text = (reason ?? '').toLowerCase().trim();
+  if (!text) return 'unknown';
+  if (/\b(flood(s|ed|ing|water)?|debris|mud(slides?|flows?)?|rain(s|fall|storms?)?|(thunder)?storms?|dams?|levees?)\b/.test(text)) {
+    return 'flood';
+  }
+  if (/fire|smoke|burn/.test(text)) return 'fire';
+  return 'other';
+}
+
+export function isActiveEvacuationStatus(status: EvacuationStatus): boolean {
+  return ACTIVE_EVACUATION_STATUSES.includes(status);
+}
+
+export function zonePriority(distance: number, status: EvacuationStatus): number {
+  const { rankMultiplier, rankOffset } = EVACUATION_STATUS_INFO[status];
+  return distance * rankMultiplier + rankOffset;
+}
+
+// Parses a comma separated filter such as "order,warning". Returns null when
+// any value isn't recognised so routes can reject the request.
+export function parseFilterList<T extends string>(value: string | null, allowed: readonly T[]): T[] | null {
+  if (!value) return [];
+  const values = value.split(',').map((item) => item.trim().toLowerCase()).filter(Boolean);
+  return values.every((item) => (allowed as readonly string[]).includes(item)) ? (values as T[]) : null;
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import {
+  associateZoneWithFire,
+  countiesMatch,
+  isConfidentAssociation,
+  reasonMentionsFire,
+  scoreFireForZone
+} from '@/utils/fireAssociation';
+import type { FireAssociation } from '@/utils/fireAssociation';
+import { createFireIndex } from '@/utils/nearby';
+import { fireFeature, squareRing, zoneFeature } from '@/test/features';
+import type { FireFeature, FirePerimeterFeature } from '@/types';
+
+const MILE = 1 / 69;
+// Zone edges are 0.01 degrees either side of 34.19, -118.13
+const ZONE_TOP = 34.2;
+
+function perimeter(lat: number, lng: number, half: number): FirePerimeterFeature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [squareRing(lat, lng, half)] },
+    properties: { incident_name: 'Test', incident_id: null, acres: null, updated: null }
+  };
+}
+
+describe('reasonMentionsFire', () => {
+  it.each([
+    ['Evacuation due to the Eaton Fire', 'Eaton Fire', true],
+    ['EATON FIRE ORDER', 'Eaton Fire', true],
+    ['Eaton', 'Eaton Fire', true],
+    ['Eatonville flooding', 'Eaton Fire', false],
+    ['Near Lake Eaton', 'Lake Fire', true],
+    ['Park Fire Complex evacuations', 'Park Fire Complex', true],
+    ['Parking lot closure', 'Park Fire', false],
+    ['Fire weather warning', 'Fire', false],
+    ['A fire nearby', 'A Fire', false],
+    [null, 'Eaton Fire', false],
+    ['Eaton Fire', '', false]
+  ])('%s mentions %s: %s', (reason, name, expected) => {
+    expect(reasonMentionsFire(reason, fireFeature({ Name: name }))).toBe(expected);
+  });
+
+  it('treats regex characters in names literally', () => {
+    expect(reasonMentionsFire('Evacuation for Route 66.1', fireFeature({ Name: 'Route 66.1 Fire' }))).toBe(true);
+    expect(reasonMentionsFire('Evacuation for Route 6601', fireFeature({ Name: 'Route 66.1 Fire' }))).toBe(false);
+  });
+});
+
+describe('countiesMatch', () => {
+  it.each([
+    ['Los Angeles', 'Los Angeles', true],
+    ['Los Angeles', 'Los Angeles County', true],
+    ['Ventura County', 'Los Angeles, Ventura', true],
+    ['ventura', 'Los Angeles,Ventura', true],
+    ['Kern', 'Kern/Tulare', true],
+    ['San Bernardino', 'Los Angeles, San Bernardino County', true],
+    ['Orange', 'San Bernardino, Riverside', false],
+    ['Bernardino', 'San Bernardino', false],
+    ['Los Angeles', 'Los Angeles National Forest', false],
+    ['', 'Kern', false],
+    ['Kern', '', false]
+  ])('zone %s and fire %s: %s', (zoneCounty, fireCounty, expected) => {
+    expect(countiesMatch(zoneCounty, fireCounty)).toBe(expected);
+  });
+});
+
+describe('scoreFireForZone', () => {
+  const zone = zoneFeature('z1', 'order', undefined, { zone_status_reason: 'Eaton Fire' });
+
+  it.each([
+    // Name 0.6 + inside 0.35 + county 0.15
+    ['named, inside and in the same county', { Name: 'Eaton Fire' }, 1.1, 'high'],
+    // Within five miles 0.25 + county 0.15
+    ['three miles away in the same county', { Latitude: ZONE_TOP + 3 * MILE }, 0.4, 'medium'],
+    // Within fifteen miles 0.15 + county 0.15
+    ['ten miles away in the same county', { Latitude: ZONE_TOP + 10 * MILE }, 0.3, 'low'],
+    // Within the candidate radius 0.05 only
+    ['twenty miles away elsewhere', { Latitude: ZONE_TOP + 20 * MILE, County: 'Kern' }, 0.05, 'none'],
+    ['forty miles away elsewhere', { Latitude: ZONE_TOP + 40 * MILE, County: 'Kern' }, 0, 'none']
+  ] as const)('scores a fire %s', (_, properties, score, confidence) => {
+    const association = scoreFireForZone(zone, fireFeature({ Name: 'Other Fire', ...properties }));
+    expect(association.score).toBeCloseTo(score, 6);
+    expect(association.confidence).toBe(confidence);
+  });
+
+  it('counts a multi-county fire as the same county', () => {
+    const association = scoreFireForZone(zone, fireFeature({ Name: 'Other Fire', County: 'Ventura, Los Angeles' }));
+    expect(association.reasons).toContain('Same county (Ventura, Los Angeles)');
+  });
+
+  it('penalises zones last updated well before the fire started', () => {
+    const stale = zoneFeature('z1', 'order', undefined, { last_updated: Date.parse('2026-01-14T00:00:00Z') });
+    const association = scoreFireForZone(stale, fireFeature({ Name: 'Other Fire', Started: '2026-01-15T00:00:00Z' }));
+    expect(association.score).toBeCloseTo(0.35 + 0.15 - 0.4, 6);
+    expect(association.reasons).toContain('Zone was last updated before the fire started');
+  });
+
+  it('measures from the perimeter when the fire has one', () => {
+    const fire = fireFeature({ Name: 'Other Fire', Latitude: ZONE_TOP + 10 * MILE });
+    // Reaches down past the zone's top edge
+    const burned = perimeter(ZONE_TOP + 5 * MILE, -118.13, 6 * MILE);
+
+    const byPoint = scoreFireForZone(zone, fire);
+    const byPerimeter = scoreFireForZone(zone, fire, burned);
+    expect(byPoint.confidence).toBe('low');
+    expect(byPerimeter.score).toBeCloseTo(0.35 + 0.15, 6);
+    expect(byPerimeter.reasons).toContain('Fire perimeter reaches the zone');
+  });
+
+  it('reports the gap to a perimeter that stops short of the zone', () => {
+    const fire = fireFeature({ Name: 'Other Fire', Latitude: ZONE_TOP + 10 * MILE });
+    const association = scoreFireForZone(zone, fire, perimeter(ZONE_TOP + 10 * MILE, -118.13, 7 * MILE));
+    expect(association.reasons[0]).toMatch(/^Fire perimeter is 3\.0 miles from the zone$/);
+  });
+});
+
+describe('associateZoneWithFire', () => {
+  it('prefers a fire whose perimeter reaches the zone over a closer incident point', () => {
+    const near = fireFeature({ Name: 'Near Fire', Latitude: ZONE_TOP + 8 * MILE, County: 'Kern' });
+    const large = fireFeature({ Name: 'Large Fire', Latitude: ZONE_TOP + 12 * MILE, County: 'Kern' });
+    const perimeters = new Map<FireFeature, FirePerimeterFeature>([[large, perimeter(ZONE_TOP + 6 * MILE, -118.13, 7 * MILE)]]);
+
+    const association = associateZoneWithFire(zoneFeature('z1', 'order'), createFireIndex([near, large], perimeters));
+    expect(association.fire).toBe(large);
+  });
+
+  it('finds a fire named in the reason even when it is far away', () => {
+    const far = fireFeature({ Name: 'Eaton Fire', Latitude: ZONE_TOP + 60 * MILE, County: 'Kern' });
+    const association = associateZoneWithFire(
+      zoneFeature('z1', 'order', undefined, { zone_status_reason: 'Eaton Fire' }),
+      createFireIndex([far])
+    );
+    expect(association).toMatchObject({ fire: far, confidence: 'medium' });
+  });
+
+  it('ignores fires marked final', () => {
+    const done = fireFeature({ Final: true });
+    expect(associateZoneWithFire(zoneFeature('z1', 'order'), createFireIndex([done])).fire).toBeNull();
+  });
+});
+
+describe('isConfidentAssociation', () => {
+  it.each([
+    ['high', true],
+    ['medium', true],
+    ['low', false],
+    ['none', false]
+  ] as const)('%s: %s', (confidence, expected) => {
+    const association: FireAssociation = { fire: null, confidence, score: 0, reasons: [] };
+    expect(isConfidentAssociation(association)).toBe(expected);
+  });
+});
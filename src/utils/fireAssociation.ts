@@ -0,0 +1,194 @@
+import { normalizeFireName } from '@/utils/fireIdentity';
+import {
+  bboxGapMiles,
+  distanceBetweenPolygons,
+  getGeometryBBox,
+  getGeometryPolygons,
+  getZoneBBox,
+  getZonePolygons,
+  measureZone
+} from '@/utils/geometry';
+import type { FireIndex } from '@/utils/nearby';
+import type { EvacuationFeature, FireFeature, FirePerimeterFeature } from '@/types';
+
+// Works out which fire an evacuation zone belongs to. Upstream zones don't
+// reference incidents, so several weaker signals are combined into a score:
+// the fire's name in zone_status_reason, distance from the fire (its
+// perimeter when one is known, else the incident point) to the zone,
+// matching county, and whether the zone changed after the fire started.
+
+export type AssociationConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export interface FireAssociation {
+  fire: FireFeature | null;
+  confidence: AssociationConfidence;
+  score: number;
+  // Human-readable signals that contributed, for debugging and tooltips
+  reasons: string[];
+}
+
+// Fires further than this from a zone are only considered on a name match
+const CANDIDATE_RADIUS_MILES = 25;
+const MILES_PER_DEGREE = 69.0;
+
+// Zones are often updated shortly before the incident record is created
+const START_TIME_SLACK_MS = 6 * 60 * 60 * 1000;
+
+const SCORE = {
+  nameInReason: 0.6,
+  withinOneMile: 0.35,
+  withinFiveMiles: 0.25,
+  withinFifteenMiles: 0.15,
+  withinCandidateRadius: 0.05,
+  countyMatch: 0.15,
+  startsAfterZoneUpdate: -0.4
+};
+
+const CONFIDENCE_THRESHOLDS: Array<[AssociationConfidence, number]> = [
+  ['high', 0.7],
+  ['medium', 0.4],
+  ['low', 0.1]
+];
+
+export const NO_ASSOCIATION: FireAssociation = {
+  fire: null,
+  confidence: 'none',
+  score: 0,
+  reasons: []
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function reasonMentionsFire(reason: string | null, fire: FireFeature): boolean {
+  if (!reason || !fire.properties.Name) return false;
+  const core = normalizeFireName(fire.properties.Name);
+  // Very short or generic names ("fire", "a") would match almost anything
+  if (core.length < 3 || core === 'fire') return false;
+  return new RegExp(`\\b${escapeRegExp(core)}\\b`, 'i').test(reason);
+}
+
+function normalizeCounty(county: string): string {
+  return county.toLowerCase().replace(/\bcounty\b/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Incidents spanning counties list them as "Los Angeles, Ventura"
+export function countiesMatch(zoneCounty: string, fireCounty: string): boolean {
+  if (!zoneCounty || !fireCounty) return false;
+  const zone = normalizeCounty(zoneCounty);
+  return fireCounty.split(/[,/]/).some((county) => normalizeCounty(county) === zone);
+}
+
+function scoreDistance(distance: number): number {
+  if (distance <= 1) return SCORE.withinOneMile;
+  if (distance <= 5) return SCORE.withinFiveMiles;
+  if (distance <= 15) return SCORE.withinFifteenMiles;
+  if (distance <= CANDIDATE_RADIUS_MILES) return SCORE.withinCandidateRadius;
+  return 0;
+}
+
+// Miles from the fire to the zone, and what was measured. Perimeters far
+// outside the candidate radius aren't measured exactly, as they score nothing.
+function measureFireToZone(
+  zone: EvacuationFeature,
+  fire: FireFeature,
+  perimeter?: FirePerimeterFeature
+): { distance: number; measuredTo: 'perimeter' | 'point' } {
+  if (perimeter) {
+    const distance = bboxGapMiles(getGeometryBBox(perimeter.geometry), getZoneBBox(zone)) > CANDIDATE_RADIUS_MILES
+      ? Infinity
+      : distanceBetweenPolygons(getGeometryPolygons(perimeter.geometry), getZonePolygons(zone));
+    return { distance, measuredTo: 'perimeter' };
+  }
+  const [fireLon, fireLat] = fire.geometry.coordinates;
+  return { distance: measureZone(fireLat, fireLon, zone).distance, measuredTo: 'point' };
+}
+
+function describeDistance(distance: number, measuredTo: 'perimeter' | 'point'): string {
+  if (measuredTo === 'perimeter') {
+    return distance === 0 ? 'Fire perimeter reaches the zone' : `Fire perimeter is ${distance.toFixed(1)} miles from the zone`;
+  }
+  return distance === 0 ? 'Fire is inside the zone' : `Fire is ${distance.toFixed(1)} miles from the zone`;
+}
+
+export function scoreFireForZone(
+  zone: EvacuationFeature,
+  fire: FireFeature,
+  perimeter?: FirePerimeterFeature
+): FireAssociation {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (reasonMentionsFire(zone.properties.zone_status_reason, fire)) {
+    score += SCORE.nameInReason;
+    reasons.push(`Zone reason mentions ${fire.properties.Name}`);
+  }
+
+  const { distance, measuredTo } = measureFireToZone(zone, fire, perimeter);
+  const distanceScore = scoreDistance(distance);
+  if (distanceScore > 0) {
+    score += distanceScore;
+    reasons.push(describeDistance(distance, measuredTo));
+  }
+
+  if (countiesMatch(zone.properties.county_name, fire.properties.County)) {
+    score += SCORE.countyMatch;
+    reasons.push(`Same county (${fire.properties.County})`);
+  }
+
+  // A zone last changed well before the fire started can't have been issued for it
+  const started = Date.parse(fire.properties.Started);
+  const updated = zone.properties.last_updated;
+  if (Number.isFinite(started) && updated > 0 && updated < started - START_TIME_SLACK_MS) {
+    score += SCORE.startsAfterZoneUpdate;
+    reasons.push('Zone was last updated before the fire started');
+  }
+
+  return { fire, confidence: toConfidence(score), score, reasons };
+}
+
+function toConfidence(score: number): AssociationConfidence {
+  const match = CONFIDENCE_THRESHOLDS.find(([, threshold]) => score >= threshold);
+  return match ? match[0] : 'none';
+}
+
+export function associateZoneWithFire(zone: EvacuationFeature, fireIndex: FireIndex): FireAssociation {
+  const bbox = getZoneBBox(zone);
+  const latPadding = CANDIDATE_RADIUS_MILES / MILES_PER_DEGREE;
+  const lonPadding = latPadding / Math.max(Math.cos((bbox.maxLat * Math.PI) / 180), 0.01);
+
+  const candidates = new Set(
+    fireIndex.search({
+      minLon: bbox.minLon - lonPadding,
+      minLat: bbox.minLat - latPadding,
+      maxLon: bbox.maxLon + lonPadding,
+      maxLat: bbox.maxLat + latPadding
+    })
+  );
+  // The index boxes include perimeters, so fires whose perimeter is near the
+  // zone are found too. Name matches count even when the fire is far away.
+  fireIndex.items.forEach((fire) => {
+    if (reasonMentionsFire(zone.properties.zone_status_reason, fire)) candidates.add(fire);
+  });
+
+  let best = NO_ASSOCIATION;
+  candidates.forEach((fire) => {
+    if (fire.properties.Final) return;
+    const association = scoreFireForZone(zone, fire, fireIndex.perimeters.get(fire));
+    if (association.score > best.score) best = association;
+  });
+
+  return best;
+}
+
+// Only medium and high confidence matches are worth naming in the UI
+export function isConfidentAssociation(association: FireAssociation): boolean {
+  return association.confidence === 'high' || association.confidence === 'medium';
+}
+
+export function associatedFireLabel(association: FireAssociation): string {
+  return isConfidentAssociation(association) && association.fire
+    ? association.fire.properties.Name
+    : 'Unknown fire';
+}
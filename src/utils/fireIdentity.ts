@@ -0,0 +1,18 @@
+import type { FireFeature } from '@/types';
+
+// "Eaton Fire" -> "eaton", "Park Fire Complex" -> "park fire complex"
+export function normalizeFireName(name: string): string {
+  return name.toLowerCase().replace(/\s+fire$/, '').replace(/\s+/g, ' ').trim();
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// Stable id for an incident. CAL FIRE's GUID when the feed has one, otherwise
+// name plus start date, which is unique enough within a season.
+export function getFireId(fire: FireFeature): string {
+  if (fire.properties.UniqueId) return fire.properties.UniqueId.toLowerCase();
+  const startDate = (fire.properties.Started || '').split('T')[0];
+  return slugify(`${fire.properties.Name} ${startDate}`);
+}
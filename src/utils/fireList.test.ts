@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { fireFeature } from '@/test/features';
+import {
+  DEFAULT_FIRE_LIST_FILTER,
+  createFireListEntries,
+  filterFireList,
+  getFireCounties,
+  isNewFire,
+  listCounties,
+  sortFireList
+} from '@/utils/fireList';
+import type { FireListEntry, FireSortKey, SortDirection } from '@/utils/fireList';
+import { createFireIndex } from '@/utils/nearby';
+
+const NOW = Date.parse('2026-01-16T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+function entry(properties: Parameters<typeof fireFeature>[0], distance: number | null = null): FireListEntry {
+  return { fire: fireFeature(properties), distance };
+}
+
+function names(entries: FireListEntry[]): string[] {
+  return entries.map(({ fire }) => fire.properties.Name);
+}
+
+describe('isNewFire', () => {
+  it.each([
+    ['an hour ago', new Date(NOW - HOUR).toISOString(), true],
+    ['exactly 24 hours ago', new Date(NOW - 24 * HOUR).toISOString(), true],
+    ['just over 24 hours ago', new Date(NOW - 24 * HOUR - 1).toISOString(), false],
+    ['right now', new Date(NOW).toISOString(), true],
+    ['in the future', new Date(NOW + HOUR).toISOString(), false],
+    ['with no start time', '', false],
+    ['with an unparseable start time', 'yesterday', false]
+  ])('started %s: %s', (_label, Started, expected) => {
+    expect(isNewFire(fireFeature({ Started }), NOW)).toBe(expected);
+  });
+});
+
+describe('counties', () => {
+  it.each([
+    ['Los Angeles', ['Los Angeles']],
+    ['Los Angeles, Ventura', ['Los Angeles', 'Ventura']],
+    [' Kern ,, Tulare ', ['Kern', 'Tulare']],
+    ['', []]
+  ])('splits %j', (County, expected) => {
+    expect(getFireCounties(fireFeature({ County }))).toEqual(expected);
+  });
+
+  it('lists each county once, sorted', () => {
+    const fires = [fireFeature({ County: 'Ventura, Los Angeles' }), fireFeature({ County: 'Kern' }), fireFeature({ County: 'Ventura' })];
+    expect(listCounties(fires)).toEqual(['Kern', 'Los Angeles', 'Ventura']);
+  });
+});
+
+describe('filterFireList', () => {
+  const entries = [
+    entry({ Name: 'Eaton Fire', County: 'Los Angeles', AcresBurned: 14000, Started: new Date(NOW - 2 * HOUR).toISOString() }),
+    entry({ Name: 'Palisades Fire', County: 'Los Angeles, Ventura', AcresBurned: 23000, Started: '2026-01-07T10:30:00Z' }),
+    entry({ Name: 'Hughes Fire', County: 'Los Angeles', AcresBurned: 10, Started: new Date(NOW - 30 * HOUR).toISOString() }),
+    entry({ Name: 'Border 2 Fire', County: 'San Diego', AcresBurned: 0, Started: '' })
+  ];
+
+  it.each([
+    ['no filter', {}, ['Eaton Fire', 'Palisades Fire', 'Hughes Fire', 'Border 2 Fire']],
+    ['a name substring, ignoring case', { query: 'PALI' }, ['Palisades Fire']],
+    ['a padded query', { query: '  eaton ' }, ['Eaton Fire']],
+    ['a query matching nothing', { query: 'Creek' }, []],
+    ['a county', { county: 'Los Angeles' }, ['Eaton Fire', 'Palisades Fire', 'Hughes Fire']],
+    ['the second county of a multi-county fire', { county: 'Ventura' }, ['Palisades Fire']],
+    ['a partial county name', { county: 'Los' }, []],
+    ['a minimum size', { minAcres: 10 }, ['Eaton Fire', 'Palisades Fire', 'Hughes Fire']],
+    ['a larger minimum size', { minAcres: 15000 }, ['Palisades Fire']],
+    ['new fires only', { newOnly: true }, ['Eaton Fire']],
+    ['everything at once', { query: 'fire', county: 'Los Angeles', minAcres: 1000, newOnly: true }, ['Eaton Fire']]
+  ])('with %s', (_label, filter, expected) => {
+    expect(names(filterFireList(entries, { ...DEFAULT_FIRE_LIST_FILTER, ...filter }, NOW))).toEqual(expected);
+  });
+});
+
+describe('sortFireList', () => {
+  const entries = [
+    entry({ Name: 'Bravo', AcresBurned: 500, PercentContained: 20, Started: '2026-01-10T00:00:00Z' }, 12),
+    entry({ Name: 'Delta', AcresBurned: 50, PercentContained: 80, Started: '' }, null),
+    entry({ Name: 'Alpha', AcresBurned: 500, PercentContained: 0, Started: '2026-01-12T00:00:00Z' }, 3),
+    entry({ Name: 'Charlie', AcresBurned: 5000, PercentContained: 20, Started: 'unknown' }, null),
+    entry({ Name: 'Echo', AcresBurned: 50, PercentContained: 100, Started: '2026-01-10T00:00:00Z' }, 12)
+  ];
+
+  it.each([
+    ['distance', 'asc', ['Alpha', 'Bravo', 'Echo', 'Charlie', 'Delta']],
+    ['distance', 'desc', ['Bravo', 'Echo', 'Alpha', 'Charlie', 'Delta']],
+    ['acres', 'desc', ['Charlie', 'Alpha', 'Bravo', 'Delta', 'Echo']],
+    ['acres', 'asc', ['Delta', 'Echo', 'Alpha', 'Bravo', 'Charlie']],
+    ['containment', 'asc', ['Alpha', 'Bravo', 'Charlie', 'Delta', 'Echo']],
+    ['containment', 'desc', ['Echo', 'Delta', 'Bravo', 'Charlie', 'Alpha']],
+    ['started', 'desc', ['Alpha', 'Bravo', 'Echo', 'Charlie', 'Delta']],
+    ['started', 'asc', ['Bravo', 'Echo', 'Alpha', 'Charlie', 'Delta']]
+  ] as Array<[FireSortKey, SortDirection, string[]]>)('by %s %s', (key, direction, expected) => {
+    expect(names(sortFireList(entries, key, direction))).toEqual(expected);
+  });
+
+  it.each([
+    ['distance', ['Alpha', 'Bravo', 'Echo', 'Charlie', 'Delta']],
+    ['acres', ['Charlie', 'Alpha', 'Bravo', 'Delta', 'Echo']],
+    ['containment', ['Alpha', 'Bravo', 'Charlie', 'Delta', 'Echo']],
+    ['started', ['Alpha', 'Bravo', 'Echo', 'Charlie', 'Delta']]
+  ] as Array<[FireSortKey, string[]]>)('uses the default direction for %s', (key, expected) => {
+    expect(names(sortFireList(entries, key))).toEqual(expected);
+  });
+
+  it('leaves the input untouched', () => {
+    const before = names(entries);
+    sortFireList(entries, 'acres');
+    expect(names(entries)).toEqual(before);
+  });
+});
+
+describe('createFireListEntries', () => {
+  const fires = [fireFeature({ Name: 'Near' }), fireFeature({ Name: 'Far', Latitude: 35.19 })];
+
+  it('measures each fire from the viewer', () => {
+    const result = createFireListEntries(fires, { lat: 34.19, lng: -118.13 }, createFireIndex(fires));
+    expect(result[0].distance).toBeCloseTo(0, 6);
+    expect(result[1].distance).toBeCloseTo(69.1, 0);
+  });
+
+  it('leaves distance empty without a location', () => {
+    expect(createFireListEntries(fires, null, createFireIndex(fires)).map(({ distance }) => distance)).toEqual([null, null]);
+  });
+});
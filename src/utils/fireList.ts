@@ -0,0 +1,125 @@
+import { measureFire } from '@/utils/nearby';
+import type { FireIndex } from '@/utils/nearby';
+import type { FireFeature } from '@/types';
+
+// Filtering and sorting for the browsable fire list
+
+export type FireSortKey = 'distance' | 'acres' | 'containment' | 'started';
+export type SortDirection = 'asc' | 'desc';
+
+export interface FireListEntry {
+  fire: FireFeature;
+  // Miles from the viewer, null without a location
+  distance: number | null;
+}
+
+export interface FireListFilter {
+  // Case-insensitive substring of the fire name
+  query: string;
+  // Empty string means every county
+  county: string;
+  minAcres: number;
+  newOnly: boolean;
+}
+
+export const DEFAULT_FIRE_LIST_FILTER: FireListFilter = {
+  query: '',
+  county: '',
+  minAcres: 0,
+  newOnly: false
+};
+
+// "New" means started within this many hours
+export const NEW_FIRE_HOURS = 24;
+
+// The direction each key sorts in when first picked: closest, largest,
+// least contained and newest first
+export const DEFAULT_SORT_DIRECTIONS: Record<FireSortKey, SortDirection> = {
+  distance: 'asc',
+  acres: 'desc',
+  containment: 'asc',
+  started: 'desc'
+};
+
+// Multi-county incidents are listed as "Los Angeles, Ventura"
+export function splitCounties(county: string): string[] {
+  return county
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+export function getFireCounties(fire: FireFeature): string[] {
+  return splitCounties(fire.properties.County || '');
+}
+
+export function listCounties(fires: FireFeature[]): string[] {
+  const counties = new Set<string>();
+  fires.forEach((fire) => getFireCounties(fire).forEach((county) => counties.add(county)));
+  return Array.from(counties).sort((a, b) => a.localeCompare(b));
+}
+
+export function isNewFire(fire: FireFeature, now = Date.now()): boolean {
+  const started = Date.parse(fire.properties.Started);
+  return Number.isFinite(started) && started <= now && now - started <= NEW_FIRE_HOURS * 60 * 60 * 1000;
+}
+
+export function createFireListEntries(
+  fires: FireFeature[],
+  location: { lat: number; lng: number } | null,
+  fireIndex: FireIndex
+): FireListEntry[] {
+  return fires.map((fire) => ({
+    fire,
+    distance: location
+      ? measureFire(location.lat, location.lng, fire, fireIndex.perimeters.get(fire)).distance
+      : null
+  }));
+}
+
+export function filterFireList(
+  entries: FireListEntry[],
+  { query, county, minAcres, newOnly }: FireListFilter,
+  now = Date.now()
+): FireListEntry[] {
+  const normalizedQuery = query.trim().toLowerCase();
+  return entries.filter(({ fire }) =>
+    (!normalizedQuery || fire.properties.Name.toLowerCase().includes(normalizedQuery)) &&
+    (!county || getFireCounties(fire).includes(county)) &&
+    fire.properties.AcresBurned >= minAcres &&
+    (!newOnly || isNewFire(fire, now))
+  );
+}
+
+function sortValue({ fire, distance }: FireListEntry, key: FireSortKey): number | null {
+  switch (key) {
+    case 'distance':
+      return distance;
+    case 'acres':
+      return fire.properties.AcresBurned;
+    case 'containment':
+      return fire.properties.PercentContained;
+    case 'started': {
+      const started = Date.parse(fire.properties.Started);
+      return Number.isFinite(started) ? started : null;
+    }
+  }
+}
+
+// Missing values (no location, unparseable dates) sort last either way
+export function sortFireList(
+  entries: FireListEntry[],
+  key: FireSortKey,
+  direction: SortDirection = DEFAULT_SORT_DIRECTIONS[key]
+): FireListEntry[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...entries].sort((a, b) => {
+    const valueA = sortValue(a, key);
+    const valueB = sortValue(b, key);
+    if (valueA === null || valueB === null) {
+      if (valueA === valueB) return a.fire.properties.Name.localeCompare(b.fire.properties.Name);
+      return valueA === null ? 1 : -1;
+    }
+    return (valueA - valueB) * sign || a.fire.properties.Name.localeCompare(b.fire.properties.Name);
+  });
+}
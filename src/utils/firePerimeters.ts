@@ -0,0 +1,57 @@
+import { normalizeFireName } from '@/utils/fireIdentity';
+import { getGeometryPolygons, measurePolygons } from '@/utils/geometry';
+import type { FireFeature, FirePerimeterFeature } from '@/types';
+
+export type PerimeterLookup = Map<FireFeature, FirePerimeterFeature>;
+
+// Fire names repeat across seasons and states ("Park Fire"), so a name match
+// only counts when the perimeter is near the incident point
+const NAME_MATCH_MAX_MILES = 30;
+
+function distanceToPerimeter(fire: FireFeature, perimeter: FirePerimeterFeature): number {
+  const [lon, lat] = fire.geometry.coordinates;
+  return measurePolygons(lat, lon, getGeometryPolygons(perimeter.geometry)).distance;
+}
+
+// Joins perimeters to incidents by id first, then by name and proximity
+export function joinPerimetersToFires(
+  fires: FireFeature[],
+  perimeters: FirePerimeterFeature[]
+): PerimeterLookup {
+  const lookup: PerimeterLookup = new Map();
+  if (perimeters.length === 0) return lookup;
+
+  const byId = new Map<string, FirePerimeterFeature>();
+  const byName = new Map<string, FirePerimeterFeature[]>();
+  perimeters.forEach((perimeter) => {
+    const { incident_id, incident_name } = perimeter.properties;
+    if (incident_id) byId.set(incident_id.toLowerCase(), perimeter);
+    const name = normalizeFireName(incident_name);
+    byName.set(name, [...(byName.get(name) ?? []), perimeter]);
+  });
+
+  fires.forEach((fire) => {
+    const uniqueId = fire.properties.UniqueId?.toLowerCase();
+    const idMatch = uniqueId ? byId.get(uniqueId) : undefined;
+    if (idMatch) {
+      lookup.set(fire, idMatch);
+      return;
+    }
+
+    // Prefer the closest candidate, then the most recently updated one
+    let best: FirePerimeterFeature | null = null;
+    let bestDistance = Infinity;
+    for (const perimeter of byName.get(normalizeFireName(fire.properties.Name)) ?? []) {
+      const distance = distanceToPerimeter(fire, perimeter);
+      if (distance > NAME_MATCH_MAX_MILES) continue;
+      const isNewer = (perimeter.properties.updated ?? 0) > (best?.properties.updated ?? 0);
+      if (distance < bestDistance || (distance === bestDistance && isNewer)) {
+        best = perimeter;
+        bestDistance = distance;
+      }
+    }
+    if (best) lookup.set(fire, best);
+  });
+
+  return lookup;
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyTrend,
+  compressSeries,
+  computeFireTrendStats,
+  daysSinceStart,
+  growthRateBetween
+} from '@/utils/fireTrends';
+import type { FireTrendPoint } from '@/utils/fireTrends';
+
+const STARTED = '2026-01-15T00:00:00Z';
+const T0 = Date.parse(STARTED);
+const HOUR = 60 * 60 * 1000;
+
+// [hours after T0, acres, contained]
+function series(...points: Array<[number, number, number?]>): FireTrendPoint[] {
+  return points.map(([hours, acres, contained = 0]) => ({ at: T0 + hours * HOUR, acres, contained }));
+}
+
+describe('compressSeries', () => {
+  it('keeps only the ends of a flat run', () => {
+    const points = series([0, 100], [1, 100], [2, 100], [3, 100], [4, 200]);
+    expect(compressSeries(points)).toEqual(series([0, 100], [3, 100], [4, 200]));
+  });
+
+  it('treats a containment change as a change', () => {
+    const points = series([0, 100, 0], [1, 100, 10], [2, 100, 10], [3, 100, 10]);
+    expect(compressSeries(points)).toEqual(series([0, 100, 0], [1, 100, 10], [3, 100, 10]));
+  });
+
+  it.each([
+    ['no points', series()],
+    ['one point', series([0, 100])],
+    ['two equal points', series([0, 100], [1, 100])],
+    ['a series that always changes', series([0, 100], [1, 150], [2, 100])]
+  ])('leaves %s alone', (_label, points) => {
+    expect(compressSeries(points)).toEqual(points);
+  });
+});
+
+describe('growthRateBetween', () => {
+  it.each([
+    ['readings at both ends', series([0, 100], [12, 220]), 10],
+    ['the last reading before each end', series([-5, 50], [3, 80], [12, 110], [20, 900]), 5],
+    ['history starting mid-window', series([6, 100], [12, 160]), 10],
+    ['history starting exactly an hour before the end', series([11, 100], [12, 130]), 30],
+    ['shrinking acreage', series([0, 500], [12, 400]), 0]
+  ])('measures %s', (_label, points, expected) => {
+    expect(growthRateBetween(points, T0, T0 + 12 * HOUR)).toBeCloseTo(expected, 6);
+  });
+
+  it.each([
+    ['under an hour of data', series([11.5, 100], [12, 200])],
+    ['a single reading at the end', series([12, 100])],
+    ['only readings after the window', series([13, 100], [14, 200])],
+    ['no readings', series()]
+  ])('is null with %s', (_label, points) => {
+    expect(growthRateBetween(points, T0, T0 + 12 * HOUR)).toBeNull();
+  });
+});
+
+describe('classifyTrend', () => {
+  it.each([
+    [null, 5, 'unknown'],
+    [5, null, 'unknown'],
+    [0.5, 0.2, 'steady'],
+    [0, 0, 'steady'],
+    [12.5, 10, 'steady'],
+    [13, 10, 'accelerating'],
+    [2, 0, 'accelerating'],
+    [8, 10, 'steady'],
+    [7.9, 10, 'slowing'],
+    [0, 2, 'slowing']
+  ])('%s acres/h after %s is %s', (current, previous, expected) => {
+    expect(classifyTrend(current, previous)).toBe(expected);
+  });
+});
+
+describe('daysSinceStart', () => {
+  it.each([
+    [STARTED, T0 + 36 * HOUR, 1.5],
+    [STARTED, T0, 0],
+    [STARTED, T0 - HOUR, null],
+    ['', T0, null],
+    ['not a date', T0, null]
+  ])('%j at %d is %s', (started, now, expected) => {
+    expect(daysSinceStart(started, now)).toBe(expected);
+  });
+});
+
+describe('computeFireTrendStats', () => {
+  it('compares the last two windows', () => {
+    const stats = computeFireTrendStats(series([0, 0], [12, 60], [24, 240]), STARTED, T0 + 24 * HOUR);
+    expect(stats).toEqual({
+      growthRate: 15,
+      previousGrowthRate: 5,
+      trend: 'accelerating',
+      averageGrowthRate: 10,
+      daysSinceStart: 1
+    });
+  });
+
+  it('measures every rate up to the latest reading when the feed stalls', () => {
+    const stats = computeFireTrendStats(series([12, 120], [24, 240]), STARTED, T0 + 72 * HOUR);
+    expect(stats.growthRate).toBeCloseTo(10, 6);
+    expect(stats.averageGrowthRate).toBeCloseTo(10, 6);
+    // The fire's age is still counted to now
+    expect(stats.daysSinceStart).toBe(3);
+  });
+
+  it('is unknown without history', () => {
+    expect(computeFireTrendStats([], STARTED, T0 + 24 * HOUR)).toEqual({
+      growthRate: null,
+      previousGrowthRate: null,
+      trend: 'unknown',
+      averageGrowthRate: null,
+      daysSinceStart: 1
+    });
+  });
+
+  it.each([
+    ['an unknown start', ''],
+    ['a start after the latest reading', '2026-01-16T00:00:00Z']
+  ])('has no average with %s', (_label, started) => {
+    const stats = computeFireTrendStats(series([0, 100], [12, 200]), started, T0 + 48 * HOUR);
+    expect(stats.averageGrowthRate).toBeNull();
+  });
+});
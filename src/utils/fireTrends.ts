@@ -0,0 +1,117 @@
+import type { FirePoint } from '@/utils/historyStore';
+
+// Acreage and containment over time for one fire, from snapshot history
+
+export interface FireTrendPoint {
+  at: number;
+  acres: number;
+  contained: number;
+}
+
+export type GrowthTrend = 'accelerating' | 'steady' | 'slowing' | 'unknown';
+
+export interface FireTrendStats {
+  // Acres per hour over the most recent window, null without enough history
+  growthRate: number | null;
+  // Acres per hour over the window before that
+  previousGrowthRate: number | null;
+  trend: GrowthTrend;
+  // Acres per hour averaged since the fire started
+  averageGrowthRate: number | null;
+  daysSinceStart: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Growth is compared between two back-to-back windows of this length
+export const GROWTH_WINDOW_HOURS = 12;
+// Ratio between windows that counts as speeding up or slowing down
+const TREND_RATIO = 1.25;
+// Below this a fire is effectively not growing, whatever the ratio says
+const MIN_MEANINGFUL_RATE = 1;
+// Shorter spans give wildly noisy rates
+const MIN_RATE_SPAN_MS = HOUR_MS;
+
+// Points must be oldest first
+export function toFireSeries(points: FirePoint[]): FireTrendPoint[] {
+  return compressSeries(points.map(({ takenAt, fire }) => ({ at: takenAt, acres: fire.acres, contained: fire.contained })));
+}
+
+// Snapshots are taken whenever anything in California changes, so a fire's
+// series has long flat runs. Only the ends of each run are kept.
+export function compressSeries(points: FireTrendPoint[]): FireTrendPoint[] {
+  return points.filter((point, i) => {
+    const previous = points[i - 1];
+    const next = points[i + 1];
+    const sameAsPrevious = previous && previous.acres === point.acres && previous.contained === point.contained;
+    const sameAsNext = next && next.acres === point.acres && next.contained === point.contained;
+    return !(sameAsPrevious && sameAsNext);
+  });
+}
+
+// Last known acreage at or before `time`
+function acresAt(points: FireTrendPoint[], time: number): number | null {
+  let acres: number | null = null;
+  for (const point of points) {
+    if (point.at > time) break;
+    acres = point.acres;
+  }
+  return acres;
+}
+
+// Acres per hour between two times. When history starts inside the window
+// the rate is measured from the first reading instead, as long as that still
+// spans an hour.
+export function growthRateBetween(points: FireTrendPoint[], from: number, to: number): number | null {
+  const before = points.filter((point) => point.at <= from).pop();
+  const start = before ?? points.find((point) => point.at > from && point.at < to);
+  const end = acresAt(points, to);
+  if (!start || end === null) return null;
+
+  const startTime = Math.max(from, start.at);
+  if (to - startTime < MIN_RATE_SPAN_MS) return null;
+  return Math.max(0, end - start.acres) / ((to - startTime) / HOUR_MS);
+}
+
+export function daysSinceStart(started: string, now = Date.now()): number | null {
+  const startTime = Date.parse(started);
+  if (!Number.isFinite(startTime) || startTime > now) return null;
+  return (now - startTime) / DAY_MS;
+}
+
+export function classifyTrend(current: number | null, previous: number | null): GrowthTrend {
+  if (current === null || previous === null) return 'unknown';
+  if (current < MIN_MEANINGFUL_RATE && previous < MIN_MEANINGFUL_RATE) return 'steady';
+  if (current > previous * TREND_RATIO) return 'accelerating';
+  if (current * TREND_RATIO < previous) return 'slowing';
+  return 'steady';
+}
+
+export function computeFireTrendStats(
+  points: FireTrendPoint[],
+  started: string,
+  now = Date.now()
+): FireTrendStats {
+  const windowMs = GROWTH_WINDOW_HOURS * HOUR_MS;
+  const latest = points[points.length - 1];
+  // Measure up to the latest reading, not the wall clock, so a stalled feed
+  // doesn't look like a fire that stopped growing
+  const end = latest ? latest.at : now;
+
+  const growthRate = growthRateBetween(points, end - windowMs, end);
+  const previousGrowthRate = growthRateBetween(points, end - 2 * windowMs, end - windowMs);
+  const days = daysSinceStart(started, now);
+  // The average runs to the same end as the window rates
+  const daysToLatest = daysSinceStart(started, end);
+  const averageGrowthRate = latest && daysToLatest !== null && daysToLatest > 0
+    ? latest.acres / (daysToLatest * 24)
+    : null;
+
+  return {
+    growthRate,
+    previousGrowthRate,
+    trend: classifyTrend(growthRate, previousGrowthRate),
+    averageGrowthRate,
+    daysSinceStart: days
+  };
+}
@@ -0,0 +1,124 @@
+import { GEOCODING_FIXTURES } from '@/utils/geocodingFixtures';
+import type { RateLimitRule } from '@/utils/rateLimit';
+import type { GeocodeResult } from '@/types';
+
+// Turns typed addresses, ZIP codes and "lat, lng" strings into coordinates.
+// Coordinates are parsed locally; everything else goes to a provider.
+
+export interface GeocodingProvider {
+  name: string;
+  // Shared by every client, for providers that cap our overall request rate
+  rateLimit?: RateLimitRule;
+  geocode(query: string, limit: number): Promise<GeocodeResult[]>;
+}
+
+export interface GeocodeFixture extends GeocodeResult {
+  // Lowercase strings the fixture answers to, e.g. "altadena" or "91001"
+  aliases: string[];
+}
+
+const NOMINATIM_TIMEOUT_MS = 5000;
+
+const POSTAL_CODE_PATTERN = /^\d{5}(-\d{4})?$/;
+// "34.05, -118.24", "34.05 -118.24" or "34.05,-118.24"
+const COORDINATE_PATTERN = /^\s*(-?\d{1,2}(?:\.\d+)?)\s*[,\s]\s*(-?\d{1,3}(?:\.\d+)?)\s*$/;
+
+export function formatCoordinates(lat: number, lng: number): string {
+  return `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+}
+
+export function isPostalCode(query: string): boolean {
+  return POSTAL_CODE_PATTERN.test(query.trim());
+}
+
+export function parseCoordinates(query: string): GeocodeResult | null {
+  const match = COORDINATE_PATTERN.exec(query);
+  if (!match) return null;
+
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  return { lat, lng, label: formatCoordinates(lat, lng), kind: 'coordinates' };
+}
+
+function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/[,\s]+/g, ' ').trim();
+}
+
+// Answers from a fixed list, for tests and for running without network access
+export function createFixtureGeocodingProvider(
+  fixtures: GeocodeFixture[] = GEOCODING_FIXTURES
+): GeocodingProvider {
+  return {
+    name: 'fixture',
+    async geocode(query, limit) {
+      const normalized = normalizeQuery(query);
+      if (!normalized) return [];
+      return fixtures
+        .filter((fixture) => fixture.aliases.some((alias) => alias.startsWith(normalized)))
+        .slice(0, limit)
+        .map(({ lat, lng, label, kind }) => ({ lat, lng, label, kind }));
+    }
+  };
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+}
+
+// OpenStreetMap Nominatim, or any server speaking the same /search API
+export function createNominatimProvider(baseUrl: string): GeocodingProvider {
+  return {
+    name: 'nominatim',
+    // Nominatim's usage policy allows one request per second
+    rateLimit: { capacity: 1, refillPerSecond: 1 },
+    async geocode(query, limit) {
+      const params = new URLSearchParams({
+        format: 'jsonv2',
+        countrycodes: 'us',
+        limit: String(limit)
+      });
+      // Structured ZIP lookups avoid matching house numbers and street names
+      if (isPostalCode(query)) {
+        params.set('postalcode', query.trim());
+      } else {
+        params.set('q', query);
+      }
+
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/search?${params}`, {
+        headers: {
+          'Accept': 'application/json',
+          // Nominatim's usage policy requires an identifying user agent
+          'User-Agent': 'california-fire-tracker'
+        },
+        signal: AbortSignal.timeout(NOMINATIM_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Geocoding API error: ${response.status} ${response.statusText}`);
+      }
+
+      const places: NominatimPlace[] = await response.json();
+      const kind = isPostalCode(query) ? 'postal_code' : 'address';
+      return places
+        .map((place) => ({
+          lat: parseFloat(place.lat),
+          lng: parseFloat(place.lon),
+          label: place.display_name,
+          kind
+        } as GeocodeResult))
+        .filter((result) => Number.isFinite(result.lat) && Number.isFinite(result.lng));
+    }
+  };
+}
+
+// GEOCODING_PROVIDER=fixture swaps in the local fixtures
+export function getGeocodingProvider(): GeocodingProvider {
+  if (process.env.GEOCODING_PROVIDER === 'fixture') {
+    return createFixtureGeocodingProvider();
+  }
+  return createNominatimProvider(process.env.GEOCODING_API_URL || 'https://nominatim.openstreetmap.org');
+}
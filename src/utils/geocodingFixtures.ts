@@ -0,0 +1,104 @@
+import type { GeocodeFixture } from '@/utils/geocoding';
+
+// A handful of California places near recent large fires, used by the
+// fixture geocoding provider
+export const GEOCODING_FIXTURES: GeocodeFixture[] = [
+  {
+    lat: 34.1897,
+    lng: -118.1312,
+    label: 'Altadena, Los Angeles County, California',
+    kind: 'address',
+    aliases: ['altadena', 'altadena ca', 'altadena california']
+  },
+  {
+    lat: 34.1897,
+    lng: -118.1312,
+    label: '91001, Altadena, California',
+    kind: 'postal_code',
+    aliases: ['91001']
+  },
+  {
+    lat: 34.1478,
+    lng: -118.1445,
+    label: 'Pasadena, Los Angeles County, California',
+    kind: 'address',
+    aliases: ['pasadena', 'pasadena ca', 'pasadena california']
+  },
+  {
+    lat: 34.0522,
+    lng: -118.2437,
+    label: 'Los Angeles, Los Angeles County, California',
+    kind: 'address',
+    aliases: ['los angeles', 'los angeles ca']
+  },
+  {
+    lat: 34.0259,
+    lng: -118.7798,
+    label: 'Malibu, Los Angeles County, California',
+    kind: 'address',
+    aliases: ['malibu', 'malibu ca']
+  },
+  {
+    lat: 34.0259,
+    lng: -118.7798,
+    label: '90265, Malibu, California',
+    kind: 'postal_code',
+    aliases: ['90265']
+  },
+  {
+    lat: 34.0480,
+    lng: -118.5265,
+    label: 'Pacific Palisades, Los Angeles, California',
+    kind: 'address',
+    aliases: ['pacific palisades', 'palisades', '90272']
+  },
+  {
+    lat: 38.4404,
+    lng: -122.7141,
+    label: 'Santa Rosa, Sonoma County, California',
+    kind: 'address',
+    aliases: ['santa rosa', 'santa rosa ca', '95403']
+  },
+  {
+    lat: 39.7596,
+    lng: -121.6219,
+    label: 'Paradise, Butte County, California',
+    kind: 'address',
+    aliases: ['paradise', 'paradise ca', '95969']
+  },
+  {
+    lat: 40.5865,
+    lng: -122.3917,
+    label: 'Redding, Shasta County, California',
+    kind: 'address',
+    aliases: ['redding', 'redding ca', '96001']
+  },
+  {
+    lat: 38.5816,
+    lng: -121.4944,
+    label: 'Sacramento, Sacramento County, California',
+    kind: 'address',
+    aliases: ['sacramento', 'sacramento ca', '95814']
+  },
+  {
+    lat: 37.7749,
+    lng: -122.4194,
+    label: 'San Francisco, California',
+    kind: 'address',
+    aliases: ['san francisco', 'san francisco ca', 'sf', '94103']
+  },
+  {
+    lat: 32.7157,
+    lng: -117.1611,
+    label: 'San Diego, San Diego County, California',
+    kind: 'address',
+    aliases: ['san diego', 'san diego ca', '92101']
+  },
+  {
+    lat: 36.7378,
+    lng: -119.7871,
+    label: 'Fresno, Fresno County, California',
+    kind: 'address',
+    aliases: ['fresno', 'fresno ca', '93721']
+  }
+];
@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getRawFeatures,
+  normalizeEvacuationFeatures,
+  normalizeFireFeatures,
+  normalizeFirePerimeterFeatures,
+  normalizePolygonalGeometry,
+  validateEvacuationFeature,
+  validateFireFeature,
+  validateFirePerimeterFeature
+} from '@/utils/geojson';
+
+const SQUARE = [[-118, 34], [-117, 34], [-117, 35], [-118, 35], [-118, 34]];
+const HOLE = [[-117.6, 34.4], [-117.4, 34.4], [-117.4, 34.6], [-117.6, 34.6], [-117.6, 34.4]];
+const OTHER_SQUARE = [[-116, 34], [-115, 34], [-115, 35], [-116, 35], [-116, 34]];
+
+describe('normalizePolygonalGeometry', () => {
+  it('keeps a valid Polygon as is', () => {
+    expect(normalizePolygonalGeometry({ type: 'Polygon', coordinates: [SQUARE, HOLE] }))
+      .toEqual({ type: 'Polygon', coordinates: [SQUARE, HOLE] });
+  });
+
+  it('closes an unclosed ring', () => {
+    expect(normalizePolygonalGeometry({ type: 'Polygon', coordinates: [SQUARE.slice(0, 4)] }))
+      .toEqual({ type: 'Polygon', coordinates: [SQUARE] });
+  });
+
+  it('drops altitude and turns numeric strings into numbers', () => {
+    const ring = SQUARE.map(([lon, lat]) => [String(lon), String(lat), 120]);
+    expect(normalizePolygonalGeometry({ type: 'Polygon', coordinates: [ring] }))
+      .toEqual({ type: 'Polygon', coordinates: [SQUARE] });
+  });
+
+  it.each([
+    ['too few positions', [[[-118, 34], [-117, 34], [-118, 34]]]],
+    ['an empty ring', [[]]],
+    ['no rings', []],
+    ['a NaN coordinate', [[[-118, 34], [NaN, 34], [-117, 35], [-118, 34]]]],
+    ['a non-numeric coordinate', [[[-118, 34], ['east', 34], [-117, 35], [-118, 34]]]],
+    ['a latitude out of range', [[[-118, 34], [-117, 95], [-117, 35], [-118, 34]]]],
+    ['a longitude out of range', [[[-118, 34], [-190, 34], [-117, 35], [-118, 34]]]],
+    ['a position missing its latitude', [[[-118, 34], [-117], [-117, 35], [-118, 34]]]],
+    ['coordinates that are not arrays', 'not an array']
+  ])('rejects a Polygon with %s', (_label, coordinates) => {
+    expect(normalizePolygonalGeometry({ type: 'Polygon', coordinates })).toBeNull();
+  });
+
+  it('drops a broken hole but keeps the outer ring', () => {
+    expect(normalizePolygonalGeometry({ type: 'Polygon', coordinates: [SQUARE, [[-117.5, 34.5], [NaN, 34.5]]] }))
+      .toEqual({ type: 'Polygon', coordinates: [SQUARE] });
+  });
+
+  it('keeps a MultiPolygon with several parts', () => {
+    expect(normalizePolygonalGeometry({ type: 'MultiPolygon', coordinates: [[SQUARE, HOLE], [OTHER_SQUARE]] }))
+      .toEqual({ type: 'MultiPolygon', coordinates: [[SQUARE, HOLE], [OTHER_SQUARE]] });
+  });
+
+  it('collapses a MultiPolygon with one usable part to a Polygon', () => {
+    expect(normalizePolygonalGeometry({ type: 'MultiPolygon', coordinates: [[SQUARE], [[[0, 0]]]] }))
+      .toEqual({ type: 'Polygon', coordinates: [SQUARE] });
+  });
+
+  it.each([
+    ['a MultiPolygon without usable parts', { type: 'MultiPolygon', coordinates: [[[[0, 0]]]] }],
+    ['a MultiPolygon without coordinates', { type: 'MultiPolygon' }],
+    ['a Point', { type: 'Point', coordinates: [-118, 34] }],
+    ['a LineString', { type: 'LineString', coordinates: SQUARE }],
+    ['null', null],
+    ['a string', 'Polygon']
+  ])('rejects %s', (_label, geometry) => {
+    expect(normalizePolygonalGeometry(geometry)).toBeNull();
+  });
+});
+
+describe('getRawFeatures', () => {
+  it('returns the features of a FeatureCollection', () => {
+    expect(getRawFeatures({ type: 'FeatureCollection', features: [1, 2] })).toEqual([1, 2]);
+  });
+
+  it.each([null, [], {}, { features: 'none' }])('is null for %j', (raw) => {
+    expect(getRawFeatures(raw)).toBeNull();
+  });
+});
+
+function zone(properties: Record<string, unknown> | null, geometry: unknown = { type: 'Polygon', coordinates: [SQUARE] }) {
+  return { type: 'Feature', geometry, properties };
+}
+
+describe('validateEvacuationFeature', () => {
+  it('normalizes status and hazard', () => {
+    const result = validateEvacuationFeature(zone({
+      zone_id: 'LAC-1',
+      zone_status: 'Evacuation Order',
+      zone_status_reason: 'Wildfire',
+      last_updated: '1700000000000',
+      county_name: 'Los Angeles'
+    }));
+    expect(result).toEqual({
+      feature: {
+        type: 'Feature',
+        geometry: { type: 'Polygon', coordinates: [SQUARE] },
+        properties: {
+          zone_id: 'LAC-1',
+          zone_status: 'Evacuation Order',
+          zone_status_reason: 'Wildfire',
+          last_updated: 1700000000000,
+          county_name: 'Los Angeles',
+          status: 'order',
+          hazard: 'fire'
+        }
+      }
+    });
+  });
+
+  it('defaults missing optional fields', () => {
+    const result = validateEvacuationFeature(zone({ zone_id: 'LAC-2', last_updated: 'soon', county_name: 7 }));
+    expect('feature' in result && result.feature.properties).toMatchObject({
+      zone_status: '',
+      zone_status_reason: null,
+      last_updated: 0,
+      county_name: '',
+      status: 'normal',
+      hazard: 'unknown'
+    });
+  });
+
+  it.each([
+    ['not_an_object', null],
+    ['not_an_object', 'feature'],
+    ['missing_properties', zone(null)],
+    ['missing_id', zone({ zone_id: '' })],
+    ['missing_id', zone({ zone_id: 12 })],
+    ['invalid_geometry', zone({ zone_id: 'LAC-3' }, { type: 'Point', coordinates: [-118, 34] })],
+    ['invalid_geometry', zone({ zone_id: 'LAC-4' }, null)]
+  ])('reports %s', (issue, raw) => {
+    expect(validateEvacuationFeature(raw)).toEqual({ issue });
+  });
+});
+
+describe('validateFirePerimeterFeature', () => {
+  it('reads the NIFC attribute names', () => {
+    const result = validateFirePerimeterFeature(zone({
+      poly_IncidentName: ' Eaton ',
+      attr_IrwinID: '{ABC}',
+      poly_GISAcres: '14021.5',
+      poly_DateCurrent: 1700000000000
+    }, { type: 'MultiPolygon', coordinates: [[SQUARE], [OTHER_SQUARE]] }));
+    expect(result).toEqual({
+      feature: {
+        type: 'Feature',
+        geometry: { type: 'MultiPolygon', coordinates: [[SQUARE], [OTHER_SQUARE]] },
+        properties: { incident_name: 'Eaton', incident_id: '{ABC}', acres: 14021.5, updated: 1700000000000 }
+      }
+    });
+  });
+
+  it('falls back to the CAL FIRE names and leaves unknowns null', () => {
+    const result = validateFirePerimeterFeature(zone({ FIRE_NAME: 'PALISADES', GIS_ACRES: '', acres: 'n/a' }));
+    expect('feature' in result && result.feature.properties)
+      .toEqual({ incident_name: 'PALISADES', incident_id: null, acres: null, updated: null });
+  });
+
+  it.each([
+    ['missing_name', zone({ IncidentName: '  ' })],
+    ['missing_properties', zone(null)],
+    ['invalid_geometry', zone({ IncidentName: 'Eaton' }, { type: 'Polygon', coordinates: [[[-118, 34], [-117, 34]]] })]
+  ])('reports %s', (issue, raw) => {
+    expect(validateFirePerimeterFeature(raw)).toEqual({ issue });
+  });
+});
+
+function fire(properties: Record<string, unknown>, coordinates: unknown = [-118.13, 34.19]) {
+  return { type: 'Feature', geometry: { type: 'Point', coordinates }, properties: { Name: 'Eaton Fire', ...properties } };
+}
+
+describe('validateFireFeature', () => {
+  it('takes the location from the point geometry', () => {
+    const result = validateFireFeature(fire({ Latitude: 1, Longitude: 1 }));
+    expect('feature' in result && result.feature.properties).toMatchObject({ Latitude: 34.19, Longitude: -118.13 });
+  });
+
+  it('falls back to the Latitude and Longitude attributes', () => {
+    const result = validateFireFeature(fire({ Latitude: '34.2', Longitude: '-118.1' }, null));
+    expect('feature' in result && result.feature.geometry).toEqual({ type: 'Point', coordinates: [-118.1, 34.2] });
+  });
+
+  it('defaults unknown acreage and clamps containment', () => {
+    const result = validateFireFeature(fire({ AcresBurned: null, PercentContained: 140, UniqueId: 'abc' }));
+    expect('feature' in result && result.feature.properties).toMatchObject({
+      AcresBurned: 0,
+      PercentContained: 100,
+      County: '',
+      Started: '',
+      UniqueId: 'abc'
+    });
+  });
+
+  it('leaves UniqueId off when there is none', () => {
+    const result = validateFireFeature(fire({}));
+    expect('feature' in result && 'UniqueId' in result.feature.properties).toBe(false);
+  });
+
+  it.each([
+    ['a (0, 0) location', [0, 0]],
+    ['a NaN location', [NaN, NaN]],
+    ['a latitude out of range', [-118, 91]],
+    ['no location at all', null]
+  ])('rejects %s', (_label, coordinates) => {
+    expect(validateFireFeature(fire({}, coordinates))).toEqual({ issue: 'invalid_coordinates' });
+  });
+
+  it('rejects a fire without a name', () => {
+    expect(validateFireFeature(fire({ Name: '' }))).toEqual({ issue: 'missing_name' });
+  });
+});
+
+describe('normalizing a FeatureCollection', () => {
+  it('counts rejected features by issue', () => {
+    const result = normalizeEvacuationFeatures({
+      features: [zone({ zone_id: 'A' }), zone({ zone_id: 'B' }), zone({}), zone({}), zone({ zone_id: 'C' }, null), 5]
+    });
+    expect(result.features.map(({ properties }) => properties.zone_id)).toEqual(['A', 'B']);
+    expect(result.rejected).toBe(4);
+    expect(result.issues).toEqual({ missing_id: 2, invalid_geometry: 1, not_an_object: 1 });
+  });
+
+  it('treats a payload that is not a FeatureCollection as empty', () => {
+    expect(normalizeFireFeatures({ error: 'down' })).toEqual({ features: [], rejected: 0, issues: {} });
+    expect(normalizeFirePerimeterFeatures(null)).toEqual({ features: [], rejected: 0, issues: {} });
+  });
+});
@@ -0,0 +1,252 @@
+import { normalizeEvacuationHazard, normalizeEvacuationStatus } from '@/utils/evacuationStatus';
+import type { EvacuationFeature, FireFeature, FirePerimeterFeature, LinearRing, PolygonRings, Position, PolygonalGeometry } from '@/types';
+
+// Parses a single [lon, lat, ...] position, dropping altitude and anything
+// that isn't a finite coordinate within WGS84 bounds
+function normalizePosition(raw: unknown): Position | null {
+  if (!Array.isArray(raw) || raw.length < 2) return null;
+  const lon = Number(raw[0]);
+  const lat = Number(raw[1]);
+  if (!Number.isFinite(lon) || !Number.isFinite(lat)) return null;
+  if (lon < -180 || lon > 180 || lat < -90 || lat > 90) return null;
+  return [lon, lat];
+}
+
+// A valid ring needs at least 4 positions with the first repeated at the end.
+// Open rings are closed rather than rejected since some publishers omit it.
+function normalizeRing(raw: unknown): LinearRing | null {
+  if (!Array.isArray(raw)) return null;
+  const ring = raw.map(normalizePosition);
+  if (ring.some((position) => position === null)) return null;
+
+  const positions = ring as Position[];
+  if (positions.length === 0) return null;
+  const [firstLon, firstLat] = positions[0];
+  const [lastLon, lastLat] = positions[positions.length - 1];
+  if (firstLon !== lastLon || firstLat !== lastLat) {
+    positions.push([firstLon, firstLat]);
+  }
+  return positions.length >= 4 ? positions : null;
+}
+
+// The outer ring is required. Broken holes are dropped instead of discarding
+// the whole polygon, since the outer boundary is what matters most for safety.
+function normalizePolygon(raw: unknown): PolygonRings | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const outer = normalizeRing(raw[0]);
+  if (!outer) return null;
+
+  const holes = raw
+    .slice(1)
+    .map(normalizeRing)
+    .filter((ring): ring is LinearRing => ring !== null);
+  return [outer, ...holes];
+}
+
+export function normalizePolygonalGeometry(raw: unknown): PolygonalGeometry | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { type, coordinates } = raw as { type?: unknown; coordinates?: unknown };
+
+  if (type === 'Polygon') {
+    const polygon = normalizePolygon(coordinates);
+    return polygon ? { type: 'Polygon', coordinates: polygon } : null;
+  }
+
+  if (type === 'MultiPolygon') {
+    if (!Array.isArray(coordinates)) return null;
+    const polygons = coordinates
+      .map(normalizePolygon)
+      .filter((polygon): polygon is PolygonRings => polygon !== null);
+    if (polygons.length === 0) return null;
+    // Collapse single-part MultiPolygons so consumers see the simpler shape
+    return polygons.length === 1
+      ? { type: 'Polygon', coordinates: polygons[0] }
+      : { type: 'MultiPolygon', coordinates: polygons };
+  }
+
+  return null;
+}
+
+// Why a feature was quarantined. Counts of these tell "upstream renamed a
+// field" (one issue on every feature) apart from a few bad records.
+export type FeatureIssue =
+  | 'not_an_object'
+  | 'missing_properties'
+  | 'missing_id'
+  | 'missing_name'
+  | 'invalid_geometry'
+  | 'invalid_coordinates';
+
+export type FeatureIssueCounts = Partial<Record<FeatureIssue, number>>;
+
+// A cleaned-up feature, or the reason it can't be used at all
+export type ValidatedFeature<T> = { feature: T } | { issue: FeatureIssue };
+
+export interface NormalizedFeatures<T> {
+  features: T[];
+  rejected: number;
+  issues: FeatureIssueCounts;
+}
+
+interface RawFeature {
+  type?: unknown;
+  geometry?: unknown;
+  properties?: Record<string, unknown> | null;
+}
+
+// The features array of a FeatureCollection, or null when the payload isn't
+// one, which means the whole response changed shape rather than a few records
+export function getRawFeatures(raw: unknown): unknown[] | null {
+  return raw && typeof raw === 'object' && Array.isArray((raw as { features?: unknown }).features)
+    ? (raw as { features: unknown[] }).features
+    : null;
+}
+
+function normalizeFeatures<T>(
+  raw: unknown,
+  validate: (rawFeature: unknown) => ValidatedFeature<T>
+): NormalizedFeatures<T> {
+  const rawFeatures = getRawFeatures(raw) ?? [];
+  const features: T[] = [];
+  const issues: FeatureIssueCounts = {};
+
+  rawFeatures.forEach((rawFeature) => {
+    const result = validate(rawFeature);
+    if ('feature' in result) {
+      features.push(result.feature);
+    } else {
+      issues[result.issue] = (issues[result.issue] ?? 0) + 1;
+    }
+  });
+
+  return { features, rejected: rawFeatures.length - features.length, issues };
+}
+
+export function validateEvacuationFeature(raw: unknown): ValidatedFeature<EvacuationFeature> {
+  if (!raw || typeof raw !== 'object') return { issue: 'not_an_object' };
+  const { type, geometry, properties } = raw as RawFeature;
+
+  if (!properties || typeof properties !== 'object') return { issue: 'missing_properties' };
+  if (typeof properties.zone_id !== 'string' || !properties.zone_id) return { issue: 'missing_id' };
+
+  const normalizedGeometry = normalizePolygonalGeometry(geometry);
+  if (!normalizedGeometry) return { issue: 'invalid_geometry' };
+
+  const zoneStatus = typeof properties.zone_status === 'string' ? properties.zone_status : '';
+  const zoneStatusReason =
+    typeof properties.zone_status_reason === 'string' ? properties.zone_status_reason : null;
+
+  return {
+    feature: {
+      type: typeof type === 'string' ? type : 'Feature',
+      geometry: normalizedGeometry,
+      properties: {
+        zone_id: properties.zone_id,
+        zone_status: zoneStatus,
+        zone_status_reason: zoneStatusReason,
+        last_updated: Number(properties.last_updated) || 0,
+        county_name: typeof properties.county_name === 'string' ? properties.county_name : '',
+        status: normalizeEvacuationStatus(zoneStatus),
+        hazard: normalizeEvacuationHazard(zoneStatusReason),
+      },
+    },
+  };
+}
+
+export function normalizeEvacuationFeatures(raw: unknown): NormalizedFeatures<EvacuationFeature> {
+  return normalizeFeatures(raw, validateEvacuationFeature);
+}
+
+function firstString(properties: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = properties[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+function firstNumber(properties: Record<string, unknown>, keys: string[]): number | null {
+  for (const key of keys) {
+    const value = properties[key];
+    if (value !== null && value !== undefined && value !== '' && Number.isFinite(Number(value))) {
+      return Number(value);
+    }
+  }
+  return null;
+}
+
+// Perimeter publishers (NIFC/WFIGS, CAL FIRE) use different attribute names,
+// so each field is read from the first key that is present
+export function validateFirePerimeterFeature(raw: unknown): ValidatedFeature<FirePerimeterFeature> {
+  if (!raw || typeof raw !== 'object') return { issue: 'not_an_object' };
+  const { type, geometry, properties } = raw as RawFeature;
+
+  if (!properties || typeof properties !== 'object') return { issue: 'missing_properties' };
+  const incidentName = firstString(properties, ['poly_IncidentName', 'IncidentName', 'incident_name', 'FIRE_NAME', 'Name']);
+  if (!incidentName) return { issue: 'missing_name' };
+
+  const normalizedGeometry = normalizePolygonalGeometry(geometry);
+  if (!normalizedGeometry) return { issue: 'invalid_geometry' };
+
+  return {
+    feature: {
+      type: typeof type === 'string' ? type : 'Feature',
+      geometry: normalizedGeometry,
+      properties: {
+        incident_name: incidentName,
+        incident_id: firstString(properties, ['attr_IrwinID', 'IrwinID', 'poly_IRWINID', 'UniqueId', 'incident_id']),
+        acres: firstNumber(properties, ['poly_GISAcres', 'GISAcres', 'GIS_ACRES', 'acres']),
+        updated: firstNumber(properties, ['poly_DateCurrent', 'DateCurrent', 'updated'])
+      },
+    },
+  };
+}
+
+export function normalizeFirePerimeterFeatures(raw: unknown): NormalizedFeatures<FirePerimeterFeature> {
+  return normalizeFeatures(raw, validateFirePerimeterFeature);
+}
+
+// Name and location are required. Brand-new incidents are often published
+// before acreage or containment is known, so those default to 0 rather than
+// dropping the fire, which would hide exactly the incidents people look for.
+export function validateFireFeature(raw: unknown): ValidatedFeature<FireFeature> {
+  if (!raw || typeof raw !== 'object') return { issue: 'not_an_object' };
+  const { type, geometry, properties } = raw as RawFeature;
+
+  if (!properties || typeof properties !== 'object') return { issue: 'missing_properties' };
+  const name = firstString(properties, ['Name']);
+  if (!name) return { issue: 'missing_name' };
+
+  // The point geometry wins, with the Latitude/Longitude attributes as backup
+  const point = normalizePosition((geometry as { coordinates?: unknown } | null)?.coordinates)
+    ?? normalizePosition([properties.Longitude, properties.Latitude]);
+  const [longitude, latitude] = point ?? [0, 0];
+  // (0, 0) is a missing location filled in by the publisher, not a real fire
+  if (!point || (longitude === 0 && latitude === 0)) return { issue: 'invalid_coordinates' };
+
+  const uniqueId = firstString(properties, ['UniqueId']);
+  return {
+    feature: {
+      type: typeof type === 'string' ? type : 'Feature',
+      geometry: { type: 'Point', coordinates: [longitude, latitude] },
+      properties: {
+        Name: name,
+        IsActive: properties.IsActive === true,
+        Final: properties.Final === true,
+        Location: firstString(properties, ['Location']) ?? '',
+        AcresBurned: Math.max(0, firstNumber(properties, ['AcresBurned']) ?? 0),
+        PercentContained: Math.min(100, Math.max(0, firstNumber(properties, ['PercentContained']) ?? 0)),
+        Started: firstString(properties, ['Started']) ?? '',
+        Updated: firstString(properties, ['Updated']) ?? '',
+        County: firstString(properties, ['County']) ?? '',
+        Latitude: latitude,
+        Longitude: longitude,
+        ...(uniqueId ? { UniqueId: uniqueId } : {})
+      },
+    },
+  };
+}
+
+export function normalizeFireFeatures(raw: unknown): NormalizedFeatures<FireFeature> {
+  return normalizeFeatures(raw, validateFireFeature);
+}
@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bboxGapMiles,
+  closestPointOnSegment,
+  countZonePoints,
+  distanceBetweenPolygons,
+  distanceToRing,
+  getGeometryBBox,
+  isPointInPolygon,
+  isPointInRing,
+  measurePolygons,
+  measureZone,
+  segmentsIntersect
+} from '@/utils/geometry';
+import { squareRing, zoneFeature } from '@/test/features';
+import type { LinearRing, PolygonRings } from '@/types';
+
+// Haversine miles for 0.1 degrees, with the 3958.8 mile earth radius
+const TENTH_DEGREE_LAT = 6.9093;
+// The same along the 34th parallel: 6.9093 * cos(34°)
+const TENTH_DEGREE_LON_AT_34 = 5.7281;
+
+const SQUARE = squareRing(34, -118, 0.1);
+const DONUT: PolygonRings = [squareRing(34, -118, 0.2), squareRing(34, -118, 0.1)];
+
+describe('isPointInRing', () => {
+  it.each([
+    ['the centre', 34, -118, true],
+    ['just inside a corner', 34.099, -118.099, true],
+    ['north of it', 34.2, -118, false],
+    ['east of it', 34, -117.8, false],
+    ['level with an edge but outside', 34.1001, -118, false]
+  ])('square: %s is %s', (_, lat, lng, expected) => {
+    expect(isPointInRing(lat, lng, SQUARE)).toBe(expected);
+  });
+
+  it('leaves the notch of a concave ring outside', () => {
+    // An L: a 2x2 square missing its top-right quarter
+    const ell: LinearRing = [[0, 0], [2, 0], [2, 1], [1, 1], [1, 2], [0, 2], [0, 0]];
+    expect(isPointInRing(0.5, 0.5, ell)).toBe(true);
+    expect(isPointInRing(1.5, 0.5, ell)).toBe(true);
+    expect(isPointInRing(1.5, 1.5, ell)).toBe(false);
+  });
+
+  it('works without the closing vertex', () => {
+    expect(isPointInRing(34, -118, SQUARE.slice(0, 4))).toBe(true);
+  });
+
+  it('never puts a point inside a degenerate ring', () => {
+    expect(isPointInRing(0, 0, [])).toBe(false);
+    expect(isPointInRing(0, 0, [[0, 0]])).toBe(false);
+    expect(isPointInRing(0, 0, [[-1, 0], [1, 0], [-1, 0]])).toBe(false);
+  });
+});
+
+describe('isPointInPolygon', () => {
+  it.each([
+    ['in the ring of a donut', 34.15, -118, true],
+    ['in the hole of a donut', 34, -118, false],
+    ['outside a donut', 34.3, -118, false]
+  ])('%s: %s', (_, lat, lng, expected) => {
+    expect(isPointInPolygon(lat, lng, DONUT)).toBe(expected);
+  });
+
+  it('is false for a polygon without rings', () => {
+    expect(isPointInPolygon(34, -118, [])).toBe(false);
+  });
+});
+
+describe('closestPointOnSegment', () => {
+  it('projects onto the segment', () => {
+    expect(closestPointOnSegment(34.05, -118, [-118.1, 34], [-117.9, 34])).toEqual([-118, 34]);
+  });
+
+  it('clamps to the nearer end', () => {
+    expect(closestPointOnSegment(34, -117.5, [-118.1, 34], [-117.9, 34])).toEqual([-117.9, 34]);
+  });
+
+  it('returns the point of a zero-length segment', () => {
+    expect(closestPointOnSegment(34, -117, [-118, 34], [-118, 34])).toEqual([-118, 34]);
+  });
+});
+
+describe('distanceToRing', () => {
+  it('measures to the nearest edge', () => {
+    const { distance, closestPoint } = distanceToRing(34.2, -118, SQUARE);
+    expect(distance).toBeCloseTo(TENTH_DEGREE_LAT, 2);
+    expect(closestPoint).toEqual([-118, 34.1]);
+  });
+
+  it('measures the closing edge of an unclosed ring', () => {
+    // Without its last vertex the west edge only exists as the closing edge
+    const { distance, closestPoint } = distanceToRing(34, -118.2, SQUARE.slice(0, 4));
+    expect(distance).toBeCloseTo(TENTH_DEGREE_LON_AT_34, 2);
+    expect(closestPoint).toEqual([-118.1, 34]);
+  });
+
+  it('measures to a single point ring', () => {
+    expect(distanceToRing(34.1, -118, [[-118, 34]]).distance).toBeCloseTo(TENTH_DEGREE_LAT, 2);
+  });
+
+  it('has no distance to an empty ring', () => {
+    expect(distanceToRing(34, -118, [])).toEqual({ distance: Infinity, closestPoint: null });
+  });
+});
+
+describe('measurePolygons', () => {
+  it('reports points inside as distance 0 at the point itself', () => {
+    expect(measurePolygons(34.05, -118.05, [[SQUARE]])).toEqual({
+      inside: true,
+      distance: 0,
+      closestPoint: [-118.05, 34.05]
+    });
+  });
+
+  it('measures from a hole to its edge', () => {
+    // The hole's east and west edges are nearer than its north and south ones
+    const result = measurePolygons(34, -118, [DONUT]);
+    expect(result.inside).toBe(false);
+    expect(result.distance).toBeCloseTo(TENTH_DEGREE_LON_AT_34, 2);
+  });
+
+  it('measures a point outside a donut to the outer ring', () => {
+    expect(measurePolygons(34.3, -118, [DONUT]).distance).toBeCloseTo(TENTH_DEGREE_LAT, 2);
+  });
+
+  it('treats a MultiPolygon as inside when any part contains the point', () => {
+    const parts = [[squareRing(34, -118, 0.1)], [squareRing(34, -117, 0.1)]];
+    expect(measurePolygons(34, -117, parts).inside).toBe(true);
+    // Midway between the parts, 0.4 degrees of longitude from each
+    expect(measurePolygons(34, -117.5, parts).distance).toBeCloseTo(4 * TENTH_DEGREE_LON_AT_34, 1);
+  });
+
+  it('has no distance without polygons', () => {
+    expect(measurePolygons(34, -118, [])).toEqual({ inside: false, distance: Infinity, closestPoint: null });
+  });
+});
+
+describe('zone helpers', () => {
+  const zone = zoneFeature('z1', 'order', DONUT);
+
+  it('measures zones like their polygons', () => {
+    expect(measureZone(34, -118, zone).distance).toBeCloseTo(TENTH_DEGREE_LON_AT_34, 2);
+  });
+
+  it('bounds a polygon by its outer ring', () => {
+    expect(getGeometryBBox(zone.geometry)).toEqual({ minLon: -118.2, minLat: 33.8, maxLon: -117.8, maxLat: 34.2 });
+  });
+
+  it('counts every vertex, holes included', () => {
+    expect(countZonePoints(zone)).toBe(10);
+  });
+});
+
+describe('segmentsIntersect', () => {
+  it.each([
+    ['crossing', [0, 0], [2, 2], [0, 2], [2, 0], true],
+    ['touching at an end', [0, 0], [1, 1], [1, 1], [2, 0], true],
+    ['overlapping on a line', [0, 0], [2, 0], [1, 0], [3, 0], true],
+    ['parallel', [0, 0], [2, 0], [0, 1], [2, 1], false],
+    ['collinear but apart', [0, 0], [1, 0], [2, 0], [3, 0], false],
+    ['short of each other', [0, 0], [1, 1], [0, 3], [3, 0], false]
+  ] as const)('%s: %s', (_, a, b, c, d, expected) => {
+    expect(segmentsIntersect([...a], [...b], [...c], [...d])).toBe(expected);
+  });
+});
+
+describe('distanceBetweenPolygons', () => {
+  it('is 0 for shapes that overlap', () => {
+    expect(distanceBetweenPolygons([[SQUARE]], [[squareRing(34.15, -118, 0.1)]])).toBe(0);
+  });
+
+  it('is 0 for crossing shapes with no vertex inside the other', () => {
+    const wide = [[[[-118.3, 33.95], [-117.7, 33.95], [-117.7, 34.05], [-118.3, 34.05], [-118.3, 33.95]]]] as PolygonRings[];
+    const tall = [[[[-118.05, 33.7], [-117.95, 33.7], [-117.95, 34.3], [-118.05, 34.3], [-118.05, 33.7]]]] as PolygonRings[];
+    expect(distanceBetweenPolygons(wide, tall)).toBe(0);
+  });
+
+  it('is 0 when one shape holds the other', () => {
+    expect(distanceBetweenPolygons([[squareRing(34, -118, 1)]], [[SQUARE]])).toBe(0);
+  });
+
+  it('measures the gap between separate shapes', () => {
+    // 0.1 degrees of latitude between facing edges
+    expect(distanceBetweenPolygons([[SQUARE]], [[squareRing(34.3, -118, 0.1)]])).toBeCloseTo(TENTH_DEGREE_LAT, 2);
+  });
+
+  it('measures a shape sitting in a hole to the hole edge', () => {
+    const small = [[squareRing(34, -118, 0.05)]];
+    // 0.05 degrees of longitude to the hole's east and west edges
+    expect(distanceBetweenPolygons([DONUT], small)).toBeCloseTo(TENTH_DEGREE_LON_AT_34 / 2, 2);
+  });
+
+  it('has no distance when either side is empty', () => {
+    expect(distanceBetweenPolygons([], [[SQUARE]])).toBe(Infinity);
+  });
+});
+
+describe('bboxGapMiles', () => {
+  it('is 0 for overlapping boxes', () => {
+    const box = getGeometryBBox({ type: 'Polygon', coordinates: [SQUARE] });
+    expect(bboxGapMiles(box, box)).toBe(0);
+  });
+
+  it('never exceeds the true distance', () => {
+    const a = { minLon: -118.1, minLat: 33.9, maxLon: -117.9, maxLat: 34.1 };
+    const b = { minLon: -117.5, minLat: 34.5, maxLon: -117.3, maxLat: 34.7 };
+    const gap = bboxGapMiles(a, b);
+    expect(gap).toBeGreaterThan(0);
+    expect(gap).toBeLessThanOrEqual(distanceBetweenPolygons(
+      [[squareRing(34, -118, 0.1)]],
+      [[squareRing(34.6, -117.4, 0.1)]]
+    ));
+  });
+});
@@ -0,0 +1,233 @@
+import { calculateDistance } from '@/utils/distance';
+import { bboxesIntersect, positionsBBox } from '@/utils/spatialIndex';
+import type { BBox } from '@/utils/spatialIndex';
+import type { EvacuationFeature, LinearRing, PolygonRings, Position, PolygonalGeometry } from '@/types';
+
+export interface PolygonMeasurement {
+  inside: boolean;
+  // Miles to the nearest edge, 0 when the point is inside
+  distance: number;
+  // Nearest point on the boundary (or the point itself when inside)
+  closestPoint: Position | null;
+}
+
+const MILES_PER_DEGREE_LAT = 69.0;
+
+function toRad(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+// Ray casting test against a single ring. Points exactly on an edge may land
+// on either side, which is fine since their edge distance is ~0 anyway.
+export function isPointInRing(lat: number, lon: number, ring: LinearRing): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const intersects =
+      (yi > lat) !== (yj > lat) &&
+      lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+    if (intersects) inside = !inside;
+  }
+  return inside;
+}
+
+export function isPointInPolygon(lat: number, lon: number, polygon: PolygonRings): boolean {
+  if (polygon.length === 0 || !isPointInRing(lat, lon, polygon[0])) {
+    return false;
+  }
+  // Inside the outer ring but inside a hole means outside the polygon
+  return !polygon.slice(1).some((hole) => isPointInRing(lat, lon, hole));
+}
+
+// Closest point on segment a-b to the given point. The math is done on a local
+// equirectangular projection centered on the point, which is accurate at the
+// scale of evacuation zones, and the final distance uses haversine.
+export function closestPointOnSegment(
+  lat: number,
+  lon: number,
+  a: Position,
+  b: Position
+): Position {
+  const milesPerDegreeLon = MILES_PER_DEGREE_LAT * Math.cos(toRad(lat));
+  const ax = (a[0] - lon) * milesPerDegreeLon;
+  const ay = (a[1] - lat) * MILES_PER_DEGREE_LAT;
+  const bx = (b[0] - lon) * milesPerDegreeLon;
+  const by = (b[1] - lat) * MILES_PER_DEGREE_LAT;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return a;
+
+  const t = Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+}
+
+export function distanceToRing(
+  lat: number,
+  lon: number,
+  ring: LinearRing
+): { distance: number; closestPoint: Position | null } {
+  let minDistance = Infinity;
+  let closestPoint: Position | null = null;
+
+  for (let i = 0; i < ring.length; i++) {
+    // Rings are normally closed, but don't rely on upstream for that
+    const next = ring[(i + 1) % ring.length];
+    const candidate = closestPointOnSegment(lat, lon, ring[i], next);
+    const distance = calculateDistance(lat, lon, candidate[1], candidate[0]);
+    if (distance < minDistance) {
+      minDistance = distance;
+      closestPoint = candidate;
+    }
+  }
+
+  return { distance: minDistance, closestPoint };
+}
+
+// Measures a point against a set of polygons (a MultiPolygon, or a single
+// polygon wrapped in an array). Hole boundaries count as edges too.
+export function measurePolygons(
+  lat: number,
+  lon: number,
+  polygons: PolygonRings[]
+): PolygonMeasurement {
+  if (polygons.some((polygon) => isPointInPolygon(lat, lon, polygon))) {
+    return { inside: true, distance: 0, closestPoint: [lon, lat] };
+  }
+
+  let minDistance = Infinity;
+  let closestPoint: Position | null = null;
+  polygons.forEach((polygon) => {
+    polygon.forEach((ring) => {
+      const result = distanceToRing(lat, lon, ring);
+      if (result.distance < minDistance) {
+        minDistance = result.distance;
+        closestPoint = result.closestPoint;
+      }
+    });
+  });
+
+  return { inside: false, distance: minDistance, closestPoint };
+}
+
+// Lower bound on the miles between two boxes, 0 when they overlap. Uses the
+// longitude scale at the latitude furthest from the equator so it never
+// overestimates.
+export function bboxGapMiles(a: BBox, b: BBox): number {
+  const latGap = Math.max(0, a.minLat - b.maxLat, b.minLat - a.maxLat);
+  const lonGap = Math.max(0, a.minLon - b.maxLon, b.minLon - a.maxLon);
+  const maxAbsLat = Math.max(Math.abs(a.minLat), Math.abs(a.maxLat), Math.abs(b.minLat), Math.abs(b.maxLat));
+  const milesPerDegreeLon = MILES_PER_DEGREE_LAT * Math.cos(toRad(Math.min(maxAbsLat, 89)));
+  return Math.hypot(latGap * MILES_PER_DEGREE_LAT, lonGap * milesPerDegreeLon);
+}
+
+function orientation(a: Position, b: Position, c: Position): number {
+  return Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+}
+
+function onSegment(a: Position, b: Position, p: Position): boolean {
+  return Math.min(a[0], b[0]) <= p[0] && p[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= p[1] && p[1] <= Math.max(a[1], b[1]);
+}
+
+// Planar test in degrees, which is exact enough for deciding whether two
+// boundaries cross
+export function segmentsIntersect(a: Position, b: Position, c: Position, d: Position): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (o1 === 0 && onSegment(a, b, c)) ||
+    (o2 === 0 && onSegment(a, b, d)) ||
+    (o3 === 0 && onSegment(c, d, a)) ||
+    (o4 === 0 && onSegment(c, d, b));
+}
+
+interface IndexedRing {
+  ring: LinearRing;
+  bbox: BBox;
+}
+
+function indexRings(polygons: PolygonRings[]): IndexedRing[] {
+  return polygons.flatMap((polygon) => polygon.map((ring) => ({ ring, bbox: positionsBBox(ring) })));
+}
+
+function ringsCross(a: IndexedRing, b: IndexedRing): boolean {
+  if (!bboxesIntersect(a.bbox, b.bbox)) return false;
+  for (let i = 0; i < a.ring.length; i++) {
+    const p1 = a.ring[i];
+    const p2 = a.ring[(i + 1) % a.ring.length];
+    for (let j = 0; j < b.ring.length; j++) {
+      if (segmentsIntersect(p1, p2, b.ring[j], b.ring[(j + 1) % b.ring.length])) return true;
+    }
+  }
+  return false;
+}
+
+// Closest any vertex of `from` gets to the rings of `to`, skipping rings
+// whose box is already further than the best so far
+function closestVertexDistance(from: IndexedRing[], to: IndexedRing[], best: number): number {
+  let min = best;
+  from.forEach(({ ring }) => ring.forEach(([lon, lat]) => {
+    const vertex = { minLon: lon, minLat: lat, maxLon: lon, maxLat: lat };
+    to.forEach((target) => {
+      if (bboxGapMiles(vertex, target.bbox) >= min) return;
+      min = Math.min(min, distanceToRing(lat, lon, target.ring).distance);
+    });
+  }));
+  return min;
+}
+
+// Miles between two shapes, 0 when they touch or overlap. Shapes that don't
+// touch are closest between a vertex of one and an edge of the other, so
+// vertex-to-ring distances in both directions are enough.
+export function distanceBetweenPolygons(a: PolygonRings[], b: PolygonRings[]): number {
+  const ringsA = indexRings(a);
+  const ringsB = indexRings(b);
+  if (ringsA.length === 0 || ringsB.length === 0) return Infinity;
+
+  if (ringsA.some((ringA) => ringsB.some((ringB) => ringsCross(ringA, ringB)))) return 0;
+  // With no crossings each ring is wholly inside or outside the other shape,
+  // so one vertex per ring settles it
+  const insideOther = (rings: IndexedRing[], other: PolygonRings[]) => rings.some(({ ring }) =>
+    ring.length > 0 && other.some((polygon) => isPointInPolygon(ring[0][1], ring[0][0], polygon)));
+  if (insideOther(ringsA, b) || insideOther(ringsB, a)) return 0;
+
+  return closestVertexDistance(ringsB, ringsA, closestVertexDistance(ringsA, ringsB, Infinity));
+}
+
+export function getGeometryPolygons(geometry: PolygonalGeometry): PolygonRings[] {
+  switch (geometry.type) {
+    case 'Polygon':
+      return [geometry.coordinates];
+    case 'MultiPolygon':
+      return geometry.coordinates;
+  }
+}
+
+export function getZonePolygons(zone: EvacuationFeature): PolygonRings[] {
+  return getGeometryPolygons(zone.geometry);
+}
+
+export function measureZone(lat: number, lon: number, zone: EvacuationFeature): PolygonMeasurement {
+  return measurePolygons(lat, lon, getZonePolygons(zone));
+}
+
+export function countZonePoints(zone: EvacuationFeature): number {
+  return getZonePolygons(zone).reduce(
+    (total, polygon) => total + polygon.reduce((sum, ring) => sum + ring.length, 0),
+    0
+  );
+}
+
+// Outer rings bound the holes, so they're enough for the bounding box
+export function getGeometryBBox(geometry: PolygonalGeometry): BBox {
+  return positionsBBox(getGeometryPolygons(geometry).flatMap((polygon) => polygon[0]));
+}
+
+export function getZoneBBox(zone: EvacuationFeature): BBox {
+  return getGeometryBBox(zone.geometry);
+}
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GUIDANCE_RULES,
+  HEALTH_PROFILES,
+  getDominantPollutant,
+  getHealthGuidance,
+  getPollutantGroup,
+  isHealthProfile
+} from '@/utils/healthGuidance';
+import type { GuidanceKind, HealthProfile } from '@/utils/healthGuidance';
+
+// One AQI from each EPA category
+const BANDS = {
+  good: 25,
+  moderate: 75,
+  sensitive: 125,
+  unhealthy: 175,
+  veryUnhealthy: 250,
+  hazardous: 350
+};
+type Band = keyof typeof BANDS;
+
+const PROFILES = HEALTH_PROFILES.map(({ id }) => id);
+const SENSITIVE: HealthProfile[] = ['asthma', 'pregnancy', 'children', 'elderly'];
+
+// Activity rows that add to the main advice for one profile
+const ACTIVITY_ADD_ONS = ['asthma-action-plan', 'pm-activity-children-indoors', 'pm-activity-workers-schedule'];
+
+function ruleIds(pollutant: string, aqi: number, profile: HealthProfile, kind: GuidanceKind): string[] {
+  return getHealthGuidance(pollutant, aqi, profile)
+    .filter((item) => item.kind === kind)
+    .map(({ ruleId }) => ruleId);
+}
+
+// The main activity advice per pollutant and band: for sensitive groups,
+// for the general public, and for outdoor workers
+const MAIN_ACTIVITY: Record<string, Record<Band, [string | null, string | null, string | null]>> = {
+  'PM2.5': {
+    good: [null, null, null],
+    moderate: ['pm-activity-moderate-sensitive', null, null],
+    sensitive: ['pm-activity-usg-sensitive', 'pm-activity-usg-general', 'pm-activity-usg-general'],
+    unhealthy: ['pm-activity-unhealthy-sensitive', 'pm-activity-unhealthy-general', 'pm-activity-unhealthy-general'],
+    veryUnhealthy: ['pm-activity-severe', 'pm-activity-very-unhealthy-general', 'pm-activity-very-unhealthy-general'],
+    hazardous: ['pm-activity-severe', 'pm-activity-hazardous-general', 'pm-activity-hazardous-general']
+  },
+  O3: {
+    good: [null, null, null],
+    moderate: [null, null, null],
+    sensitive: ['o3-activity-usg-sensitive', null, 'o3-activity-usg-sensitive'],
+    unhealthy: ['o3-activity-unhealthy-sensitive', 'o3-activity-unhealthy-general', 'o3-activity-unhealthy-sensitive'],
+    veryUnhealthy: ['o3-activity-severe', 'o3-activity-severe', 'o3-activity-severe'],
+    hazardous: ['o3-activity-severe', 'o3-activity-severe', 'o3-activity-severe']
+  },
+  NO2: {
+    good: [null, null, null],
+    moderate: [null, null, null],
+    sensitive: ['gas-activity-sensitive', null, null],
+    unhealthy: ['gas-activity-sensitive', 'gas-activity-general', 'gas-activity-general'],
+    veryUnhealthy: ['gas-activity-sensitive', 'gas-activity-general', 'gas-activity-general'],
+    hazardous: ['gas-activity-sensitive', 'gas-activity-general', 'gas-activity-general']
+  }
+};
+
+const MAIN_ACTIVITY_CASES = Object.entries(MAIN_ACTIVITY).flatMap(([pollutant, bands]) =>
+  (Object.entries(bands) as Array<[Band, [string | null, string | null, string | null]]>).flatMap(([band, [sensitive, general, workers]]) =>
+    PROFILES.map((profile) => {
+      const expected = profile === 'outdoor_workers' ? workers : profile === 'general' ? general : sensitive;
+      return [pollutant, band, profile, expected] as const;
+    })
+  )
+);
+
+describe('getHealthGuidance', () => {
+  it.each(MAIN_ACTIVITY_CASES)('%s %s for %s: %s', (pollutant, band, profile, expected) => {
+    const main = ruleIds(pollutant, BANDS[band], profile, 'activity').filter((id) => !ACTIVITY_ADD_ONS.includes(id));
+    expect(main).toEqual(expected ? [expected] : []);
+  });
+
+  it.each([
+    ['asthma', 'O3', 125, 'asthma-action-plan'],
+    ['asthma', 'NO2', 300, 'asthma-action-plan'],
+    ['children', 'PM2.5', 175, 'pm-activity-children-indoors'],
+    ['outdoor_workers', 'PM2.5', 125, 'pm-activity-workers-schedule']
+  ] as const)('adds advice for %s with %s at %d', (profile, pollutant, aqi, ruleId) => {
+    expect(ruleIds(pollutant, aqi, profile, 'activity')).toContain(ruleId);
+  });
+
+  it.each([
+    ['asthma', 'PM2.5', 100, 'asthma-action-plan'],
+    ['children', 'PM2.5', 150, 'pm-activity-children-indoors'],
+    ['children', 'O3', 175, 'pm-activity-children-indoors'],
+    ['outdoor_workers', 'O3', 175, 'pm-activity-workers-schedule']
+  ] as const)('leaves out add-ons for %s with %s at %d', (profile, pollutant, aqi, ruleId) => {
+    expect(ruleIds(pollutant, aqi, profile, 'activity')).not.toContain(ruleId);
+  });
+
+  it.each([
+    ['general', 'PM2.5', 125, []],
+    ['general', 'PM2.5', 175, ['pm-mask-general']],
+    ['pregnancy', 'PM2.5', 125, ['pm-mask-sensitive-early']],
+    ['pregnancy', 'PM2.5', 175, ['pm-mask-general']],
+    ['elderly', 'PM2.5', 125, ['pm-mask-sensitive-early', 'pm-mask-elderly-doctor']],
+    ['elderly', 'PM2.5', 175, ['pm-mask-general', 'pm-mask-elderly-doctor']],
+    ['asthma', 'PM2.5', 175, ['pm-mask-asthma']],
+    ['children', 'PM2.5', 125, ['pm-mask-children']],
+    ['outdoor_workers', 'PM2.5', 125, []],
+    ['outdoor_workers', 'PM2.5', 175, ['pm-mask-workers']],
+    ['general', 'O3', 125, ['o3-mask']],
+    ['children', 'O3', 250, ['o3-mask']],
+    ['general', 'CO', 125, ['gas-mask']],
+    ['asthma', 'SO2', 75, []]
+  ] as const)('mask advice for %s with %s at %d', (profile, pollutant, aqi, expected) => {
+    expect(ruleIds(pollutant, aqi, profile, 'mask')).toEqual(expected);
+  });
+
+  it.each([
+    ['general', 'PM2.5', 75, []],
+    ['asthma', 'PM2.5', 75, ['pm-indoor-prepare']],
+    ['general', 'PM2.5', 125, ['pm-indoor-close-up']],
+    ['outdoor_workers', 'PM10', 175, ['pm-indoor-close-up', 'pm-indoor-sources', 'pm-indoor-car']],
+    ['elderly', 'O3', 125, ['o3-indoor']],
+    ['general', 'O3', 75, []],
+    ['general', 'NO2', 250, []]
+  ] as const)('indoor advice for %s with %s at %d', (profile, pollutant, aqi, expected) => {
+    expect(ruleIds(pollutant, aqi, profile, 'indoor')).toEqual(expected);
+  });
+
+  it.each([
+    [50, 51, 'pm-activity-moderate-sensitive'],
+    [100, 101, 'pm-activity-usg-sensitive'],
+    [150, 151, 'pm-activity-unhealthy-sensitive'],
+    [200, 201, 'pm-activity-severe']
+  ])('switches at the category edge between %d and %d', (below, at, ruleId) => {
+    expect(ruleIds('PM2.5', below, 'asthma', 'activity')).not.toContain(ruleId);
+    expect(ruleIds('PM2.5', at, 'asthma', 'activity')).toContain(ruleId);
+  });
+
+  it('gives nothing at a good AQI, whatever the pollutant or profile', () => {
+    ['PM2.5', 'PM10', 'O3', 'NO2', 'CO', 'SO2'].forEach((pollutant) => PROFILES.forEach((profile) => {
+      expect(getHealthGuidance(pollutant, 50, profile)).toEqual([]);
+    }));
+  });
+
+  it('keeps applying past the top of the scale', () => {
+    expect(ruleIds('PM2.5', 800, 'general', 'activity')).toEqual(['pm-activity-hazardous-general']);
+  });
+
+  it('lists activity, then masks, then indoor advice', () => {
+    const kinds = getHealthGuidance('PM2.5', 175, 'elderly').map(({ kind }) => kind);
+    expect(kinds).toEqual([...kinds].sort((a, b) => ['activity', 'mask', 'indoor'].indexOf(a) - ['activity', 'mask', 'indoor'].indexOf(b)));
+    expect(new Set(kinds)).toEqual(new Set(['activity', 'mask', 'indoor']));
+  });
+
+  it('gives sensitive groups activity advice a category earlier for particulates', () => {
+    SENSITIVE.forEach((profile) => {
+      expect(ruleIds('PM2.5', 75, profile, 'activity')).toHaveLength(1);
+    });
+    expect(ruleIds('PM2.5', 75, 'general', 'activity')).toEqual([]);
+  });
+});
+
+describe('getPollutantGroup', () => {
+  it.each([
+    ['PM2.5', 'particulate'],
+    ['PM10', 'particulate'],
+    ['O3', 'ozone'],
+    ['NO2', 'gas'],
+    ['CO', 'gas'],
+    ['SO2', 'gas'],
+    // Unknown pollutants get the advice that doesn't assume masks help
+    ['NH3', 'gas'],
+    ['', 'gas']
+  ])('%s is %s', (pollutant, group) => {
+    expect(getPollutantGroup(pollutant)).toBe(group);
+  });
+});
+
+describe('getDominantPollutant', () => {
+  it('picks the highest sub-index', () => {
+    expect(getDominantPollutant([
+      { ParameterName: 'O3', AQI: 80 },
+      { ParameterName: 'PM2.5', AQI: 160 },
+      { ParameterName: 'NO2', AQI: 20 }
+    ])).toEqual({ pollutant: 'PM2.5', aqi: 160 });
+  });
+
+  it('keeps the first of equal readings', () => {
+    expect(getDominantPollutant([{ ParameterName: 'O3', AQI: 90 }, { ParameterName: 'PM2.5', AQI: 90 }]))
+      .toEqual({ pollutant: 'O3', aqi: 90 });
+  });
+
+  it('is null without readings, so no advice is shown', () => {
+    expect(getDominantPollutant([])).toBeNull();
+  });
+});
+
+describe('GUIDANCE_RULES', () => {
+  it('has unique ids and usable ranges, groups and profiles', () => {
+    expect(new Set(GUIDANCE_RULES.map(({ id }) => id)).size).toBe(GUIDANCE_RULES.length);
+    GUIDANCE_RULES.forEach((rule) => {
+      expect(rule.minAqi).toBeLessThanOrEqual(rule.maxAqi);
+      expect(rule.groups.length).toBeGreaterThan(0);
+      expect(rule.profiles.length).toBeGreaterThan(0);
+      expect(rule.profiles.every(isHealthProfile)).toBe(true);
+      expect(rule.text.trim()).not.toBe('');
+    });
+  });
+
+  it('recognises only known profiles', () => {
+    expect(isHealthProfile('asthma')).toBe(true);
+    expect(isHealthProfile('athlete')).toBe(false);
+    expect(isHealthProfile(null)).toBe(false);
+  });
+});
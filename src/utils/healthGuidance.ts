@@ -0,0 +1,398 @@
+// Health guidance for the pollutant driving the AQI, tailored to a health
+// profile. Every piece of advice is a row in GUIDANCE_RULES; nothing is
+// written inline in components.
+
+export type HealthProfile = 'general' | 'asthma' | 'pregnancy' | 'children' | 'outdoor_workers' | 'elderly';
+
+export const HEALTH_PROFILES: Array<{ id: HealthProfile; label: string }> = [
+  { id: 'general', label: 'General public' },
+  { id: 'asthma', label: 'Asthma or lung disease' },
+  { id: 'pregnancy', label: 'Pregnancy' },
+  { id: 'children', label: 'Children' },
+  { id: 'outdoor_workers', label: 'Outdoor workers' },
+  { id: 'elderly', label: 'Older adults' }
+];
+
+export const DEFAULT_HEALTH_PROFILE: HealthProfile = 'general';
+
+export type GuidanceKind = 'activity' | 'mask' | 'indoor';
+
+export const GUIDANCE_KIND_LABELS: Record<GuidanceKind, string> = {
+  activity: 'Activity',
+  mask: 'Masks',
+  indoor: 'Indoors'
+};
+
+// Masks and purifiers work on particles but not on gases, so rules target a
+// group of pollutants rather than the whole AQI
+export type PollutantGroup = 'particulate' | 'ozone' | 'gas';
+
+const POLLUTANT_GROUPS: Record<string, PollutantGroup> = {
+  'PM2.5': 'particulate',
+  PM10: 'particulate',
+  O3: 'ozone'
+};
+
+export function getPollutantGroup(pollutant: string): PollutantGroup {
+  return POLLUTANT_GROUPS[pollutant] ?? 'gas';
+}
+
+export interface GuidanceRule {
+  id: string;
+  kind: GuidanceKind;
+  groups: PollutantGroup[];
+  // Inclusive AQI range
+  minAqi: number;
+  maxAqi: number;
+  profiles: HealthProfile[];
+  text: string;
+}
+
+// The EPA's sensitive groups, who need to act a category earlier
+const SENSITIVE: HealthProfile[] = ['asthma', 'pregnancy', 'children', 'elderly'];
+const NOT_SENSITIVE: HealthProfile[] = ['general', 'outdoor_workers'];
+const EVERYONE: HealthProfile[] = [...NOT_SENSITIVE, ...SENSITIVE];
+
+const MAX_AQI = Infinity;
+
+// Rules add up: every matching row is shown. Activity rows split profiles so
+// that exactly one level of activity advice applies at a time.
+export const GUIDANCE_RULES: GuidanceRule[] = [
+  // Particulates: smoke, dust and ash
+  {
+    id: 'pm-activity-moderate-sensitive',
+    kind: 'activity',
+    groups: ['particulate'],
+    minAqi: 51,
+    maxAqi: 100,
+    profiles: SENSITIVE,
+    text: 'Consider shortening long or strenuous activities outdoors and watch for coughing or shortness of breath.'
+  },
+  {
+    id: 'pm-activity-usg-general',
+    kind: 'activity',
+    groups: ['particulate'],
+    minAqi: 101,
+    maxAqi: 150,
+    profiles: NOT_SENSITIVE,
+    text: 'Outdoor activity is fine for most people. Take more breaks if you notice symptoms.'
+  },
+  {
+    id: 'pm-activity-usg-sensitive',
+    kind: 'activity',
+    groups: ['particulate'],
+    minAqi: 101,
+    maxAqi: 150,
+    profiles: SENSITIVE,
+    text: 'Reduce long or heavy exertion outdoors. Take more breaks and choose lighter activities.'
+  },
+  {
+    id: 'pm-activity-unhealthy-general',
+    kind: 'activity',
+    groups: ['particulate'],
+    minAqi: 151,
+    maxAqi: 200,
+    profiles: NOT_SENSITIVE,
+    text: 'Reduce long or heavy exertion outdoors and take more breaks.'
+  },
+  {
+    id: 'pm-activity-unhealthy-sensitive',
+    kind: 'activity',
+    groups: ['particulate'],
+    minAqi: 151,
+    maxAqi: 200,
+    profiles: SENSITIVE,
+    text: 'Avoid long or heavy exertion outdoors. Move activities indoors or reschedule them.'
+  },
+  {
+    id: 'pm-activity-very-unhealthy-general',
+    kind: 'activity',
+    groups: ['particulate'],
+    minAqi: 201,
+    maxAqi: 300,
+    profiles: NOT_SENSITIVE,
+    text: 'Avoid long or heavy exertion outdoors. Move activities indoors or reschedule them.'
+  },
+  {
+    id: 'pm-activity-severe',
+    kind: 'activity',
+    groups: ['particulate'],
+    minAqi: 201,
+    maxAqi: MAX_AQI,
+    profiles: SENSITIVE,
+    text: 'Avoid all physical activity outdoors and stay inside as much as you can.'
+  },
+  {
+    id: 'pm-activity-hazardous-general',
+    kind: 'activity',
+    groups: ['particulate'],
+    minAqi: 301,
+    maxAqi: MAX_AQI,
+    profiles: NOT_SENSITIVE,
+    text: 'Avoid all physical activity outdoors and stay inside as much as you can.'
+  },
+  {
+    id: 'asthma-action-plan',
+    kind: 'activity',
+    groups: ['particulate', 'ozone', 'gas'],
+    minAqi: 101,
+    maxAqi: MAX_AQI,
+    profiles: ['asthma'],
+    text: 'Follow your asthma action plan and keep quick-relief medicine with you.'
+  },
+  {
+    id: 'pm-activity-children-indoors',
+    kind: 'activity',
+    groups: ['particulate'],
+    minAqi: 151,
+    maxAqi: MAX_AQI,
+    profiles: ['children'],
+    text: 'Move recess, practice and games indoors. Children breathe more air for their size than adults.'
+  },
+  {
+    id: 'pm-activity-workers-schedule',
+    kind: 'activity',
+    groups: ['particulate'],
+    minAqi: 101,
+    maxAqi: MAX_AQI,
+    profiles: ['outdoor_workers'],
+    text: 'Schedule the heaviest work for when smoke is lightest and take breaks somewhere with filtered air.'
+  },
+  {
+    id: 'pm-mask-general',
+    kind: 'mask',
+    groups: ['particulate'],
+    minAqi: 151,
+    maxAqi: MAX_AQI,
+    profiles: ['general', 'pregnancy', 'elderly'],
+    text: 'Outdoors, wear a well-fitted N95 or P100 respirator. Cloth and surgical masks do little against fine particles.'
+  },
+  {
+    id: 'pm-mask-sensitive-early',
+    kind: 'mask',
+    groups: ['particulate'],
+    minAqi: 101,
+    maxAqi: 150,
+    profiles: ['pregnancy', 'elderly'],
+    text: 'A well-fitted N95 cuts your exposure if you need to be outside for long.'
+  },
+  {
+    id: 'pm-mask-elderly-doctor',
+    kind: 'mask',
+    groups: ['particulate'],
+    minAqi: 101,
+    maxAqi: MAX_AQI,
+    profiles: ['elderly'],
+    text: 'If you have heart or lung disease, ask your doctor whether a respirator is safe for you.'
+  },
+  {
+    id: 'pm-mask-asthma',
+    kind: 'mask',
+    groups: ['particulate'],
+    minAqi: 101,
+    maxAqi: MAX_AQI,
+    profiles: ['asthma'],
+    text: 'An N95 helps outdoors but can make breathing harder. Check with your doctor and take it off if you feel short of breath.'
+  },
+  {
+    id: 'pm-mask-children',
+    kind: 'mask',
+    groups: ['particulate'],
+    minAqi: 101,
+    maxAqi: MAX_AQI,
+    profiles: ['children'],
+    text: 'N95s aren\'t made to fit young children, so keeping them indoors protects them better than a mask.'
+  },
+  {
+    id: 'pm-mask-workers',
+    kind: 'mask',
+    groups: ['particulate'],
+    minAqi: 151,
+    maxAqi: MAX_AQI,
+    profiles: ['outdoor_workers'],
+    text: 'Cal/OSHA requires employers to provide N95 respirators when the PM2.5 AQI is 151 or higher, and to require them above 500.'
+  },
+  {
+    id: 'pm-indoor-prepare',
+    kind: 'indoor',
+    groups: ['particulate'],
+    minAqi: 51,
+    maxAqi: 100,
+    profiles: SENSITIVE,
+    text: 'Set up a clean room now: one room with the windows shut and a HEPA air purifier running.'
+  },
+  {
+    id: 'pm-indoor-close-up',
+    kind: 'indoor',
+    groups: ['particulate'],
+    minAqi: 101,
+    maxAqi: MAX_AQI,
+    profiles: EVERYONE,
+    text: 'Keep windows and doors closed and run a HEPA air purifier, or a box fan with a MERV 13 filter taped to it.'
+  },
+  {
+    id: 'pm-indoor-sources',
+    kind: 'indoor',
+    groups: ['particulate'],
+    minAqi: 151,
+    maxAqi: MAX_AQI,
+    profiles: EVERYONE,
+    text: 'Set your HVAC to recirculate and avoid frying, candles, smoking and vacuuming, which add particles indoors.'
+  },
+  {
+    id: 'pm-indoor-car',
+    kind: 'indoor',
+    groups: ['particulate'],
+    minAqi: 151,
+    maxAqi: MAX_AQI,
+    profiles: EVERYONE,
+    text: 'When driving, set the car\'s air to recirculate.'
+  },
+
+  // Ozone: worst on hot afternoons, and masks don't help
+  {
+    id: 'o3-activity-usg-sensitive',
+    kind: 'activity',
+    groups: ['ozone'],
+    minAqi: 101,
+    maxAqi: 150,
+    profiles: [...SENSITIVE, 'outdoor_workers'],
+    text: 'Reduce long or heavy exertion outdoors and plan it for the morning, when ozone is lower.'
+  },
+  {
+    id: 'o3-activity-unhealthy-general',
+    kind: 'activity',
+    groups: ['ozone'],
+    minAqi: 151,
+    maxAqi: 200,
+    profiles: ['general'],
+    text: 'Reduce long or heavy exertion outdoors, especially in the afternoon.'
+  },
+  {
+    id: 'o3-activity-unhealthy-sensitive',
+    kind: 'activity',
+    groups: ['ozone'],
+    minAqi: 151,
+    maxAqi: 200,
+    profiles: [...SENSITIVE, 'outdoor_workers'],
+    text: 'Avoid long or heavy exertion outdoors. Shift what you can to the early morning or indoors.'
+  },
+  {
+    id: 'o3-activity-severe',
+    kind: 'activity',
+    groups: ['ozone'],
+    minAqi: 201,
+    maxAqi: MAX_AQI,
+    profiles: EVERYONE,
+    text: 'Avoid physical activity outdoors.'
+  },
+  {
+    id: 'o3-mask',
+    kind: 'mask',
+    groups: ['ozone'],
+    minAqi: 101,
+    maxAqi: MAX_AQI,
+    profiles: EVERYONE,
+    text: 'Masks, N95s included, don\'t filter ozone. Cutting back on exertion is what helps.'
+  },
+  {
+    id: 'o3-indoor',
+    kind: 'indoor',
+    groups: ['ozone'],
+    minAqi: 101,
+    maxAqi: MAX_AQI,
+    profiles: EVERYONE,
+    text: 'Ozone is usually lower indoors. Don\'t use "ozone generator" air purifiers, which add to it.'
+  },
+
+  // NO2, CO and SO2: near traffic, industry or the fire itself
+  {
+    id: 'gas-activity-sensitive',
+    kind: 'activity',
+    groups: ['gas'],
+    minAqi: 101,
+    maxAqi: MAX_AQI,
+    profiles: SENSITIVE,
+    text: 'Avoid exertion near busy roads, industry or active fire.'
+  },
+  {
+    id: 'gas-activity-general',
+    kind: 'activity',
+    groups: ['gas'],
+    minAqi: 151,
+    maxAqi: MAX_AQI,
+    profiles: NOT_SENSITIVE,
+    text: 'Limit time outdoors near busy roads, industry or active fire.'
+  },
+  {
+    id: 'gas-mask',
+    kind: 'mask',
+    groups: ['gas'],
+    minAqi: 101,
+    maxAqi: MAX_AQI,
+    profiles: EVERYONE,
+    text: 'Dust masks and N95s don\'t filter gases.'
+  }
+];
+
+export interface GuidanceItem {
+  ruleId: string;
+  kind: GuidanceKind;
+  text: string;
+}
+
+export interface DominantPollutant {
+  pollutant: string;
+  aqi: number;
+}
+
+// The AQI is the highest pollutant sub-index, so that pollutant drives the advice
+export function getDominantPollutant(readings: Array<{ ParameterName: string; AQI: number }>): DominantPollutant | null {
+  return readings.reduce<DominantPollutant | null>(
+    (worst, { ParameterName, AQI }) => (!worst || AQI > worst.aqi ? { pollutant: ParameterName, aqi: AQI } : worst),
+    null
+  );
+}
+
+const KIND_ORDER: GuidanceKind[] = ['activity', 'mask', 'indoor'];
+
+export function getHealthGuidance(
+  pollutant: string,
+  aqi: number,
+  profile: HealthProfile,
+  rules: GuidanceRule[] = GUIDANCE_RULES
+): GuidanceItem[] {
+  const group = getPollutantGroup(pollutant);
+  return rules
+    .filter((rule) =>
+      rule.groups.includes(group) &&
+      rule.profiles.includes(profile) &&
+      aqi >= rule.minAqi &&
+      aqi <= rule.maxAqi
+    )
+    .sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind))
+    .map(({ id, kind, text }) => ({ ruleId: id, kind, text }));
+}
+
+const STORAGE_KEY = 'healthProfile';
+
+export function isHealthProfile(value: unknown): value is HealthProfile {
+  return HEALTH_PROFILES.some(({ id }) => id === value);
+}
+
+export function loadHealthProfile(): HealthProfile {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isHealthProfile(stored) ? stored : DEFAULT_HEALTH_PROFILE;
+  } catch {
+    return DEFAULT_HEALTH_PROFILE;
+  }
+}
+
+export function saveHealthProfile(profile: HealthProfile): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, profile);
+  } catch (error) {
+    console.error('Failed to save health profile:', error);
+  }
+}
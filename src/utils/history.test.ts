@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeChanges } from '@/utils/changes';
+import { toFireSeries } from '@/utils/fireTrends';
+import { recordHistorySnapshot } from '@/utils/history';
+import { createMemoryHistoryStore } from '@/utils/historyStore';
+import type { FireFeature } from '@/types';
+
+const HOUR = 60 * 60 * 1000;
+
+function fire(uniqueId: string, acres: number, contained = 0): FireFeature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [-118.13, 34.19] },
+    properties: {
+      Name: `Fire ${uniqueId}`,
+      IsActive: true,
+      Final: false,
+      Location: 'Test',
+      AcresBurned: acres,
+      PercentContained: contained,
+      Started: '2026-01-15T00:00:00Z',
+      Updated: '2026-01-15T00:00:00Z',
+      County: 'Los Angeles',
+      Latitude: 34.19,
+      Longitude: -118.13,
+      UniqueId: uniqueId
+    }
+  };
+}
+
+// A holds at 100 acres while B grows, then A grows and goes out
+async function recordSequence() {
+  const store = createMemoryHistoryStore();
+  await recordHistorySnapshot(store, [fire('a', 100), fire('b', 10)], [], 1 * HOUR);
+  await recordHistorySnapshot(store, [fire('a', 100), fire('b', 20)], [], 2 * HOUR);
+  await recordHistorySnapshot(store, [fire('a', 100), fire('b', 30)], [], 3 * HOUR);
+  await recordHistorySnapshot(store, [fire('a', 200, 10), fire('b', 30)], [], 4 * HOUR);
+  await recordHistorySnapshot(store, [fire('b', 30)], [], 5 * HOUR);
+  return store;
+}
+
+describe('recordHistorySnapshot', () => {
+  it('skips snapshots identical to the latest', async () => {
+    const store = createMemoryHistoryStore();
+    await recordHistorySnapshot(store, [fire('a', 100)], [], HOUR);
+    const again = await recordHistorySnapshot(store, [fire('a', 100)], [], 2 * HOUR);
+    expect(again.recorded).toBe(false);
+    expect((await store.latestAt(3 * HOUR))?.takenAt).toBe(HOUR);
+  });
+
+  it('keeps only the ends of each unchanged run per fire', async () => {
+    const store = await recordSequence();
+    const points = await store.listFirePointsAfter('a', 0);
+
+    expect(points.map(({ takenAt }) => takenAt / HOUR)).toEqual([1, 3, 4]);
+    expect(toFireSeries(points)).toEqual([
+      { at: 1 * HOUR, acres: 100, contained: 0 },
+      { at: 3 * HOUR, acres: 100, contained: 0 },
+      { at: 4 * HOUR, acres: 200, contained: 10 }
+    ]);
+  });
+
+  it('leaves the newest run open for the latest snapshot to close', async () => {
+    const store = await recordSequence();
+    const points = await store.listFirePointsAfter('b', 0);
+    expect(points.map(({ takenAt }) => takenAt / HOUR)).toEqual([1, 2, 3]);
+  });
+
+  it('records the change feed without a change for the first snapshot', async () => {
+    const store = await recordSequence();
+    const changes = summarizeChanges(await store.listChangesAfter(0));
+
+    expect(changes.map(({ kind }) => kind)).toEqual(['fire_inactive', 'fire_acres', 'fire_containment', 'fire_acres']);
+    expect(changes.find((change) => change.kind === 'fire_acres' && change.fireId === 'b'))
+      .toMatchObject({ from: 10, to: 30, at: 3 * HOUR });
+  });
+
+  it('lists only changes after the given time', async () => {
+    const store = await recordSequence();
+    const changes = await store.listChangesAfter(4 * HOUR);
+    expect(changes).toEqual([expect.objectContaining({ kind: 'fire_inactive', fireId: 'a', at: 5 * HOUR })]);
+  });
+
+  it('prunes old snapshots along with their changes', async () => {
+    const store = await recordSequence();
+    expect(await store.prune(3 * HOUR)).toBe(2);
+    expect(await store.listChangesAfter(0)).toHaveLength(4);
+    expect((await store.listFirePointsAfter('a', 0)).map(({ takenAt }) => takenAt / HOUR)).toEqual([3, 4]);
+  });
+});
@@ -0,0 +1,114 @@
+import { diffSnapshots } from '@/utils/changes';
+import { getFireId } from '@/utils/fireIdentity';
+import { getZoneBBox } from '@/utils/geometry';
+import { createFileHistoryStore, createKvHistoryStore } from '@/utils/historyStore';
+import type { FirePoint, FireRecord, HistorySnapshot, HistoryStore, ZoneRecord } from '@/utils/historyStore';
+import { getKvClient } from '@/utils/kv';
+import type { EvacuationFeature, FireFeature } from '@/types';
+
+// Snapshots older than this are pruned, and /api/changes won't look further back
+export const HISTORY_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+const DEFAULT_HISTORY_FILE = '.data/history.jsonl';
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function toFireRecord(fire: FireFeature): FireRecord {
+  const { Name, County, AcresBurned, PercentContained, Started } = fire.properties;
+  const [lng, lat] = fire.geometry.coordinates;
+  return {
+    id: getFireId(fire),
+    name: Name,
+    county: County,
+    acres: AcresBurned ?? 0,
+    contained: PercentContained ?? 0,
+    started: Started,
+    lat: roundCoordinate(lat),
+    lng: roundCoordinate(lng)
+  };
+}
+
+function toZoneRecord(zone: EvacuationFeature): ZoneRecord {
+  const { zone_id, status, zone_status, county_name, last_updated } = zone.properties;
+  const bbox = getZoneBBox(zone);
+  return {
+    id: zone_id,
+    status,
+    zoneStatus: zone_status,
+    county: county_name,
+    lastUpdated: last_updated,
+    lat: roundCoordinate((bbox.minLat + bbox.maxLat) / 2),
+    lng: roundCoordinate((bbox.minLon + bbox.maxLon) / 2)
+  };
+}
+
+export function createHistorySnapshot(
+  fires: FireFeature[],
+  zones: EvacuationFeature[],
+  takenAt = Date.now()
+): HistorySnapshot {
+  return {
+    takenAt,
+    fires: fires.map(toFireRecord).sort((a, b) => a.id.localeCompare(b.id)),
+    zones: zones.map(toZoneRecord).sort((a, b) => a.id.localeCompare(b.id))
+  };
+}
+
+function sameContent(a: HistorySnapshot, b: HistorySnapshot): boolean {
+  return JSON.stringify(a.fires) === JSON.stringify(b.fires) &&
+    JSON.stringify(a.zones) === JSON.stringify(b.zones);
+}
+
+// A fire gets points where its record changes: the last record of the old
+// run and the first of the new one. The newest run is closed by the latest
+// snapshot, which readers load anyway.
+function collectFirePoints(previous: HistorySnapshot | null, next: HistorySnapshot): FirePoint[] {
+  const previousFires = new Map((previous?.fires ?? []).map((fire) => [fire.id, fire]));
+  const nextIds = new Set(next.fires.map((fire) => fire.id));
+  const points: FirePoint[] = [];
+
+  next.fires.forEach((fire) => {
+    const before = previousFires.get(fire.id);
+    if (before && JSON.stringify(before) === JSON.stringify(fire)) return;
+    if (before && previous) points.push({ takenAt: previous.takenAt, fire: before });
+    points.push({ takenAt: next.takenAt, fire });
+  });
+  // Fires that went out keep their last sighting
+  previousFires.forEach((fire, id) => {
+    if (!nextIds.has(id) && previous) points.push({ takenAt: previous.takenAt, fire });
+  });
+  return points;
+}
+
+// Upstream data changes a few times an hour at most, so identical snapshots
+// are skipped to keep the history small
+export async function recordHistorySnapshot(
+  store: HistoryStore,
+  fires: FireFeature[],
+  zones: EvacuationFeature[],
+  now = Date.now()
+): Promise<{ recorded: boolean; pruned: number }> {
+  const snapshot = createHistorySnapshot(fires, zones, now);
+  const latest = await store.latestAt(now);
+  const recorded = !latest || !sameContent(latest, snapshot);
+  if (recorded) {
+    await store.append({
+      snapshot,
+      // Nothing counts as added just because history starts here
+      changes: latest ? diffSnapshots(latest, snapshot) : [],
+      firePoints: collectFirePoints(latest, snapshot)
+    });
+  }
+
+  const pruned = await store.prune(now - HISTORY_RETENTION_MS);
+  return { recorded, pruned };
+}
+
+// KV when configured, otherwise a local JSON Lines file
+export function getHistoryStore(): HistoryStore {
+  const kv = getKvClient();
+  if (kv) return createKvHistoryStore(kv, { retentionMs: HISTORY_RETENTION_MS });
+  return createFileHistoryStore(process.env.HISTORY_FILE || DEFAULT_HISTORY_FILE);
+}
@@ -0,0 +1,213 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { HazardChange } from '@/utils/changes';
+import type { KvClient } from '@/utils/kv';
+import type { EvacuationStatus } from '@/types';
+
+// Timestamped copies of fire and zone properties, kept so changes over time
+// can be reported. Geometry isn't stored; zones keep their center only.
+// Each snapshot is saved with what changed since the one before it, so the
+// change feed and fire histories are read without loading whole snapshots.
+
+export interface FireRecord {
+  id: string;
+  name: string;
+  county: string;
+  acres: number;
+  contained: number;
+  started: string;
+  lat: number;
+  lng: number;
+}
+
+export interface ZoneRecord {
+  id: string;
+  status: EvacuationStatus;
+  // Upstream wording, e.g. "Evacuation Order"
+  zoneStatus: string;
+  county: string;
+  lastUpdated: number;
+  // Center of the zone's bounding box
+  lat: number;
+  lng: number;
+}
+
+export interface HistorySnapshot {
+  takenAt: number;
+  fires: FireRecord[];
+  zones: ZoneRecord[];
+}
+
+// A fire's record as of one snapshot
+export interface FirePoint {
+  takenAt: number;
+  fire: FireRecord;
+}
+
+export interface HistoryEntry {
+  snapshot: HistorySnapshot;
+  // Changes since the previous snapshot
+  changes: HazardChange[];
+  // Records at the start and end of each fire's unchanged runs
+  firePoints: FirePoint[];
+}
+
+export interface HistoryStore {
+  append(entry: HistoryEntry): Promise<void>;
+  // The last snapshot taken at or before `time`
+  latestAt(time: number): Promise<HistorySnapshot | null>;
+  // Changes recorded after `from` (exclusive), oldest first
+  listChangesAfter(from: number): Promise<HazardChange[]>;
+  // One fire's points after `from` (exclusive), oldest first
+  listFirePointsAfter(fireId: string, from: number): Promise<FirePoint[]>;
+  // Drops history from before `time`, returning how many snapshots were removed
+  prune(before: number): Promise<number>;
+}
+
+function sortByTime(entries: HistoryEntry[]): HistoryEntry[] {
+  return [...entries].sort((a, b) => a.snapshot.takenAt - b.snapshot.takenAt);
+}
+
+function latestSnapshotAt(entries: HistoryEntry[], time: number): HistorySnapshot | null {
+  return entries.filter(({ snapshot }) => snapshot.takenAt <= time).pop()?.snapshot ?? null;
+}
+
+function changesAfter(entries: HistoryEntry[], from: number): HazardChange[] {
+  return entries.flatMap(({ changes }) => changes.filter((change) => change.at > from));
+}
+
+// A run's end point is written again as the next run's predecessor, so
+// repeats are dropped by time
+function firePointsAfter(entries: HistoryEntry[], fireId: string, from: number): FirePoint[] {
+  const points = new Map<number, FirePoint>();
+  entries.forEach(({ firePoints }) => firePoints.forEach((point) => {
+    if (point.fire.id === fireId && point.takenAt > from) points.set(point.takenAt, point);
+  }));
+  return Array.from(points.values()).sort((a, b) => a.takenAt - b.takenAt);
+}
+
+export function createMemoryHistoryStore(initial: HistoryEntry[] = []): HistoryStore {
+  let entries = sortByTime(initial);
+  return {
+    async append(entry) {
+      entries = sortByTime([...entries, entry]);
+    },
+    async latestAt(time) {
+      return latestSnapshotAt(entries, time);
+    },
+    async listChangesAfter(from) {
+      return changesAfter(entries, from);
+    },
+    async listFirePointsAfter(fireId, from) {
+      return firePointsAfter(entries, fireId, from);
+    },
+    async prune(before) {
+      const count = entries.length;
+      entries = entries.filter(({ snapshot }) => snapshot.takenAt >= before);
+      return count - entries.length;
+    }
+  };
+}
+
+// One JSON entry per line, for local development. Node runtime only. Reads
+// parse the whole file, which is fine at development sizes.
+export function createFileHistoryStore(path: string): HistoryStore {
+  const readAll = async (): Promise<HistoryEntry[]> => {
+    try {
+      const text = await readFile(path, 'utf8');
+      return sortByTime(
+        text
+          .split('\n')
+          .filter((line) => line.trim())
+          .map((line) => JSON.parse(line) as HistoryEntry)
+          // Files from before entries were kept hold bare snapshots
+          .map((entry) => 'snapshot' in entry
+            ? entry
+            : { snapshot: entry as unknown as HistorySnapshot, changes: [], firePoints: [] })
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  const writeAll = async (entries: HistoryEntry[]) => {
+    await mkdir(dirname(path), { recursive: true });
+    // Write then rename so a crash never leaves a half-written history
+    const temp = `${path}.tmp`;
+    await writeFile(temp, entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n');
+    await rename(temp, path);
+  };
+
+  return {
+    async append(entry) {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, JSON.stringify(entry) + '\n');
+    },
+    async latestAt(time) {
+      return latestSnapshotAt(await readAll(), time);
+    },
+    async listChangesAfter(from) {
+      return changesAfter(await readAll(), from);
+    },
+    async listFirePointsAfter(fireId, from) {
+      return firePointsAfter(await readAll(), fireId, from);
+    },
+    async prune(before) {
+      const entries = await readAll();
+      const kept = entries.filter(({ snapshot }) => snapshot.takenAt >= before);
+      if (kept.length !== entries.length) await writeAll(kept);
+      return entries.length - kept.length;
+    }
+  };
+}
+
+const HISTORY_KEY = 'history:snapshots';
+const CHANGES_KEY = 'history:changes';
+const FIRE_KEY_PREFIX = 'history:fire:';
+
+// Sorted sets scored by time: one of snapshots, one of changes and one of
+// points per fire. Fire sets expire `retentionMs` after their last point
+// rather than being pruned, which would cost a command per fire.
+export function createKvHistoryStore(kv: KvClient, { retentionMs }: { retentionMs: number }): HistoryStore {
+  const parse = <T>(values: string[] | null) =>
+    (values ?? []).map((value) => JSON.parse(value) as T);
+
+  return {
+    async append({ snapshot, changes, firePoints }) {
+      await kv.command('ZADD', HISTORY_KEY, snapshot.takenAt, JSON.stringify(snapshot));
+      if (changes.length > 0) {
+        await kv.command('ZADD', CHANGES_KEY, ...changes.flatMap((change) => [change.at, JSON.stringify(change)]));
+      }
+
+      const pointsByFire = new Map<string, FirePoint[]>();
+      firePoints.forEach((point) => {
+        pointsByFire.set(point.fire.id, [...(pointsByFire.get(point.fire.id) ?? []), point]);
+      });
+      // Re-adding a run's end point is a no-op, as the member and score match
+      for (const [fireId, points] of Array.from(pointsByFire)) {
+        const key = `${FIRE_KEY_PREFIX}${fireId}`;
+        await kv.command('ZADD', key, ...points.flatMap((point) => [point.takenAt, JSON.stringify(point)]));
+        await kv.command('PEXPIRE', key, retentionMs);
+      }
+    },
+    async latestAt(time) {
+      const [latest] = parse<HistorySnapshot>(
+        await kv.command<string[] | null>('ZREVRANGEBYSCORE', HISTORY_KEY, time, '-inf', 'LIMIT', 0, 1)
+      );
+      return latest ?? null;
+    },
+    async listChangesAfter(from) {
+      return parse<HazardChange>(await kv.command<string[] | null>('ZRANGEBYSCORE', CHANGES_KEY, `(${from}`, '+inf'));
+    },
+    async listFirePointsAfter(fireId, from) {
+      return parse<FirePoint>(
+        await kv.command<string[] | null>('ZRANGEBYSCORE', `${FIRE_KEY_PREFIX}${fireId}`, `(${from}`, '+inf')
+      );
+    },
+    async prune(before) {
+      await kv.command<number>('ZREMRANGEBYSCORE', CHANGES_KEY, '-inf', `(${before}`);
+      return kv.command<number>('ZREMRANGEBYSCORE', HISTORY_KEY, '-inf', `(${before}`);
+    }
+  };
+}
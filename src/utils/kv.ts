@@ -0,0 +1,35 @@
+// Minimal client for Vercel KV / Upstash Redis over their REST API, so
+// server state works from any runtime without a Redis driver
+
+export interface KvClient {
+  command<T>(...args: Array<string | number>): Promise<T>;
+}
+
+export function createKvClient(url: string, token: string): KvClient {
+  return {
+    async command<T>(...args: Array<string | number>): Promise<T> {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(args),
+        cache: 'no-store'
+      });
+
+      const data = await response.json();
+      if (!response.ok || data.error) {
+        throw new Error(`KV error: ${data.error || response.status}`);
+      }
+      return data.result as T;
+    }
+  };
+}
+
+// Null when KV isn't configured, so callers can fall back to memory
+export function getKvClient(): KvClient | null {
+  const url = process.env.KV_REST_API_URL;
+  const token = process.env.KV_REST_API_TOKEN;
+  return url && token ? createKvClient(url, token) : null;
+}
@@ -0,0 +1,73 @@
+import { getKvClient } from '@/utils/kv';
+import type { KvClient } from '@/utils/kv';
+import type { FeatureIssueCounts } from '@/utils/geojson';
+import type { UpstreamSource } from '@/utils/upstreamClient';
+
+// The last validated payload from each upstream, served when a fresh fetch
+// fails. Memory always holds the latest copy; KV, when configured, lets a
+// fresh serverless instance fall back too.
+
+export interface LastKnownGood<T> {
+  features: T[];
+  rejected: number;
+  issues: FeatureIssueCounts;
+  cacheStatus: string;
+  // When the upstream returned this payload
+  asOf: number;
+}
+
+export interface LastKnownGoodStore {
+  load<T>(source: UpstreamSource): Promise<LastKnownGood<T> | null>;
+  save<T>(source: UpstreamSource, snapshot: LastKnownGood<T>): Promise<void>;
+}
+
+const KEY_PREFIX = 'upstream:last-good:';
+// Every successful fetch would otherwise rewrite megabytes of zone geometry
+const KV_WRITE_INTERVAL_MS = 5 * 60 * 1000;
+
+export function createMemoryLastKnownGoodStore(): LastKnownGoodStore {
+  const snapshots = new Map<UpstreamSource, LastKnownGood<unknown>>();
+  return {
+    async load<T>(source: UpstreamSource) {
+      return (snapshots.get(source) as LastKnownGood<T> | undefined) ?? null;
+    },
+    async save<T>(source: UpstreamSource, snapshot: LastKnownGood<T>) {
+      snapshots.set(source, snapshot);
+    }
+  };
+}
+
+// Memory in front of KV: reads prefer the local copy, writes to KV are
+// throttled per source
+export function createKvLastKnownGoodStore(kv: KvClient): LastKnownGoodStore {
+  const memory = createMemoryLastKnownGoodStore();
+  const lastWrites = new Map<UpstreamSource, number>();
+
+  return {
+    async load<T>(source: UpstreamSource) {
+      const local = await memory.load<T>(source);
+      if (local) return local;
+      const raw = await kv.command<string | null>('GET', `${KEY_PREFIX}${source}`);
+      return raw ? (JSON.parse(raw) as LastKnownGood<T>) : null;
+    },
+    async save<T>(source: UpstreamSource, snapshot: LastKnownGood<T>) {
+      await memory.save(source, snapshot);
+      const lastWrite = lastWrites.get(source) ?? 0;
+      if (snapshot.asOf - lastWrite < KV_WRITE_INTERVAL_MS) return;
+      lastWrites.set(source, snapshot.asOf);
+      await kv.command('SET', `${KEY_PREFIX}${source}`, JSON.stringify(snapshot));
+    }
+  };
+}
+
+const globalForLastKnownGood = globalThis as unknown as { lastKnownGoodStore?: LastKnownGoodStore };
+
+export function getLastKnownGoodStore(): LastKnownGoodStore {
+  if (!globalForLastKnownGood.lastKnownGoodStore) {
+    const kv = getKvClient();
+    globalForLastKnownGood.lastKnownGoodStore = kv
+      ? createKvLastKnownGoodStore(kv)
+      : createMemoryLastKnownGoodStore();
+  }
+  return globalForLastKnownGood.lastKnownGoodStore;
+}
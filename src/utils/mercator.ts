@@ -0,0 +1,32 @@
+// Web Mercator helpers shared by the map and its tile layer. World
+// coordinates are pixels at zoom 0, where the whole world is one 256px tile.
+
+export const TILE_SIZE = 256;
+const MAX_LATITUDE = 85.05112878;
+
+export function projectPoint(lon: number, lat: number): [number, number] {
+  const clampedLat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const sin = Math.sin((clampedLat * Math.PI) / 180);
+  const x = ((lon + 180) / 360) * TILE_SIZE;
+  const y = (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * TILE_SIZE;
+  return [x, y];
+}
+
+export function unprojectPoint(x: number, y: number): [number, number] {
+  const lon = (x / TILE_SIZE) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * y) / TILE_SIZE;
+  const lat = (180 / Math.PI) * Math.atan(Math.sinh(n));
+  return [lon, lat];
+}
+
+export function zoomScale(zoom: number): number {
+  return Math.pow(2, zoom);
+}
+
+// Expands a {z}/{x}/{y} template such as "/tiles/{z}/{x}/{y}.png"
+export function tileUrl(template: string, z: number, x: number, y: number): string {
+  return template
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+}
@@ -0,0 +1,239 @@
+import { calculateBearing, calculateDistance } from '@/utils/distance';
+import { associateZoneWithFire } from '@/utils/fireAssociation';
+import type { FireAssociation } from '@/utils/fireAssociation';
+import { EVACUATION_STATUS_INFO, zonePriority } from '@/utils/evacuationStatus';
+import type { PerimeterLookup } from '@/utils/firePerimeters';
+import { getGeometryBBox, getGeometryPolygons, getZoneBBox, measurePolygons, measureZone } from '@/utils/geometry';
+import { createSpatialIndex, pointBBox, unionBBox } from '@/utils/spatialIndex';
+import type { SpatialIndex } from '@/utils/spatialIndex';
+import type { EvacuationFeature, FireFeature, FirePerimeterFeature, Position } from '@/types';
+
+// Distance ranking shared by the page and /api/nearby
+
+export interface FireIndex extends SpatialIndex<FireFeature> {
+  perimeters: PerimeterLookup;
+}
+export type ZoneIndex = SpatialIndex<EvacuationFeature>;
+
+export interface FireDistance {
+  fire: FireFeature;
+  // Miles to the perimeter edge when one is known, else to the incident point
+  distance: number;
+  measuredTo: 'perimeter' | 'point';
+  // Inside the fire perimeter
+  inside: boolean;
+  // Null when the point is inside the perimeter
+  bearing: number | null;
+}
+
+export interface ZoneDistance {
+  zone: EvacuationFeature;
+  distance: number;
+  inside: boolean;
+  // Bearing to the nearest edge, null when the point is inside the zone
+  bearing: number | null;
+  closestPoint: Position | null;
+}
+
+export interface NearbyZone extends ZoneDistance {
+  association: FireAssociation;
+}
+
+export interface NearbyHazards {
+  fires: FireDistance[];
+  zones: NearbyZone[];
+}
+
+// How many nearest zones are considered before re-ranking by severity
+const SEVERITY_CANDIDATE_FACTOR = 3;
+const MIN_SEVERITY_CANDIDATES = 25;
+
+export interface RankOptions<T> {
+  limit?: number;
+  maxDistance?: number;
+  onMeasure?: (item: T) => void;
+}
+
+// Perimeters widen each fire's bounding box so nearest queries stay exact
+export function createFireIndex(fires: FireFeature[], perimeters: PerimeterLookup = new Map()): FireIndex {
+  const index = createSpatialIndex(fires, (fire) => {
+    const point = pointBBox(fire.geometry.coordinates[1], fire.geometry.coordinates[0]);
+    const perimeter = perimeters.get(fire);
+    return perimeter ? unionBBox(point, getGeometryBBox(perimeter.geometry)) : point;
+  });
+  return { ...index, perimeters };
+}
+
+export function createZoneIndex(zones: EvacuationFeature[]): ZoneIndex {
+  return createSpatialIndex(zones, getZoneBBox);
+}
+
+export function measureFire(
+  lat: number,
+  lon: number,
+  fire: FireFeature,
+  perimeter?: FirePerimeterFeature
+): FireDistance {
+  if (perimeter) {
+    const { inside, distance, closestPoint } = measurePolygons(
+      lat,
+      lon,
+      getGeometryPolygons(perimeter.geometry)
+    );
+    return {
+      fire,
+      distance,
+      measuredTo: 'perimeter',
+      inside,
+      bearing: !inside && closestPoint
+        ? calculateBearing(lat, lon, closestPoint[1], closestPoint[0])
+        : null
+    };
+  }
+
+  const [fireLon, fireLat] = fire.geometry.coordinates;
+  return {
+    fire,
+    distance: calculateDistance(lat, lon, fireLat, fireLon),
+    measuredTo: 'point',
+    inside: false,
+    bearing: calculateBearing(lat, lon, fireLat, fireLon)
+  };
+}
+
+function measureZoneDistance(lat: number, lon: number, zone: EvacuationFeature): ZoneDistance {
+  const { inside, distance, closestPoint } = measureZone(lat, lon, zone);
+  return {
+    zone,
+    distance,
+    inside,
+    bearing: !inside && closestPoint
+      ? calculateBearing(lat, lon, closestPoint[1], closestPoint[0])
+      : null,
+    closestPoint
+  };
+}
+
+export function findNearestFires(
+  lat: number,
+  lon: number,
+  index: FireIndex,
+  { limit = 1, maxDistance, onMeasure }: RankOptions<FireFeature> = {}
+): FireDistance[] {
+  return index
+    .nearest(
+      lat,
+      lon,
+      (fire) => measureFire(lat, lon, fire, index.perimeters.get(fire)),
+      { limit, maxDistance, onMeasure }
+    )
+    .map(({ fire, distance, measuredTo, inside, bearing }) => ({ fire, distance, measuredTo, inside, bearing }));
+}
+
+export function findNearestZones(
+  lat: number,
+  lon: number,
+  index: ZoneIndex,
+  { limit = 1, maxDistance, onMeasure }: RankOptions<EvacuationFeature> = {}
+): ZoneDistance[] {
+  return index
+    .nearest(lat, lon, (zone) => measureZoneDistance(lat, lon, zone), { limit, maxDistance, onMeasure })
+    .map(({ zone, distance, inside, bearing, closestPoint }) => ({ zone, distance, inside, bearing, closestPoint }));
+}
+
+// Orders zones by how much they should matter to someone at the query point,
+// weighing status severity against distance
+export function rankZonesBySeverity<T extends ZoneDistance>(entries: T[]): T[] {
+  return [...entries].sort((a, b) => {
+    const priorityA = zonePriority(a.distance, a.zone.properties.status);
+    const priorityB = zonePriority(b.distance, b.zone.properties.status);
+    if (priorityA !== priorityB) return priorityA - priorityB;
+    return EVACUATION_STATUS_INFO[b.zone.properties.status].severity -
+      EVACUATION_STATUS_INFO[a.zone.properties.status].severity;
+  });
+}
+
+// Ranks a wider set of nearest candidates by severity, so a warning two
+// blocks away comes ahead of an order 30 miles away
+export function findPriorityZones(
+  lat: number,
+  lon: number,
+  index: ZoneIndex,
+  { limit = 1, maxDistance, onMeasure }: RankOptions<EvacuationFeature> = {}
+): ZoneDistance[] {
+  const candidates = findNearestZones(lat, lon, index, {
+    limit: Math.max(limit * SEVERITY_CANDIDATE_FACTOR, MIN_SEVERITY_CANDIDATES),
+    maxDistance,
+    onMeasure
+  });
+  return rankZonesBySeverity(candidates).slice(0, limit);
+}
+
+// Exhaustive versions of the above, kept as the reference the index is
+// benchmarked and checked against
+export function rankFiresByDistance(
+  lat: number,
+  lon: number,
+  fires: FireFeature[],
+  perimeters: PerimeterLookup = new Map()
+): FireDistance[] {
+  return fires
+    .map((fire) => measureFire(lat, lon, fire, perimeters.get(fire)))
+    .sort((a, b) => a.distance - b.distance);
+}
+
+export function rankZonesByDistance(lat: number, lon: number, zones: EvacuationFeature[]): ZoneDistance[] {
+  return zones
+    .map((zone) => measureZoneDistance(lat, lon, zone))
+    .sort((a, b) => a.distance - b.distance);
+}
+
+export function findNearbyHazards(
+  lat: number,
+  lon: number,
+  fireIndex: FireIndex,
+  zoneIndex: ZoneIndex,
+  { radius, limit }: { radius: number; limit: number }
+): NearbyHazards {
+  const nearbyFires = findNearestFires(lat, lon, fireIndex, { limit, maxDistance: radius });
+
+  // Association is only worked out for the zones we actually return
+  const nearbyZones = findPriorityZones(lat, lon, zoneIndex, { limit, maxDistance: radius })
+    .map((entry) => ({
+      ...entry,
+      association: associateZoneWithFire(entry.zone, fireIndex)
+    }));
+
+  return { fires: nearbyFires, zones: nearbyZones };
+}
+
+export interface LocationSummary {
+  closestFire: FireDistance | null;
+  // Highest-priority zone, with the fire it was most likely issued for
+  closestZone: NearbyZone | null;
+  otherZones: ZoneDistance[];
+}
+
+// Everything the page shows for one point, whether that's the viewer or a
+// saved place
+export function summarizeLocation(
+  lat: number,
+  lon: number,
+  fireIndex: FireIndex,
+  zoneIndex: ZoneIndex,
+  { otherZones = 0, onMeasure }: { otherZones?: number; onMeasure?: (zone: EvacuationFeature) => void } = {}
+): LocationSummary {
+  const [closestFire] = findNearestFires(lat, lon, fireIndex);
+  const [closestZone, ...rest] = findPriorityZones(lat, lon, zoneIndex, {
+    limit: otherZones + 1,
+    onMeasure
+  });
+
+  return {
+    closestFire: closestFire ?? null,
+    closestZone: closestZone
+      ? { ...closestZone, association: associateZoneWithFire(closestZone.zone, fireIndex) }
+      : null,
+    otherZones: rest
+  };
+}
@@ -0,0 +1,100 @@
+import { getServiceWorkerRegistration, isServiceWorkerSupported, registerServiceWorker } from '@/utils/serviceWorker';
+import type { SavedPlace } from '@/types';
+
+// Browser side of push alerts: the push subscription, and which saved
+// places have alerts turned on
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+const ALERTS_STORAGE_KEY = 'alertPlaces';
+
+export const ALERT_RADIUS_OPTIONS = [5, 10, 25, 50];
+export const DEFAULT_ALERT_RADIUS = 10;
+
+// Place id -> alert radius in miles
+export type AlertPlaces = Record<string, number>;
+
+export function isPushSupported(): boolean {
+  return Boolean(VAPID_PUBLIC_KEY) &&
+    isServiceWorkerSupported() &&
+    'PushManager' in window &&
+    'Notification' in window;
+}
+
+// VAPID keys are URL-safe base64, pushManager wants raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64.length % 4)) % 4);
+  const raw = window.atob((base64 + padding).replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+async function getPushSubscription(): Promise<PushSubscription> {
+  const registration = await registerServiceWorker();
+
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return existing;
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was not granted');
+  }
+
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY as string)
+  });
+}
+
+export async function subscribeToAlerts(place: SavedPlace, radius: number): Promise<void> {
+  const subscription = await getPushSubscription();
+  const response = await fetch('/api/alerts/subscribe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      subscription: subscription.toJSON(),
+      placeId: place.id,
+      name: place.name,
+      lat: place.lat,
+      lng: place.lng,
+      radius
+    })
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to turn on alerts');
+  }
+}
+
+export async function unsubscribeFromAlerts(placeId: string): Promise<void> {
+  const registration = await getServiceWorkerRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  // Nothing to tell the server if the browser already dropped it
+  if (!subscription) return;
+
+  const response = await fetch('/api/alerts/subscribe', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint, placeId })
+  });
+  if (!response.ok && response.status !== 204) {
+    throw new Error('Failed to turn off alerts');
+  }
+}
+
+export function loadAlertPlaces(): AlertPlaces {
+  try {
+    const raw = window.localStorage.getItem(ALERTS_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as AlertPlaces : {};
+  } catch (error) {
+    console.error('Failed to read alert places:', error);
+    return {};
+  }
+}
+
+export function storeAlertPlaces(places: AlertPlaces): void {
+  try {
+    window.localStorage.setItem(ALERTS_STORAGE_KEY, JSON.stringify(places));
+  } catch (error) {
+    console.error('Failed to store alert places:', error);
+  }
+}
@@ -0,0 +1,92 @@
+import webpush from 'web-push';
+import type { AlertSubscription } from '@/utils/alertStore';
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  // Notifications with the same tag replace each other on the device
+  tag: string;
+}
+
+// Expired subscriptions should be deleted; failed sends are kept on the
+// snapshot and retried by the next alert check
+export type PushResult = 'sent' | 'expired' | 'failed';
+
+export interface PushSender {
+  send(subscription: AlertSubscription, payload: PushPayload): Promise<PushResult>;
+}
+
+export interface VapidConfig {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+// Notifications older than this aren't worth delivering
+const PUSH_TTL_SECONDS = 60 * 60;
+
+// The push services browsers actually hand out endpoints for. Anything else
+// would have the server POST to a host of the caller's choosing.
+const PUSH_SERVICE_HOSTS = [
+  /^fcm\.googleapis\.com$/,
+  /^android\.googleapis\.com$/,
+  /^updates\.push\.services\.mozilla\.com$/,
+  /(^|\.)push\.apple\.com$/,
+  /(^|\.)notify\.windows\.com$/
+];
+const MAX_ENDPOINT_LENGTH = 1024;
+
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  if (endpoint.length > MAX_ENDPOINT_LENGTH) return false;
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  return url.protocol === 'https:' &&
+    !url.port &&
+    !url.username &&
+    !url.password &&
+    PUSH_SERVICE_HOSTS.some((host) => host.test(url.hostname));
+}
+
+export function createWebPushSender(vapid: VapidConfig): PushSender {
+  return {
+    async send(subscription, payload) {
+      // Stored before endpoints were checked; treat it as gone so it's removed
+      if (!isPushServiceEndpoint(subscription.endpoint)) return 'expired';
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: subscription.keys },
+          JSON.stringify(payload),
+          { vapidDetails: vapid, TTL: PUSH_TTL_SECONDS }
+        );
+        return 'sent';
+      } catch (error) {
+        // Push services answer 404/410 once the user has unsubscribed
+        if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+          return 'expired';
+        }
+        console.error('[Push] Failed to send notification:', error);
+        return 'failed';
+      }
+    }
+  };
+}
+
+// Records instead of sending, for local runs and tests
+export function createMemoryPushSender(): PushSender & {
+  sent: Array<{ subscription: AlertSubscription; payload: PushPayload }>;
+} {
+  const sent: Array<{ subscription: AlertSubscription; payload: PushPayload }> = [];
+  return {
+    sent,
+    async send(subscription, payload) {
+      console.log(`[Push] Would notify ${subscription.name}: ${payload.title}`);
+      sent.push({ subscription, payload });
+      return 'sent';
+    }
+  };
+}
@@ -0,0 +1,184 @@
+import { getKvClient } from '@/utils/kv';
+import type { KvClient } from '@/utils/kv';
+
+// Token buckets for routes that spend third-party API quota. Each key gets
+// `capacity` tokens that refill continuously; a request takes one.
+
+export interface RateLimitRule {
+  // Also the burst size
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Whole seconds until a token is available, 0 when allowed
+  retryAfterSeconds: number;
+}
+
+// Thrown from work that was refused a token, so the route can answer 429
+export class RateLimitedError extends Error {
+  readonly result: RateLimitResult;
+
+  constructor(result: RateLimitResult) {
+    super(`Rate limited, retry after ${result.retryAfterSeconds}s`);
+    this.name = 'RateLimitedError';
+    this.result = result;
+  }
+}
+
+export interface TokenBucketStore {
+  take(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  // When the bucket will be full again and can be forgotten
+  fullAt: number;
+}
+
+const KEY_PREFIX = 'ratelimit:';
+// Past this many, buckets that have refilled are forgotten, then the oldest
+const MAX_MEMORY_BUCKETS = 10000;
+
+function fullAfterMs(rule: RateLimitRule): number {
+  return Math.ceil((rule.capacity / rule.refillPerSecond) * 1000);
+}
+
+function toResult(allowed: boolean, tokens: number, rule: RateLimitRule): RateLimitResult {
+  return {
+    allowed,
+    limit: rule.capacity,
+    remaining: Math.floor(tokens),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((1 - tokens) / rule.refillPerSecond))
+  };
+}
+
+export function createMemoryTokenBucketStore(now: () => number = Date.now): TokenBucketStore {
+  const buckets = new Map<string, BucketState>();
+
+  const prune = (time: number) => {
+    buckets.forEach((bucket, key) => {
+      if (time >= bucket.fullAt) buckets.delete(key);
+    });
+    // Still too many: drop the least recently inserted
+    const excess = buckets.size - MAX_MEMORY_BUCKETS;
+    Array.from(buckets.keys()).slice(0, Math.max(0, excess)).forEach((key) => buckets.delete(key));
+  };
+
+  return {
+    async take(key, rule) {
+      const time = now();
+      if (buckets.size >= MAX_MEMORY_BUCKETS) prune(time);
+
+      const bucket = buckets.get(key) ?? { tokens: rule.capacity, updatedAt: time, fullAt: time };
+      const elapsed = Math.max(0, time - bucket.updatedAt) / 1000;
+      let tokens = Math.min(rule.capacity, bucket.tokens + elapsed * rule.refillPerSecond);
+
+      const allowed = tokens >= 1;
+      if (allowed) tokens -= 1;
+      buckets.set(key, {
+        tokens,
+        updatedAt: time,
+        fullAt: time + ((rule.capacity - tokens) / rule.refillPerSecond) * 1000
+      });
+      return toResult(allowed, tokens, rule);
+    }
+  };
+}
+
+// Refill and take in one round trip, so concurrent instances can't both spend
+// the last token. Tokens go back as a string because Redis truncates Lua
+// numbers to integers.
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill_per_ms = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated')
+local tokens = tonumber(state[1]) or capacity
+local updated = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updated) * refill_per_ms)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated', tostring(now))
+redis.call('PEXPIRE', KEYS[1], ARGV[4])
+return {allowed, tostring(tokens)}
+`;
+
+export function createKvTokenBucketStore(kv: KvClient, now: () => number = Date.now): TokenBucketStore {
+  return {
+    async take(key, rule) {
+      const [allowed, tokens] = await kv.command<[number, string]>(
+        'EVAL',
+        TAKE_SCRIPT,
+        1,
+        `${KEY_PREFIX}${key}`,
+        rule.capacity,
+        rule.refillPerSecond / 1000,
+        now(),
+        fullAfterMs(rule)
+      );
+      return toResult(allowed === 1, parseFloat(tokens), rule);
+    }
+  };
+}
+
+const globalForRateLimit = globalThis as unknown as { tokenBucketStore?: TokenBucketStore };
+
+export function getTokenBucketStore(): TokenBucketStore {
+  if (!globalForRateLimit.tokenBucketStore) {
+    const kv = getKvClient();
+    globalForRateLimit.tokenBucketStore = kv ? createKvTokenBucketStore(kv) : createMemoryTokenBucketStore();
+  }
+  return globalForRateLimit.tokenBucketStore;
+}
+
+export interface RateLimitCheck {
+  key: string;
+  rule: RateLimitRule;
+}
+
+// Takes from every bucket and reports the most restrictive. A store failure
+// lets the request through: losing the limiter shouldn't take the route down.
+export async function checkRateLimits(
+  checks: RateLimitCheck[],
+  store: TokenBucketStore = getTokenBucketStore()
+): Promise<RateLimitResult | null> {
+  try {
+    const results = await Promise.all(checks.map(({ key, rule }) => store.take(key, rule)));
+    return results.reduce<RateLimitResult | null>((worst, result) => {
+      if (!worst) return result;
+      if (worst.allowed !== result.allowed) return result.allowed ? worst : result;
+      return result.allowed
+        ? (result.remaining < worst.remaining ? result : worst)
+        : (result.retryAfterSeconds > worst.retryAfterSeconds ? result : worst);
+    }, null);
+  } catch (error) {
+    console.error('[Rate Limit] Store failed, allowing request:', error);
+    return null;
+  }
+}
+
+// Clients holding one of RATE_LIMIT_TOKENS get their own bucket instead of
+// sharing their IP's, e.g. a partner server behind a shared address.
+// Unknown tokens are ignored so they can't be rotated to dodge the limit.
+export async function getRateLimitClientKey(headers: Headers): Promise<string> {
+  const token = headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  const allowedTokens = (process.env.RATE_LIMIT_TOKENS ?? '').split(',').map((value) => value.trim()).filter(Boolean);
+  if (token && allowedTokens.includes(token)) {
+    // Keys are stored in KV, so keep the token itself out of them
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    const hash = Array.from(new Uint8Array(digest).slice(0, 8), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    return `token:${hash}`;
+  }
+
+  // Vercel sets X-Forwarded-For to the client's address
+  const ip = headers.get('x-forwarded-for')?.split(',')[0]?.trim() || headers.get('x-real-ip') || 'unknown';
+  return `ip:${ip}`;
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseAreaQuery,
+  parseBBox,
+  parseCoordinates,
+  parseDecimal,
+  parseLimit,
+  parseOptionalCoordinates,
+  parseRadius,
+  validateCoordinates,
+  validateRadius
+} from '@/utils/requestValidation';
+
+const RADIUS = { defaultRadius: 25, maxRadius: 100 };
+const LIMIT = { defaultLimit: 10, maxLimit: 50 };
+
+function params(query: string): URLSearchParams {
+  return new URLSearchParams(query);
+}
+
+describe('parseDecimal', () => {
+  it.each([
+    ['37.7', 37.7],
+    [' -122.4 ', -122.4],
+    ['+5', 5],
+    ['.5', 0.5],
+    ['5.', 5],
+    ['0', 0]
+  ])('reads %j as %d', (value, expected) => {
+    expect(parseDecimal(value)).toBe(expected);
+  });
+
+  it.each(['', 'NaN', 'Infinity', '1e3', '0x10', '37.7&foo=bar', '37,7', '--1', '.'])('rejects %j', (value) => {
+    expect(parseDecimal(value)).toBeNull();
+  });
+});
+
+describe('validateCoordinates', () => {
+  it.each([
+    [90, 180],
+    [-90, -180],
+    [0, 0]
+  ])('accepts %d, %d', (lat, lng) => {
+    expect(validateCoordinates(lat, lng)).toEqual({ ok: true, value: { lat, lng } });
+  });
+
+  it.each([
+    ['lat', NaN, -118],
+    ['lat', 90.1, -118],
+    ['lat', '34', -118],
+    ['lat', null, -118],
+    ['lat', Infinity, -118],
+    ['lng', 34, NaN],
+    ['lng', 34, -180.5],
+    ['lng', 34, undefined]
+  ])('blames %s for %s, %s', (param, lat, lng) => {
+    const result = validateCoordinates(lat, lng);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.issue.param).toBe(param);
+  });
+});
+
+describe('parseCoordinates', () => {
+  it('reads lat and lng', () => {
+    expect(parseCoordinates(params('lat=34.19&lng=-118.13'))).toEqual({ ok: true, value: { lat: 34.19, lng: -118.13 } });
+  });
+
+  it.each([
+    ['', 'lat'],
+    ['lng=-118', 'lat'],
+    ['lat=34', 'lng'],
+    ['lat=NaN&lng=-118', 'lat'],
+    ['lat=34&lng=NaN', 'lng'],
+    ['lat=1e1&lng=-118', 'lat'],
+    ['lat=91&lng=-118', 'lat'],
+    ['lat=34&lng=181', 'lng']
+  ])('rejects %j by blaming %s', (query, param) => {
+    const result = parseCoordinates(params(query));
+    expect(!result.ok && result.issue.param).toBe(param);
+  });
+});
+
+describe('parseOptionalCoordinates', () => {
+  it('is null when neither is given', () => {
+    expect(parseOptionalCoordinates(params(''))).toEqual({ ok: true, value: null });
+  });
+
+  it.each([
+    ['lat=34', 'lng'],
+    ['lng=-118', 'lat'],
+    ['lat=&lng=-118', 'lat']
+  ])('rejects %j by blaming %s', (query, param) => {
+    const result = parseOptionalCoordinates(params(query));
+    expect(!result.ok && result.issue.param).toBe(param);
+  });
+});
+
+describe('parseBBox', () => {
+  it('is null when left out', () => {
+    expect(parseBBox(params(''))).toEqual({ ok: true, value: null });
+  });
+
+  it('reads minLng,minLat,maxLng,maxLat', () => {
+    expect(parseBBox(params('bbox=-119,33.5,-117.5,34.5'))).toEqual({
+      ok: true,
+      value: { minLon: -119, minLat: 33.5, maxLon: -117.5, maxLat: 34.5 }
+    });
+  });
+
+  it.each([
+    ['too few numbers', '-119,33.5,-117.5'],
+    ['too many numbers', '-119,33.5,-117.5,34.5,1'],
+    ['a NaN corner', '-119,NaN,-117.5,34.5'],
+    ['an empty corner', '-119,,-117.5,34.5'],
+    ['a latitude out of range', '-119,-91,-117.5,34.5'],
+    ['a longitude out of range', '-181,33.5,-117.5,34.5'],
+    ['swapped longitudes', '-117.5,33.5,-119,34.5'],
+    ['swapped latitudes', '-119,34.5,-117.5,33.5']
+  ])('rejects %s', (_label, bbox) => {
+    const result = parseBBox(params(`bbox=${bbox}`));
+    expect(!result.ok && result.issue.param).toBe('bbox');
+  });
+});
+
+describe('radius', () => {
+  it.each([0.5, 25, 100])('accepts %d miles', (radius) => {
+    expect(validateRadius(radius, 100)).toEqual({ ok: true, value: radius });
+  });
+
+  it.each([0, -5, 100.1, NaN, Infinity, '25', null])('rejects %s', (radius) => {
+    const result = validateRadius(radius, 100);
+    expect(!result.ok && result.issue).toEqual({ param: 'radius', message: 'Radius must be between 0 and 100 miles' });
+  });
+
+  it('defaults when left out', () => {
+    expect(parseRadius(params(''), RADIUS)).toEqual({ ok: true, value: 25 });
+  });
+
+  it.each(['radius=500', 'radius=0', 'radius=-1', 'radius=ten', 'radius='])('rejects %j', (query) => {
+    expect(parseRadius(params(query), RADIUS).ok).toBe(false);
+  });
+});
+
+describe('parseLimit', () => {
+  it.each([
+    ['', 10],
+    ['limit=1', 1],
+    ['limit=50', 50],
+    ['limit=%2007%20', 7]
+  ])('reads %j as %d', (query, expected) => {
+    expect(parseLimit(params(query), LIMIT)).toEqual({ ok: true, value: expected });
+  });
+
+  it.each(['limit=0', 'limit=51', 'limit=2.5', 'limit=-3', 'limit=1e1', 'limit='])('rejects %j', (query) => {
+    const result = parseLimit(params(query), LIMIT);
+    expect(!result.ok && result.issue.param).toBe('limit');
+  });
+});
+
+describe('parseAreaQuery', () => {
+  it('is empty when nothing is given', () => {
+    expect(parseAreaQuery(params(''), RADIUS)).toEqual({ ok: true, value: { bbox: null, near: null } });
+  });
+
+  it('combines a bbox with a point and the default radius', () => {
+    expect(parseAreaQuery(params('bbox=-119,33,-117,35&lat=34&lng=-118'), RADIUS)).toEqual({
+      ok: true,
+      value: { bbox: { minLon: -119, minLat: 33, maxLon: -117, maxLat: 35 }, near: { lat: 34, lng: -118, radius: 25 } }
+    });
+  });
+
+  it.each([
+    ['a radius without a point', 'radius=10', 'radius'],
+    ['a point with a bad radius', 'lat=34&lng=-118&radius=101', 'radius'],
+    ['half a point', 'lat=34', 'lng'],
+    ['a bad bbox', 'bbox=1,2,3', 'bbox']
+  ])('rejects %s', (_label, query, param) => {
+    const result = parseAreaQuery(params(query), RADIUS);
+    expect(!result.ok && result.issue.param).toBe(param);
+  });
+});
@@ -0,0 +1,142 @@
+import type { BBox } from '@/utils/spatialIndex';
+
+// Query parsing shared by the API routes. Every parser either returns a
+// value or names the parameter that was wrong, so routes answer bad input
+// with the same 400 body via validationErrorResponse.
+
+export interface ValidationIssue {
+  param: string;
+  message: string;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issue: ValidationIssue };
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// Plain decimals only: no hex, exponents, "Infinity" or trailing junk like
+// "37.7&foo=bar", which Number() and parseFloat() would let through
+const DECIMAL_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const INTEGER_PATTERN = /^\d+$/;
+
+export function valid<T>(value: T): ParseResult<T> {
+  return { ok: true, value };
+}
+
+export function invalid<T>(param: string, message: string): ParseResult<T> {
+  return { ok: false, issue: { param, message } };
+}
+
+export function parseDecimal(value: string): number | null {
+  const trimmed = value.trim();
+  return DECIMAL_PATTERN.test(trimmed) ? Number(trimmed) : null;
+}
+
+export function isLatitude(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= -90 && value <= 90;
+}
+
+export function isLongitude(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= -180 && value <= 180;
+}
+
+// Also used for JSON bodies, where the values arrive already typed
+export function validateCoordinates(lat: unknown, lng: unknown): ParseResult<Coordinates> {
+  if (!isLatitude(lat)) return invalid('lat', 'Latitude must be a number between -90 and 90');
+  if (!isLongitude(lng)) return invalid('lng', 'Longitude must be a number between -180 and 180');
+  return valid({ lat, lng });
+}
+
+export function parseCoordinates(searchParams: URLSearchParams): ParseResult<Coordinates> {
+  const lat = searchParams.get('lat');
+  const lng = searchParams.get('lng');
+  if (!lat || !lng) return invalid(lat ? 'lng' : 'lat', 'Latitude and longitude are required');
+  return validateCoordinates(parseDecimal(lat), parseDecimal(lng));
+}
+
+// Null when both are left out; one without the other is an error
+export function parseOptionalCoordinates(searchParams: URLSearchParams): ParseResult<Coordinates | null> {
+  if (!searchParams.has('lat') && !searchParams.has('lng')) return valid(null);
+  if (!searchParams.get('lat') || !searchParams.get('lng')) {
+    return invalid(searchParams.get('lat') ? 'lng' : 'lat', 'Latitude and longitude must be given together');
+  }
+  return parseCoordinates(searchParams);
+}
+
+// "minLng,minLat,maxLng,maxLat", the GeoJSON bbox order. Boxes crossing the
+// antimeridian aren't supported; nothing we serve is near it.
+export function parseBBox(searchParams: URLSearchParams): ParseResult<BBox | null> {
+  const value = searchParams.get('bbox');
+  if (value === null) return valid(null);
+
+  const parts = value.split(',').map(parseDecimal);
+  if (parts.length !== 4 || parts.some((part) => part === null)) {
+    return invalid('bbox', 'bbox must be four numbers: minLng,minLat,maxLng,maxLat');
+  }
+
+  const [minLon, minLat, maxLon, maxLat] = parts as number[];
+  if (!isLongitude(minLon) || !isLongitude(maxLon) || !isLatitude(minLat) || !isLatitude(maxLat)) {
+    return invalid('bbox', 'bbox corners must be valid longitudes and latitudes');
+  }
+  if (minLon > maxLon || minLat > maxLat) {
+    return invalid('bbox', 'bbox minimums must not exceed its maximums');
+  }
+  return valid({ minLon, minLat, maxLon, maxLat });
+}
+
+// Radius in miles
+export function validateRadius(value: unknown, maxRadius: number): ParseResult<number> {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value > maxRadius) {
+    return invalid('radius', `Radius must be between 0 and ${maxRadius} miles`);
+  }
+  return valid(value);
+}
+
+export function parseRadius(
+  searchParams: URLSearchParams,
+  { defaultRadius, maxRadius }: { defaultRadius: number; maxRadius: number }
+): ParseResult<number> {
+  const value = searchParams.get('radius');
+  return validateRadius(value === null ? defaultRadius : parseDecimal(value), maxRadius);
+}
+
+export function parseLimit(
+  searchParams: URLSearchParams,
+  { defaultLimit, maxLimit }: { defaultLimit: number; maxLimit: number }
+): ParseResult<number> {
+  const value = searchParams.get('limit');
+  const limit = value === null ? defaultLimit : INTEGER_PATTERN.test(value.trim()) ? Number(value) : NaN;
+  if (!Number.isInteger(limit) || limit <= 0 || limit > maxLimit) {
+    return invalid('limit', `Limit must be an integer between 1 and ${maxLimit}`);
+  }
+  return valid(limit);
+}
+
+export interface AreaQuery {
+  bbox: BBox | null;
+  // Set when lat and lng were given; radius defaults when it wasn't
+  near: (Coordinates & { radius: number }) | null;
+}
+
+// Optional bbox and/or lat, lng and radius for the dataset routes. A radius
+// on its own is rejected rather than silently ignored.
+export function parseAreaQuery(
+  searchParams: URLSearchParams,
+  radius: { defaultRadius: number; maxRadius: number }
+): ParseResult<AreaQuery> {
+  const bbox = parseBBox(searchParams);
+  if (!bbox.ok) return bbox;
+  const coordinates = parseOptionalCoordinates(searchParams);
+  if (!coordinates.ok) return coordinates;
+
+  if (!coordinates.value) {
+    if (searchParams.has('radius')) return invalid('radius', 'Radius requires latitude and longitude');
+    return valid({ bbox: bbox.value, near: null });
+  }
+
+  const parsedRadius = parseRadius(searchParams, radius);
+  if (!parsedRadius.ok) return parsedRadius;
+  return valid({ bbox: bbox.value, near: { ...coordinates.value, radius: parsedRadius.value } });
+}
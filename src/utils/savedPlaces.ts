@@ -0,0 +1,104 @@
+import type { SavedPlace } from '@/types';
+
+// Saved places live in localStorage and travel between people as a
+// ?places= URL parameter: "Home@34.1897,-118.1312;Office@34.0522,-118.2437"
+
+export const MAX_SAVED_PLACES = 10;
+export const PLACES_PARAM = 'places';
+
+const STORAGE_KEY = 'savedPlaces';
+const MAX_NAME_LENGTH = 60;
+
+export function createPlaceId(): string {
+  return Math.random().toString(36).substring(2, 10);
+}
+
+function cleanName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH);
+}
+
+function isValidCoordinate(lat: number, lng: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+// Two places closer than ~10m are treated as the same place
+function samePlace(a: SavedPlace, b: SavedPlace): boolean {
+  return a.lat.toFixed(4) === b.lat.toFixed(4) && a.lng.toFixed(4) === b.lng.toFixed(4);
+}
+
+export function createSavedPlace(name: string, lat: number, lng: number): SavedPlace | null {
+  const cleaned = cleanName(name);
+  if (!cleaned || !isValidCoordinate(lat, lng)) return null;
+  return { id: createPlaceId(), name: cleaned, lat, lng };
+}
+
+// Adds incoming places that aren't already saved, keeping the list capped
+export function mergePlaces(existing: SavedPlace[], incoming: SavedPlace[]): SavedPlace[] {
+  const merged = [...existing];
+  incoming.forEach((place) => {
+    if (!merged.some((saved) => samePlace(saved, place))) merged.push(place);
+  });
+  return merged.slice(0, MAX_SAVED_PLACES);
+}
+
+export function loadSavedPlaces(): SavedPlace[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((place): place is SavedPlace =>
+        place &&
+        typeof place.id === 'string' &&
+        typeof place.name === 'string' &&
+        isValidCoordinate(place.lat, place.lng)
+      )
+      .slice(0, MAX_SAVED_PLACES);
+  } catch (error) {
+    // Private browsing and corrupted entries shouldn't break the page
+    console.error('Failed to read saved places:', error);
+    return [];
+  }
+}
+
+export function storeSavedPlaces(places: SavedPlace[]): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(places));
+  } catch (error) {
+    console.error('Failed to store saved places:', error);
+  }
+}
+
+// Names are URI-encoded so they can contain the separators
+export function encodePlacesParam(places: SavedPlace[]): string {
+  return places
+    .map((place) => `${encodeURIComponent(place.name)}@${place.lat.toFixed(5)},${place.lng.toFixed(5)}`)
+    .join(';');
+}
+
+export function decodePlacesParam(value: string): SavedPlace[] {
+  const places: SavedPlace[] = [];
+  value.split(';').forEach((entry) => {
+    const separator = entry.lastIndexOf('@');
+    if (separator <= 0) return;
+    const [lat, lng] = entry.slice(separator + 1).split(',').map(Number);
+    let name: string;
+    try {
+      name = decodeURIComponent(entry.slice(0, separator));
+    } catch {
+      return;
+    }
+    const place = createSavedPlace(name, lat, lng);
+    if (place) places.push(place);
+  });
+  return places.slice(0, MAX_SAVED_PLACES);
+}
+
+export function buildShareUrl(places: SavedPlace[]): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(PLACES_PARAM, encodePlacesParam(places));
+  return url.toString();
+}
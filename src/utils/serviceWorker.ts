@@ -0,0 +1,26 @@
+// Registration of public/sw.js, which handles offline caching and push alerts
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+// Set by the service worker on responses served from its cache, see public/sw.js
+const CACHED_AT_HEADER = 'X-SW-Cached-At';
+
+export function isServiceWorkerSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration> {
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+  return registration;
+}
+
+export async function getServiceWorkerRegistration(): Promise<ServiceWorkerRegistration | undefined> {
+  return navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+}
+
+// When the service worker cached this response, or null for a live response
+export function getOfflineCachedAt(response: Response): number | null {
+  const cachedAt = Number(response.headers.get(CACHED_AT_HEADER));
+  return cachedAt > 0 ? cachedAt : null;
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createFireIndex,
+  createZoneIndex,
+  findNearestFires,
+  findNearestZones,
+  rankFiresByDistance,
+  rankZonesByDistance
+} from '@/utils/nearby';
+import { bboxesIntersect, createSpatialIndex, pointBBox } from '@/utils/spatialIndex';
+import type { BBox } from '@/utils/spatialIndex';
+import { getZoneBBox } from '@/utils/geometry';
+import { fireFeature, squareRing, zoneFeature } from '@/test/features';
+import type { EvacuationFeature, FireFeature, FirePerimeterFeature, Position } from '@/types';
+
+// The index has to agree with the exhaustive scans in nearby.ts, which
+// scripts/benchmark-spatial-index.ts also times against it
+
+// Around Los Angeles, small enough to stay fast and wide enough that
+// queries need several rings of cells
+const BOUNDS = { minLon: -119, minLat: 33.8, maxLon: -117.5, maxLat: 34.8 };
+
+// Seeded (mulberry32) so failures reproduce
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createDataset(seed: number) {
+  const random = createRandom(seed);
+  const point = (): Position => [
+    BOUNDS.minLon + random() * (BOUNDS.maxLon - BOUNDS.minLon),
+    BOUNDS.minLat + random() * (BOUNDS.maxLat - BOUNDS.minLat)
+  ];
+
+  // Irregular star-shaped zones with 8 to 24 vertices
+  const zones: EvacuationFeature[] = Array.from({ length: 150 }, (_, i) => {
+    const [lng, lat] = point();
+    const vertices = 8 + Math.floor(random() * 16);
+    const radius = 0.005 + random() * 0.04;
+    const ring: Position[] = Array.from({ length: vertices }, (__, v) => {
+      const angle = (v / vertices) * Math.PI * 2;
+      const r = radius * (0.6 + random() * 0.4);
+      return [lng + Math.cos(angle) * r, lat + Math.sin(angle) * r];
+    });
+    return zoneFeature(`z${i}`, 'order', [[...ring, ring[0]]]);
+  });
+
+  const fires: FireFeature[] = Array.from({ length: 40 }, (_, i) => {
+    const [Longitude, Latitude] = point();
+    return fireFeature({ Name: `Fire ${i}`, UniqueId: `f${i}`, Latitude, Longitude });
+  });
+
+  // Every fourth fire gets a perimeter, offset from its incident point
+  const perimeters = new Map<FireFeature, FirePerimeterFeature>();
+  fires.forEach((fire, i) => {
+    if (i % 4 !== 0) return;
+    const { Latitude, Longitude } = fire.properties;
+    perimeters.set(fire, {
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: [squareRing(Latitude + 0.05, Longitude + 0.05, 0.04 + random() * 0.1)] },
+      properties: { incident_name: fire.properties.Name, incident_id: null, acres: null, updated: null }
+    });
+  });
+
+  // Mostly inside the data, some well outside it
+  const queries: Position[] = Array.from({ length: 120 }, (_, i) =>
+    i % 6 === 0 ? [BOUNDS.maxLon + 1 + random(), BOUNDS.minLat - random()] : point()
+  );
+
+  return { zones, fires, perimeters, queries };
+}
+
+const { zones, fires, perimeters, queries } = createDataset(42);
+const zoneIndex = createZoneIndex(zones);
+const fireIndex = createFireIndex(fires, perimeters);
+
+const distances = (results: Array<{ distance: number }>) => results.map(({ distance }) => distance);
+
+describe('nearest', () => {
+  it.each([1, 5, 20])('matches the exhaustive zone scan for the nearest %d', (limit) => {
+    queries.forEach(([lon, lat]) => {
+      const indexed = distances(findNearestZones(lat, lon, zoneIndex, { limit }));
+      const brute = distances(rankZonesByDistance(lat, lon, zones).slice(0, limit));
+      expect(indexed).toHaveLength(limit);
+      indexed.forEach((distance, i) => expect(distance).toBeCloseTo(brute[i], 9));
+    });
+  });
+
+  it.each([1, 5])('matches the exhaustive fire scan, perimeters included, for the nearest %d', (limit) => {
+    queries.forEach(([lon, lat]) => {
+      const indexed = distances(findNearestFires(lat, lon, fireIndex, { limit }));
+      const brute = distances(rankFiresByDistance(lat, lon, fires, perimeters).slice(0, limit));
+      indexed.forEach((distance, i) => expect(distance).toBeCloseTo(brute[i], 9));
+    });
+  });
+
+  it('returns exactly what lies within maxDistance', () => {
+    queries.forEach(([lon, lat]) => {
+      const indexed = findNearestZones(lat, lon, zoneIndex, { limit: zones.length, maxDistance: 5 });
+      const brute = rankZonesByDistance(lat, lon, zones).filter(({ distance }) => distance <= 5);
+      expect(indexed.map(({ zone }) => zone.properties.zone_id).sort())
+        .toEqual(brute.map(({ zone }) => zone.properties.zone_id).sort());
+    });
+  });
+
+  it('stops searching once rings are past maxDistance', () => {
+    let measured = 0;
+    const [lon, lat] = queries.find(([queryLon]) => queryLon > BOUNDS.maxLon)!;
+    const results = findNearestZones(lat, lon, zoneIndex, { maxDistance: 1, onMeasure: () => { measured++; } });
+    expect(results).toEqual([]);
+    expect(measured).toBe(0);
+  });
+
+  it('measures far fewer zones than a full scan', () => {
+    let measured = 0;
+    const inside = queries.filter(([lon]) => lon <= BOUNDS.maxLon);
+    inside.forEach(([lon, lat]) => findNearestZones(lat, lon, zoneIndex, { onMeasure: () => { measured++; } }));
+    expect(measured / inside.length).toBeLessThan(zones.length / 4);
+  });
+
+  it('returns everything when the limit exceeds the dataset', () => {
+    expect(findNearestFires(34, -118, fireIndex, { limit: 1000 })).toHaveLength(fires.length);
+  });
+
+  it('returns nothing for an empty index or a zero limit', () => {
+    expect(findNearestZones(34, -118, createZoneIndex([]))).toEqual([]);
+    expect(findNearestZones(34, -118, zoneIndex, { limit: 0 })).toEqual([]);
+  });
+});
+
+describe('zones spanning many cells', () => {
+  // Half a degree across on a 0.01 degree grid: thousands of cells
+  const large = zoneFeature('large', 'order', [squareRing(34.3, -118.3, 0.25)]);
+  const small = zoneFeature('small', 'warning', [squareRing(34.3, -117.9, 0.01)]);
+  const index = createSpatialIndex([large, small], getZoneBBox, 0.01);
+
+  it('finds the zone from a point deep inside it, once', () => {
+    const results = index.nearest(34.3, -118.3, (zone) => ({ distance: zone === large ? 0 : 20 }), { limit: 5 });
+    expect(results.map(({ item }) => item.properties.zone_id)).toEqual(['large', 'small']);
+  });
+
+  it('matches the exhaustive scan from inside, at the edge and outside', () => {
+    [[34.3, -118.3], [34.55, -118.3], [34.3, -117.7], [35, -119]].forEach(([lat, lon]) => {
+      const indexed = index.nearest(lat, lon, (zone) => rankZonesByDistance(lat, lon, [zone])[0], { limit: 2 });
+      const brute = rankZonesByDistance(lat, lon, [large, small]);
+      expect(distances(indexed)).toEqual(distances(brute));
+    });
+  });
+
+  it('returns a spanning zone once per search', () => {
+    const results = index.search({ minLon: -118.5, minLat: 34.1, maxLon: -118.1, maxLat: 34.5 });
+    expect(results).toEqual([large]);
+  });
+});
+
+describe('search', () => {
+  it('matches a scan of bounding boxes', () => {
+    const random = createRandom(7);
+    for (let i = 0; i < 50; i++) {
+      const lon = BOUNDS.minLon + random() * 1.5;
+      const lat = BOUNDS.minLat + random();
+      const box: BBox = { minLon: lon, minLat: lat, maxLon: lon + random() * 0.3, maxLat: lat + random() * 0.3 };
+      const brute = zones.filter((zone) => bboxesIntersect(getZoneBBox(zone), box));
+      expect(new Set(zoneIndex.search(box))).toEqual(new Set(brute));
+      expect(zoneIndex.search(box)).toHaveLength(brute.length);
+    }
+  });
+
+  it('skips features without usable coordinates', () => {
+    const index = createSpatialIndex([{ id: 'bad' }, { id: 'good' }], ({ id }) =>
+      id === 'bad' ? pointBBox(NaN, -118) : pointBBox(34, -118)
+    );
+    expect(index.search(pointBBox(34, -118))).toEqual([{ id: 'good' }]);
+  });
+});
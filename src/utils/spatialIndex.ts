@@ -0,0 +1,214 @@
+// Uniform grid over feature bounding boxes. Built once per dataset load and
+// used to limit exact distance work to the features near a query point.
+
+export interface BBox {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+export interface NearestOptions<T> {
+  limit?: number;
+  // Miles; features further away are never returned
+  maxDistance?: number;
+  filter?: (item: T) => boolean;
+  // Called for every candidate that gets measured, mostly for stats
+  onMeasure?: (item: T) => void;
+}
+
+export interface SpatialIndex<T> {
+  items: T[];
+  search(bbox: BBox): T[];
+  // Exact measurements come from the caller, so the same index works for
+  // point features (haversine) and polygons (edge distance)
+  nearest<M extends { distance: number }>(
+    lat: number,
+    lon: number,
+    measure: (item: T) => M,
+    options?: NearestOptions<T>
+  ): Array<M & { item: T }>;
+}
+
+const MILES_PER_DEGREE_LAT = 69.0;
+const MIN_CELL_SIZE = 0.01;
+const MAX_CELL_SIZE = 1;
+
+function toRad(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+export function pointBBox(lat: number, lon: number): BBox {
+  return { minLon: lon, minLat: lat, maxLon: lon, maxLat: lat };
+}
+
+export function positionsBBox(positions: Iterable<[number, number]>): BBox {
+  const bbox = { minLon: Infinity, minLat: Infinity, maxLon: -Infinity, maxLat: -Infinity };
+  for (const [lon, lat] of positions) {
+    if (lon < bbox.minLon) bbox.minLon = lon;
+    if (lat < bbox.minLat) bbox.minLat = lat;
+    if (lon > bbox.maxLon) bbox.maxLon = lon;
+    if (lat > bbox.maxLat) bbox.maxLat = lat;
+  }
+  return bbox;
+}
+
+export function unionBBox(a: BBox, b: BBox): BBox {
+  return {
+    minLon: Math.min(a.minLon, b.minLon),
+    minLat: Math.min(a.minLat, b.minLat),
+    maxLon: Math.max(a.maxLon, b.maxLon),
+    maxLat: Math.max(a.maxLat, b.maxLat)
+  };
+}
+
+// Edges count, so a point box on the boundary is inside
+export function bboxesIntersect(a: BBox, b: BBox): boolean {
+  return a.maxLon >= b.minLon && a.minLon <= b.maxLon && a.maxLat >= b.minLat && a.minLat <= b.maxLat;
+}
+
+function isFiniteBBox(box: BBox): boolean {
+  return Number.isFinite(box.minLon + box.minLat + box.maxLon + box.maxLat);
+}
+
+// Aim for roughly one feature per cell across the dataset's extent
+function chooseCellSize(allBoxes: BBox[]): number {
+  const boxes = allBoxes.filter(isFiniteBBox);
+  if (boxes.length === 0) return MAX_CELL_SIZE;
+  let minLon = Infinity, minLat = Infinity, maxLon = -Infinity, maxLat = -Infinity;
+  boxes.forEach((box) => {
+    minLon = Math.min(minLon, box.minLon);
+    minLat = Math.min(minLat, box.minLat);
+    maxLon = Math.max(maxLon, box.maxLon);
+    maxLat = Math.max(maxLat, box.maxLat);
+  });
+  const area = Math.max((maxLon - minLon) * (maxLat - minLat), MIN_CELL_SIZE * MIN_CELL_SIZE);
+  const size = Math.sqrt(area / boxes.length);
+  return Math.min(MAX_CELL_SIZE, Math.max(MIN_CELL_SIZE, size));
+}
+
+export function createSpatialIndex<T>(
+  items: T[],
+  getBBox: (item: T) => BBox,
+  cellSize?: number
+): SpatialIndex<T> {
+  const boxes = items.map(getBBox);
+  const size = cellSize ?? chooseCellSize(boxes);
+  const cells = new Map<string, number[]>();
+  let minCol = Infinity, minRow = Infinity, maxCol = -Infinity, maxRow = -Infinity;
+
+  const cellKey = (col: number, row: number) => `${col}:${row}`;
+  const toCol = (lon: number) => Math.floor(lon / size);
+  const toRow = (lat: number) => Math.floor(lat / size);
+
+  boxes.forEach((box, index) => {
+    // Skip features without usable coordinates rather than poisoning the grid
+    if (!isFiniteBBox(box)) return;
+    for (let col = toCol(box.minLon); col <= toCol(box.maxLon); col++) {
+      for (let row = toRow(box.minLat); row <= toRow(box.maxLat); row++) {
+        const key = cellKey(col, row);
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(index);
+        else cells.set(key, [index]);
+        minCol = Math.min(minCol, col);
+        maxCol = Math.max(maxCol, col);
+        minRow = Math.min(minRow, row);
+        maxRow = Math.max(maxRow, row);
+      }
+    }
+  });
+
+  // Per-query stamps avoid allocating a Set for every lookup
+  const visitedStamp = new Uint32Array(items.length);
+  let queryStamp = 0;
+  const nextStamp = () => {
+    queryStamp++;
+    if (queryStamp === 0xffffffff) {
+      visitedStamp.fill(0);
+      queryStamp = 1;
+    }
+    return queryStamp;
+  };
+
+  const search = (bbox: BBox): T[] => {
+    const stamp = nextStamp();
+    const results: T[] = [];
+    for (let col = toCol(bbox.minLon); col <= toCol(bbox.maxLon); col++) {
+      for (let row = toRow(bbox.minLat); row <= toRow(bbox.maxLat); row++) {
+        cells.get(cellKey(col, row))?.forEach((index) => {
+          if (visitedStamp[index] === stamp) return;
+          visitedStamp[index] = stamp;
+          if (bboxesIntersect(boxes[index], bbox)) results.push(items[index]);
+        });
+      }
+    }
+    return results;
+  };
+
+  const nearest = <M extends { distance: number }>(
+    lat: number,
+    lon: number,
+    measure: (item: T) => M,
+    { limit = 1, maxDistance = Infinity, filter, onMeasure }: NearestOptions<T> = {}
+  ): Array<M & { item: T }> => {
+    const stamp = nextStamp();
+    const results: Array<M & { item: T }> = [];
+    if (cells.size === 0 || limit <= 0) return results;
+
+    const centerCol = toCol(lon);
+    const centerRow = toRow(lat);
+    // Rings beyond this cover no populated cells
+    const maxRing = Math.max(
+      Math.abs(centerCol - minCol), Math.abs(maxCol - centerCol),
+      Math.abs(centerRow - minRow), Math.abs(maxRow - centerRow)
+    );
+
+    const visitCell = (col: number, row: number) => {
+      cells.get(cellKey(col, row))?.forEach((index) => {
+        if (visitedStamp[index] === stamp) return;
+        visitedStamp[index] = stamp;
+        const item = items[index];
+        if (filter && !filter(item)) return;
+        onMeasure?.(item);
+        const measurement = measure(item);
+        if (measurement.distance > maxDistance) return;
+        results.push({ ...measurement, item });
+      });
+    };
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      if (ring === 0) {
+        visitCell(centerCol, centerRow);
+      } else {
+        for (let offset = -ring; offset <= ring; offset++) {
+          visitCell(centerCol + offset, centerRow - ring);
+          visitCell(centerCol + offset, centerRow + ring);
+          if (Math.abs(offset) !== ring) {
+            visitCell(centerCol - ring, centerRow + offset);
+            visitCell(centerCol + ring, centerRow + offset);
+          }
+        }
+      }
+
+      // Anything not yet visited lies entirely outside the searched square,
+      // so the distance to that square's border is a lower bound for it
+      const lonGap = Math.min(lon - (centerCol - ring) * size, (centerCol + ring + 1) * size - lon);
+      const latGap = Math.min(lat - (centerRow - ring) * size, (centerRow + ring + 1) * size - lat);
+      const farthestLat = Math.min(89, Math.abs(lat) + latGap);
+      const lowerBound = Math.min(
+        latGap * MILES_PER_DEGREE_LAT,
+        lonGap * MILES_PER_DEGREE_LAT * Math.cos(toRad(farthestLat))
+      );
+
+      if (lowerBound > maxDistance) break;
+      if (results.length >= limit) {
+        results.sort((a, b) => a.distance - b.distance);
+        if (results[limit - 1].distance <= lowerBound) break;
+      }
+    }
+
+    return results.sort((a, b) => a.distance - b.distance).slice(0, limit);
+  };
+
+  return { items, search, nearest };
+}
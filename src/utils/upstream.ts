@@ -0,0 +1,179 @@
+import type { EvacuationFeature, EvacuationHazard, EvacuationStatus, FireFeature, FirePerimeterFeature } from '@/types';
+import { DEFAULT_EVACUATION_STATUSES } from '@/utils/evacuationStatus';
+import { getFireId } from '@/utils/fireIdentity';
+import { getRawFeatures, normalizeEvacuationFeatures, normalizeFireFeatures, normalizeFirePerimeterFeatures } from '@/utils/geojson';
+import type { FeatureIssueCounts, NormalizedFeatures } from '@/utils/geojson';
+import { getLastKnownGoodStore } from '@/utils/lastKnownGood';
+import { UpstreamError, getUpstreamClient } from '@/utils/upstreamClient';
+import type { UpstreamErrorCode, UpstreamSource } from '@/utils/upstreamClient';
+
+// Shared upstream fetches so every route sees the same filtered data
+
+const UPSTREAM_CACHE_HEADERS = {
+  'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=60',
+  'Vercel-CDN-Cache-Control': 'public, s-maxage=3600',
+  'CDN-Cache-Control': 'public, s-maxage=3600'
+};
+
+export interface UpstreamResult<T> {
+  features: T[];
+  cacheStatus: string;
+  // Features quarantined by validation, before any filtering
+  rejected: number;
+  issues: FeatureIssueCounts;
+  // When the upstream returned this data. Older than the request when stale.
+  asOf: number;
+  // True when the upstream failed and the last good payload was served
+  stale: boolean;
+  // Why the fresh fetch failed, when stale
+  staleReason: UpstreamErrorCode | null;
+}
+
+const SOURCE_LABELS: Record<UpstreamSource, string> = {
+  fires: 'Fire API',
+  evacuations: 'Evacuation API',
+  perimeters: 'Fire perimeter API',
+  airnow: 'AirNow API',
+  aqicn: 'AQICN API',
+  purpleair: 'PurpleAir API'
+};
+
+// Fetches a GeoJSON FeatureCollection and validates every feature. Bad
+// features are dropped and counted; a payload that isn't a collection at all,
+// or where nothing survives validation, fails the whole source.
+async function fetchFeatureCollection<T>(
+  source: UpstreamSource,
+  url: string,
+  normalize: (raw: unknown) => NormalizedFeatures<T>
+): Promise<UpstreamResult<T>> {
+  const label = SOURCE_LABELS[source];
+  const response = await getUpstreamClient().request(source, url, { headers: UPSTREAM_CACHE_HEADERS });
+
+  let payload: unknown;
+  try {
+    payload = await response.json();
+  } catch {
+    throw new UpstreamError('UPSTREAM_INVALID_JSON', source, `${label} returned invalid JSON`);
+  }
+
+  if (!getRawFeatures(payload)) {
+    throw new UpstreamError('UPSTREAM_SCHEMA', source, `${label} response is not a FeatureCollection`);
+  }
+
+  const { features, rejected, issues } = normalize(payload);
+  if (features.length === 0 && rejected > 0) {
+    throw new UpstreamError(
+      'UPSTREAM_SCHEMA',
+      source,
+      `${label} returned ${rejected} features and none passed validation: ${formatIssues(issues)}`
+    );
+  }
+
+  return {
+    features,
+    rejected,
+    issues,
+    cacheStatus: response.headers.get('x-vercel-cache') || 'MISS',
+    asOf: Date.now(),
+    stale: false,
+    staleReason: null
+  };
+}
+
+// During an emergency an hour-old map beats an error page, so a failed fetch
+// falls back to the last payload that passed validation
+async function fetchWithFallback<T>(
+  source: UpstreamSource,
+  url: string,
+  normalize: (raw: unknown) => NormalizedFeatures<T>
+): Promise<UpstreamResult<T>> {
+  const store = getLastKnownGoodStore();
+
+  try {
+    const result = await fetchFeatureCollection(source, url, normalize);
+    const { features, rejected, issues, cacheStatus, asOf } = result;
+    await store.save(source, { features, rejected, issues, cacheStatus, asOf }).catch((error) => {
+      console.error(`[Upstream] Failed to save last good ${source} payload:`, error);
+    });
+    return result;
+  } catch (error) {
+    if (!(error instanceof UpstreamError)) throw error;
+
+    const fallback = await store.load<T>(source).catch((loadError) => {
+      console.error(`[Upstream] Failed to load last good ${source} payload:`, loadError);
+      return null;
+    });
+    if (!fallback) throw error;
+
+    console.warn(`[Upstream] Serving ${source} from ${new Date(fallback.asOf).toISOString()} after ${error.code}: ${error.message}`);
+    return { ...fallback, stale: true, staleReason: error.code };
+  }
+}
+
+// "invalid_geometry=3,missing_id=1"
+export function formatIssues(issues: FeatureIssueCounts): string {
+  return Object.entries(issues)
+    .map(([issue, count]) => `${issue}=${count}`)
+    .join(',');
+}
+
+// The feed includes contained and inactive fires with ?inactive=true
+async function fetchFireFeed(): Promise<UpstreamResult<FireFeature>> {
+  return fetchWithFallback(
+    'fires',
+    `${process.env.NEXT_PUBLIC_FIRE_API_URL}?inactive=true`,
+    normalizeFireFeatures
+  );
+}
+
+export async function fetchActiveFires(): Promise<UpstreamResult<FireFeature>> {
+  const result = await fetchFireFeed();
+  return {
+    ...result,
+    features: result.features.filter((fire) => fire.properties.IsActive)
+  };
+}
+
+// Shared links outlive a fire's active period, so inactive fires are included
+export async function fetchFireById(id: string): Promise<FireFeature | null> {
+  const { features } = await fetchFireFeed();
+  const fireId = id.toLowerCase();
+  return features.find((fire) => getFireId(fire) === fireId) ?? null;
+}
+
+export interface EvacuationFilter {
+  // Empty lists mean "no filter"
+  statuses?: EvacuationStatus[];
+  hazards?: EvacuationHazard[];
+}
+
+export async function fetchEvacuations(
+  { statuses = DEFAULT_EVACUATION_STATUSES, hazards = [] }: EvacuationFilter = {}
+): Promise<UpstreamResult<EvacuationFeature>> {
+  // Validate geometry and properties before anything downstream touches them
+  const result = await fetchWithFallback(
+    'evacuations',
+    process.env.NEXT_PUBLIC_EVACUATION_API_URL as string,
+    normalizeEvacuationFeatures
+  );
+
+  return {
+    ...result,
+    features: result.features.filter(
+      (zone) =>
+        (statuses.length === 0 || statuses.includes(zone.properties.status)) &&
+        (hazards.length === 0 || hazards.includes(zone.properties.hazard))
+    )
+  };
+}
+
+// Perimeters are an optional source: without a configured URL there are
+// simply none, and distances fall back to incident points
+export async function fetchFirePerimeters(): Promise<UpstreamResult<FirePerimeterFeature>> {
+  const url = process.env.NEXT_PUBLIC_FIRE_PERIMETER_API_URL;
+  if (!url) {
+    return { features: [], rejected: 0, issues: {}, cacheStatus: 'NONE', asOf: Date.now(), stale: false, staleReason: null };
+  }
+
+  return fetchWithFallback('perimeters', url, normalizeFirePerimeterFeatures);
+}
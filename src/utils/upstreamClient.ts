@@ -0,0 +1,186 @@
+// HTTP client for the CAL FIRE, evacuation and perimeter feeds and the air
+// quality providers: every request gets a timeout, transient failures are
+// retried with backoff, and a source that keeps failing is left alone for a
+// while instead of being hammered.
+
+// Each air quality provider is its own source, so one being down doesn't
+// open the circuit for the others
+export type UpstreamSource = 'fires' | 'evacuations' | 'perimeters' | 'airnow' | 'aqicn' | 'purpleair';
+
+// UPSTREAM_UNAVAILABLE, UPSTREAM_TIMEOUT, UPSTREAM_CIRCUIT_OPEN and
+// UPSTREAM_HTTP_ERROR mean the source is down; UPSTREAM_INVALID_JSON and
+// UPSTREAM_SCHEMA mean it answered in a shape we no longer understand
+export type UpstreamErrorCode =
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_CIRCUIT_OPEN'
+  | 'UPSTREAM_HTTP_ERROR'
+  | 'UPSTREAM_INVALID_JSON'
+  | 'UPSTREAM_SCHEMA';
+
+export class UpstreamError extends Error {
+  readonly code: UpstreamErrorCode;
+  readonly source: UpstreamSource;
+  // HTTP status from the upstream, for UPSTREAM_HTTP_ERROR
+  readonly status: number | null;
+
+  constructor(code: UpstreamErrorCode, source: UpstreamSource, message: string, status: number | null = null) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.code = code;
+    this.source = source;
+    this.status = status;
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface UpstreamClientOptions {
+  timeoutMs?: number;
+  // Total tries per request, including the first
+  maxAttempts?: number;
+  // Doubled after every failed attempt
+  retryDelayMs?: number;
+  // Consecutive failed requests before the circuit opens
+  failureThreshold?: number;
+  // How long an open circuit rejects requests before letting one through
+  cooldownMs?: number;
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export interface UpstreamClient {
+  request(source: UpstreamSource, url: string, init?: RequestInit): Promise<Response>;
+  circuitState(source: UpstreamSource): CircuitState;
+}
+
+interface Circuit {
+  failures: number;
+  openedAt: number | null;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 300;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+
+// Server errors and rate limiting can clear up on their own, other 4xx won't
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429 || status === 408;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createUpstreamClient({
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+  failureThreshold = DEFAULT_FAILURE_THRESHOLD,
+  cooldownMs = DEFAULT_COOLDOWN_MS,
+  fetch: fetchImpl = (input, init) => fetch(input, init),
+  sleep = wait,
+  now = Date.now
+}: UpstreamClientOptions = {}): UpstreamClient {
+  const circuits = new Map<UpstreamSource, Circuit>();
+
+  const getCircuit = (source: UpstreamSource): Circuit => {
+    let circuit = circuits.get(source);
+    if (!circuit) {
+      circuit = { failures: 0, openedAt: null };
+      circuits.set(source, circuit);
+    }
+    return circuit;
+  };
+
+  const circuitState = (source: UpstreamSource): CircuitState => {
+    const { openedAt } = getCircuit(source);
+    if (openedAt === null) return 'closed';
+    return now() - openedAt >= cooldownMs ? 'half_open' : 'open';
+  };
+
+  // One attempt, with the timeout turned into a typed error
+  const attempt = async (source: UpstreamSource, url: string, init: RequestInit): Promise<Response> => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Aborting cancels the request; the race stops the wait even for fetch
+    // implementations that ignore the signal
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error('timeout'));
+      }, timeoutMs);
+    });
+    try {
+      const response = await Promise.race([fetchImpl(url, { ...init, signal: controller.signal }), timeout]);
+      if (!response.ok) {
+        throw new UpstreamError(
+          'UPSTREAM_HTTP_ERROR',
+          source,
+          `${source} upstream error: ${response.status} ${response.statusText}`,
+          response.status
+        );
+      }
+      return response;
+    } catch (error) {
+      if (error instanceof UpstreamError) throw error;
+      if (controller.signal.aborted) {
+        throw new UpstreamError('UPSTREAM_TIMEOUT', source, `${source} upstream timed out after ${timeoutMs}ms`);
+      }
+      throw new UpstreamError(
+        'UPSTREAM_UNAVAILABLE',
+        source,
+        `${source} upstream unreachable: ${error instanceof Error ? error.message : error}`
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    circuitState,
+
+    async request(source, url, init = {}) {
+      const circuit = getCircuit(source);
+      if (circuitState(source) === 'open') {
+        throw new UpstreamError('UPSTREAM_CIRCUIT_OPEN', source, `${source} upstream is failing, not retrying yet`);
+      }
+
+      // A half-open circuit gets a single try; one failure reopens it
+      const attempts = circuitState(source) === 'half_open' ? 1 : maxAttempts;
+      let lastError: UpstreamError | null = null;
+
+      for (let i = 0; i < attempts; i++) {
+        if (i > 0) await sleep(retryDelayMs * 2 ** (i - 1));
+        try {
+          const response = await attempt(source, url, init);
+          circuit.failures = 0;
+          circuit.openedAt = null;
+          return response;
+        } catch (error) {
+          lastError = error as UpstreamError;
+          const retryable = lastError.code !== 'UPSTREAM_HTTP_ERROR' ||
+            (lastError.status !== null && isRetryableStatus(lastError.status));
+          if (!retryable) break;
+        }
+      }
+
+      circuit.failures += 1;
+      if (circuit.failures >= failureThreshold) circuit.openedAt = now();
+      throw lastError as UpstreamError;
+    }
+  };
+}
+
+// Circuits only mean something if every route shares the same client
+const globalForUpstream = globalThis as unknown as { upstreamClient?: UpstreamClient };
+
+export function getUpstreamClient(): UpstreamClient {
+  if (!globalForUpstream.upstreamClient) {
+    globalForUpstream.upstreamClient = createUpstreamClient();
+  }
+  return globalForUpstream.upstreamClient;
+}
@@ -0,0 +1,50 @@
+import { formatIssues } from '@/utils/upstream';
+import type { UpstreamResult } from '@/utils/upstream';
+import type { UpstreamSource } from '@/utils/upstreamClient';
+
+// Response headers describing the upstream data a route served
+
+type ResultSummary = Pick<UpstreamResult<unknown>, 'rejected' | 'issues' | 'asOf' | 'stale'>;
+
+// Stale responses are cached briefly, so the CDN picks up fresh data soon
+// after the upstream recovers
+export const STALE_MAX_AGE = 60;
+
+// X-Dropped-Features is the total quarantined across sources, and
+// X-Dropped-Reasons breaks it down, e.g. "evacuations:invalid_geometry=3"
+export function droppedFeatureHeaders(
+  results: Partial<Record<UpstreamSource, ResultSummary>>
+): Record<string, string> {
+  let dropped = 0;
+  const reasons: string[] = [];
+
+  Object.entries(results).forEach(([source, result]) => {
+    if (!result || result.rejected === 0) return;
+    dropped += result.rejected;
+    reasons.push(...formatIssues(result.issues).split(',').map((issue) => `${source}:${issue}`));
+  });
+
+  return {
+    'X-Dropped-Features': dropped.toString(),
+    ...(reasons.length > 0 ? { 'X-Dropped-Reasons': reasons.join(',') } : {})
+  };
+}
+
+// X-Data-Stale is true when any source fell back to its last good payload,
+// and X-Data-As-Of is the oldest source's timestamp
+export function freshnessHeaders(
+  results: Partial<Record<UpstreamSource, ResultSummary>>
+): Record<string, string> {
+  const summaries = Object.values(results).filter((result): result is ResultSummary => Boolean(result));
+  const asOf = Math.min(...summaries.map((result) => result.asOf));
+  return {
+    'X-Data-Stale': String(summaries.some((result) => result.stale)),
+    ...(Number.isFinite(asOf) ? { 'X-Data-As-Of': new Date(asOf).toISOString() } : {})
+  };
+}
+
+export function upstreamHeaders(
+  results: Partial<Record<UpstreamSource, ResultSummary>>
+): Record<string, string> {
+  return { ...droppedFeatureHeaders(results), ...freshnessHeaders(results) };
+}